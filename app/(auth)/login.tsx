@@ -11,14 +11,17 @@ import {
   ScrollView,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import { Link, router } from "expo-router";
+import { Link, router, useLocalSearchParams } from "expo-router";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
 import { useAuth } from "@/lib/auth-context";
+import { getPostAuthRoute } from "@/lib/pending-invite";
+import AccountSwitcher from "@/components/AccountSwitcher";
 
 export default function LoginScreen() {
   const { login } = useAuth();
-  const [email, setEmail] = useState("");
+  const { returnTo, email: savedEmail } = useLocalSearchParams<{ returnTo?: string; email?: string }>();
+  const [email, setEmail] = useState(savedEmail ?? "");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState("");
@@ -34,7 +37,7 @@ export default function LoginScreen() {
     try {
       await login(email.trim(), password);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      router.replace("/(tabs)");
+      router.replace(await getPostAuthRoute(returnTo));
     } catch (e: any) {
       setError(e.message || "Login failed");
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -59,7 +62,9 @@ export default function LoginScreen() {
             <Ionicons name="shield-checkmark" size={40} color={Colors.primary} />
           </View>
           <Text style={styles.title}>Welcome Back</Text>
-          <Text style={styles.subtitle}>Sign in to continue your quest</Text>
+          <Text style={styles.subtitle}>
+            {returnTo ? "Your session ended. Sign in to pick up where you left off" : "Sign in to continue your quest"}
+          </Text>
         </View>
 
         {error ? (
@@ -115,6 +120,11 @@ export default function LoginScreen() {
           </Pressable>
         </View>
 
+        <View style={styles.savedAccounts}>
+          {/* returnTo belongs to whoever was signed out, so another account starts from home */}
+          <AccountSwitcher compact onSwitched={async () => router.replace(await getPostAuthRoute())} />
+        </View>
+
         <View style={styles.footer}>
           <Text style={styles.footerText}>Don't have an account?</Text>
           <Link href="/(auth)/register" asChild>
@@ -183,6 +193,7 @@ const styles = StyleSheet.create({
   buttonPressed: { opacity: 0.9, transform: [{ scale: 0.98 }] },
   buttonDisabled: { opacity: 0.6 },
   buttonText: { fontSize: 16, fontFamily: "Inter_600SemiBold", color: Colors.white },
+  savedAccounts: { marginTop: 16 },
   footer: { flexDirection: "row", justifyContent: "center", marginTop: 24, gap: 4 },
   footerText: { fontSize: 14, color: Colors.textSecondary, fontFamily: "Inter_400Regular" },
   link: { fontSize: 14, color: Colors.primary, fontFamily: "Inter_600SemiBold" },
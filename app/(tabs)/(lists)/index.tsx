@@ -51,12 +51,21 @@ export default function ListsScreen() {
         ListHeaderComponent={
           <View style={styles.header}>
             <Text style={styles.title}>My Lists</Text>
-            <Pressable
-              style={({ pressed }) => [styles.addBtn, pressed && { opacity: 0.8 }]}
-              onPress={() => router.push("/create-list")}
-            >
-              <Ionicons name="add" size={22} color={Colors.white} />
-            </Pressable>
+            <View style={styles.headerActions}>
+              <Pressable
+                style={({ pressed }) => [styles.joinBtn, pressed && { opacity: 0.8 }]}
+                onPress={() => router.push("/join-list")}
+                accessibilityLabel="Join list"
+              >
+                <Ionicons name="qr-code-outline" size={18} color={Colors.primary} />
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [styles.addBtn, pressed && { opacity: 0.8 }]}
+                onPress={() => router.push("/create-list")}
+              >
+                <Ionicons name="add" size={22} color={Colors.white} />
+              </Pressable>
+            </View>
           </View>
         }
         renderItem={({ item }) => <ListCard list={item} />}
@@ -78,6 +87,13 @@ export default function ListsScreen() {
                 <Ionicons name="add" size={18} color={Colors.white} />
                 <Text style={styles.emptyBtnText}>Create List</Text>
               </Pressable>
+              <Pressable
+                style={({ pressed }) => [styles.joinLink, pressed && { opacity: 0.7 }]}
+                onPress={() => router.push("/join-list")}
+              >
+                <Ionicons name="qr-code-outline" size={16} color={Colors.primary} />
+                <Text style={styles.joinLinkText}>Join a list with a code</Text>
+              </Pressable>
             </View>
           )
         }
@@ -136,6 +152,15 @@ const styles = StyleSheet.create({
   centered: { flex: 1, alignItems: "center", justifyContent: "center", padding: 40 },
   header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 16 },
   title: { fontSize: 26, fontFamily: "Inter_700Bold", color: Colors.text },
+  headerActions: { flexDirection: "row", alignItems: "center", gap: 10 },
+  joinBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.primary + "15",
+    alignItems: "center",
+    justifyContent: "center",
+  },
   addBtn: {
     width: 40,
     height: 40,
@@ -184,4 +209,6 @@ const styles = StyleSheet.create({
     marginTop: 12,
   },
   emptyBtnText: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.white },
+  joinLink: { flexDirection: "row", alignItems: "center", gap: 6, paddingVertical: 10 },
+  joinLinkText: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.primary },
 });
@@ -19,8 +19,11 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import * as Clipboard from "expo-clipboard";
 import Colors from "@/constants/colors";
+import JoinCodePanel from "@/components/JoinCodePanel";
 import { useAuth } from "@/lib/auth-context";
 import { apiRequest, getApiUrl, queryClient } from "@/lib/query-client";
+import { taskQuestApi } from "@/lib/api/client.gen";
+import { describeApiError } from "@/lib/error-registry";
 import type { CreateListInviteResponse, ListMember, TaskList } from "@/lib/types";
 
 const ROLE_LABELS: Record<ListMember["role"], string> = {
@@ -82,7 +85,7 @@ export default function ListMembersScreen() {
       queryClient.invalidateQueries({ queryKey: [`/api/v1/lists/${id}/members`] });
     },
     onError: (err: Error) => {
-      setInviteError(err.message || "Failed to send invite");
+      setInviteError(describeApiError(err).message);
     },
   });
 
@@ -95,10 +98,11 @@ export default function ListMembersScreen() {
       }
       setRemovingId(targetId);
       setRemoveError("");
-      const route = isPending
-        ? `/api/v1/lists/${id}/invites/${targetId}`
-        : `/api/v1/lists/${id}/members/${targetId}`;
-      await apiRequest("DELETE", route);
+      if (isPending) {
+        await taskQuestApi.revokeInvite(id, targetId);
+      } else {
+        await taskQuestApi.removeMember(id, targetId);
+      }
     },
     onSuccess: () => {
       setRemovingId(null);
@@ -106,7 +110,7 @@ export default function ListMembersScreen() {
     },
     onError: (err: Error) => {
       setRemovingId(null);
-      setRemoveError(err.message || "Failed to update member");
+      setRemoveError(describeApiError(err).message);
     },
   });
 
@@ -372,6 +376,8 @@ export default function ListMembersScreen() {
               </View>
             ) : null}
 
+            {listData?.isShared && canManage && id ? <JoinCodePanel listId={id} /> : null}
+
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Members</Text>
               {listData?.isShared ? (
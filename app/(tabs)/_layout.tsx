@@ -4,21 +4,30 @@ import { NativeTabs, Icon, Label, Badge } from "expo-router/unstable-native-tabs
 import { BlurView } from "expo-blur";
 import { Ionicons } from "@expo/vector-icons";
 import { Platform, StyleSheet, View } from "react-native";
-import React from "react";
+import React, { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import Colors from "@/constants/colors";
 import { useAuth } from "@/lib/auth-context";
+import { setAppBadgeCount } from "@/lib/push-notifications";
+import { useRealtimeConnected } from "@/lib/realtime";
 import type { NotificationResponse } from "@/lib/types";
 
 function useUnreadCount() {
   const { isAuthenticated } = useAuth();
+  const realtimeConnected = useRealtimeConnected();
   const { data } = useQuery<NotificationResponse>({
     queryKey: ["/api/v1/notifications"],
     enabled: isAuthenticated,
-    refetchInterval: 30000,
+    refetchInterval: realtimeConnected ? false : 30000,
   });
-  if (data?.unreadCount != null) return data.unreadCount;
-  return data?.data?.filter((n) => !n.isRead).length || 0;
+  const unread = data?.unreadCount ?? data?.data?.filter((n) => !n.isRead).length ?? 0;
+
+  // The tab badge and the app icon badge read the same count, so reading anywhere clears both
+  useEffect(() => {
+    if (data) void setAppBadgeCount(unread);
+  }, [data, unread]);
+
+  return unread;
 }
 
 function NativeTabLayout() {
@@ -12,16 +12,18 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { router, useFocusEffect } from "expo-router";
-import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
+import { ApiError } from "@/lib/api-error";
 import { useAuth } from "@/lib/auth-context";
-import { apiRequest, queryClient, getApiUrl, getAuthToken } from "@/lib/query-client";
+import { invalidateAfterMutation } from "@/lib/mutation-effects";
+import { apiRequest, queryClient, getApiUrl, authorizedFetch } from "@/lib/query-client";
 import XPBar from "@/components/XPBar";
 import FeedItemCard from "@/components/FeedItemCard";
 import TaskCard from "@/components/TaskCard";
-import type { FeedResponse, FeedItem, Task, TaskList } from "@/lib/types";
+import type { ActiveTasksResponse, FeedResponse, FeedItem } from "@/lib/types";
 
 type FeedFilter = "all" | "mine" | "in_progress" | "general" | "hidden";
 
@@ -33,18 +35,6 @@ const FEED_FILTERS: { key: FeedFilter; label: string; icon: keyof typeof Ionicon
   { key: "hidden", label: "Hidden", icon: "eye-off-outline" },
 ];
 
-const ACTIVE_TASK_STATUSES = new Set(["in_progress", "pending_approval"]);
-
-interface ListTasksResponse {
-  data: Task[];
-  nextCursor?: string | null;
-}
-
-interface ListsResponse {
-  data: TaskList[];
-  nextCursor?: string | null;
-}
-
 export default function FeedScreen() {
   const insets = useSafeAreaInsets();
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -67,45 +57,17 @@ export default function FeedScreen() {
     enabled: isAuthenticated,
   });
 
-  const { data: activeTasksCountData } = useQuery<{ data: TaskList[] }>({
-    queryKey: ["/api/v1/lists"],
-    enabled: isAuthenticated,
-  });
-
-  const { data: activeTasksData, refetch: refetchActiveTasks, isLoading: isActiveTasksLoading } = useQuery<Task[]>({
+  const {
+    data: activeTasksData,
+    refetch: refetchActiveTasks,
+    isLoading: isActiveTasksLoading,
+    fetchNextPage: fetchNextActiveTasks,
+    hasNextPage: hasNextActiveTasks,
+    isFetchingNextPage: isFetchingNextActiveTasks,
+  } = useInfiniteQuery<ActiveTasksResponse>({
     queryKey: ["/api/v1/active-tasks"],
-    queryFn: async () => {
-      const token = getAuthToken();
-      const headers: Record<string, string> = {};
-      if (token) headers["Authorization"] = `Bearer ${token}`;
-      const baseUrl = getApiUrl();
-
-      const listsRes = await fetch(new URL("/api/v1/lists", baseUrl).toString(), { headers });
-      if (!listsRes.ok) return [];
-      const listsData: ListsResponse = await listsRes.json();
-      const lists = listsData.data || [];
-
-      const allTasks: Task[] = [];
-      await Promise.all(
-        lists.map(async (list) => {
-          try {
-            const tasksRes = await fetch(
-              new URL(`/api/v1/lists/${list.id}/tasks`, baseUrl).toString(),
-              { headers }
-            );
-            if (!tasksRes.ok) return;
-            const tasksData: ListTasksResponse = await tasksRes.json();
-            const tasks = tasksData.data || [];
-            for (const task of tasks) {
-              if (!ACTIVE_TASK_STATUSES.has(task.status)) continue;
-              if (task.status === "pending_approval" && task.approverUserId !== user?.id) continue;
-              allTasks.push(task);
-            }
-          } catch {}
-        })
-      );
-      return allTasks;
-    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
     enabled: isAuthenticated && activeTasksExpanded,
     staleTime: 0,
   });
@@ -124,11 +86,8 @@ export default function FeedScreen() {
       const url = pageParam
         ? `/api/v1/feed?includeDismissed=1&cursor=${pageParam}`
         : "/api/v1/feed?includeDismissed=1";
-      const token = getAuthToken();
-      const headers: Record<string, string> = {};
-      if (token) headers["Authorization"] = `Bearer ${token}`;
-      const res = await fetch(new URL(url, getApiUrl()).toString(), { headers });
-      if (!res.ok) throw new Error("Failed to fetch feed with dismissed");
+      const res = await authorizedFetch(new URL(url, getApiUrl()).toString());
+      if (!res.ok) throw await ApiError.fromResponse(res);
       return res.json();
     },
     initialPageParam: undefined as string | undefined,
@@ -146,7 +105,7 @@ export default function FeedScreen() {
     },
     onSuccess: (_data, feedItemId) => {
       setDismissingIds((prev) => { const n = new Set(prev); n.delete(feedItemId); return n; });
-      queryClient.invalidateQueries({ queryKey: ["/api/v1/feed"] });
+      void invalidateAfterMutation({ kind: "feed.dismiss", feedItemId });
     },
     onError: (_err, feedItemId) => {
       setDismissingIds((prev) => { const n = new Set(prev); n.delete(feedItemId); return n; });
@@ -160,7 +119,7 @@ export default function FeedScreen() {
     },
     onSuccess: (_data, feedItemId) => {
       setRestoringIds((prev) => { const n = new Set(prev); n.delete(feedItemId); return n; });
-      queryClient.invalidateQueries({ queryKey: ["/api/v1/feed"] });
+      void invalidateAfterMutation({ kind: "feed.restore", feedItemId });
     },
     onError: (_err, feedItemId) => {
       setRestoringIds((prev) => { const n = new Set(prev); n.delete(feedItemId); return n; });
@@ -203,7 +162,10 @@ export default function FeedScreen() {
     return data?.pages?.flatMap((page) => page.data) || [];
   }, [data]);
 
-  const myActiveTasks = activeTasksData || [];
+  const myActiveTasks = useMemo(() => {
+    return activeTasksData?.pages?.flatMap((page) => page.data) || [];
+  }, [activeTasksData]);
+  const myActiveTasksTotal = activeTasksData?.pages?.[0]?.total ?? myActiveTasks.length;
 
   const dismissedItems = useMemo(() => {
     const regularIds = new Set(allFeedItems.map((i) => i.id));
@@ -289,9 +251,9 @@ export default function FeedScreen() {
                 >
                   <Ionicons name="flash" size={16} color={Colors.statusInProgress} />
                   <Text style={styles.activeSectionTitle}>Your Active Tasks</Text>
-                  {myActiveTasks.length > 0 ? (
+                  {myActiveTasksTotal > 0 ? (
                     <View style={styles.activeBadge}>
-                      <Text style={styles.activeBadgeText}>{myActiveTasks.length}</Text>
+                      <Text style={styles.activeBadgeText}>{myActiveTasksTotal}</Text>
                     </View>
                   ) : null}
                   <Ionicons
@@ -307,9 +269,27 @@ export default function FeedScreen() {
                     ) : myActiveTasks.length === 0 ? (
                       <Text style={styles.activeEmptyText}>No active tasks right now</Text>
                     ) : (
-                      myActiveTasks.map((task) => (
-                        <TaskCard key={task.id} task={task} />
-                      ))
+                      <>
+                        {myActiveTasks.map((task) => (
+                          <View key={task.id} style={{ gap: 4 }}>
+                            <Text style={styles.activeListName} numberOfLines={1}>{task.listName}</Text>
+                            <TaskCard task={task} />
+                          </View>
+                        ))}
+                        {hasNextActiveTasks ? (
+                          <Pressable
+                            style={styles.activeMoreBtn}
+                            onPress={() => fetchNextActiveTasks()}
+                            disabled={isFetchingNextActiveTasks}
+                          >
+                            {isFetchingNextActiveTasks ? (
+                              <ActivityIndicator color={Colors.statusInProgress} size="small" />
+                            ) : (
+                              <Text style={styles.activeMoreText}>Show more</Text>
+                            )}
+                          </Pressable>
+                        ) : null}
+                      </>
                     )}
                   </View>
                 ) : null}
@@ -474,6 +454,22 @@ const styles = StyleSheet.create({
     textAlign: "center" as const,
     paddingVertical: 8,
   },
+  activeListName: {
+    fontSize: 11,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.textMuted,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.5,
+  },
+  activeMoreBtn: {
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  activeMoreText: {
+    fontSize: 13,
+    fontFamily: "Inter_600SemiBold",
+    color: Colors.statusInProgress,
+  },
   sectionRow: {
     flexDirection: "row",
     alignItems: "center",
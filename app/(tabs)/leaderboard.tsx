@@ -16,6 +16,7 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
 import { useAuth } from "@/lib/auth-context";
+import { apiPaths } from "@/lib/api/client.gen";
 import type { LeaderboardResponse, LeaderboardEntry, TaskList } from "@/lib/types";
 
 const RANK_COLORS = [Colors.accent, "#C0C0C0", "#CD7F32"];
@@ -32,8 +33,8 @@ export default function LeaderboardScreen() {
   });
 
   const leaderboardKey = selectedListId
-    ? `/api/v1/gamification/leaderboard/${selectedListId}`
-    : "/api/v1/gamification/leaderboard/global";
+    ? apiPaths.getListLeaderboard(selectedListId)
+    : apiPaths.getGlobalLeaderboard();
 
   const { data, isLoading, refetch, isRefetching } = useQuery<LeaderboardResponse>({
     queryKey: [leaderboardKey],
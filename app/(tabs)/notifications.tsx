@@ -8,16 +8,20 @@ import {
   RefreshControl,
   ActivityIndicator,
   Platform,
+  Alert,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { router } from "expo-router";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
-import { useAuth } from "@/lib/auth-context";
 import { apiRequest, queryClient } from "@/lib/query-client";
-import type { NotificationResponse, Notification } from "@/lib/types";
+import { useNotificationBulkAction, useNotificationInbox } from "@/lib/notification-inbox";
+import { useNotificationPreferences } from "@/lib/notification-preferences";
+import type { Notification } from "@/lib/types";
+import { alertApiError } from "@/components/ApiErrorNotice";
+import { getNotificationDelivery } from "@/shared/notification-preferences";
 import { formatDistanceToNow } from "date-fns";
 
 const NOTIF_ICONS: Record<string, { icon: keyof typeof Ionicons.glyphMap; color: string }> = {
@@ -29,16 +33,34 @@ const NOTIF_ICONS: Record<string, { icon: keyof typeof Ionicons.glyphMap; color:
   user_level_up: { icon: "arrow-up-circle", color: Colors.accent },
 };
 
+type NotificationGroup = { key: string; notifications: Notification[] };
+
+// Several updates about one task read as a single conversation, so they share a card
+function groupByTask(notifications: Notification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+  for (const notification of notifications) {
+    const key = notification.taskId ? `task:${notification.taskId}` : notification.id;
+    const group = groups.get(key);
+    if (group) {
+      group.notifications.push(notification);
+    } else {
+      groups.set(key, { key, notifications: [notification] });
+    }
+  }
+  return [...groups.values()];
+}
+
 export default function NotificationsScreen() {
   const insets = useSafeAreaInsets();
-  const { isAuthenticated } = useAuth();
   const topPad = Platform.OS === "web" ? 67 : insets.top;
   const [showRead, setShowRead] = useState(true);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const selecting = selectedIds.size > 0;
 
-  const { data, isLoading, refetch, isRefetching } = useQuery<NotificationResponse>({
-    queryKey: ["/api/v1/notifications"],
-    enabled: isAuthenticated,
-  });
+  const { data, isLoading, refetch, isRefetching, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useNotificationInbox();
+  const bulkMutation = useNotificationBulkAction();
 
   const [markingReadIds, setMarkingReadIds] = useState<Set<string>>(new Set());
 
@@ -60,19 +82,124 @@ export default function NotificationsScreen() {
     refetch();
   }, [refetch]);
 
-  const allNotifications = data?.data || [];
+  const handleEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const { data: preferences } = useNotificationPreferences();
+  // Types the user switched off stay hidden here too; "in-app only" ones are listed as usual
+  const allNotifications = useMemo(
+    () =>
+      (data?.pages.flatMap((page) => page.data) || []).filter(
+        (n) => !preferences || getNotificationDelivery(preferences, n) !== "off",
+      ),
+    [data, preferences],
+  );
   const readCount = allNotifications.filter((n) => n.isRead).length;
+  const unreadCount = data?.pages[0]?.unreadCount ?? 0;
+
+  const groups = useMemo(
+    () => groupByTask(showRead ? allNotifications : allNotifications.filter((n) => !n.isRead)),
+    [allNotifications, showRead],
+  );
+
+  function toggleSelected(ids: string[]) {
+    Haptics.selectionAsync();
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      const allSelected = ids.every((id) => next.has(id));
+      ids.forEach((id) => (allSelected ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  }
 
-  const notifications = useMemo(() => {
-    if (showRead) return allNotifications;
-    return allNotifications.filter((n) => !n.isRead);
-  }, [allNotifications, showRead]);
+  function toggleGroup(key: string) {
+    setExpandedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  function openNotification(items: Notification[]) {
+    const [item] = items;
+    const unread = items.filter((n) => !n.isRead);
+    if (unread.length > 0) {
+      unread.forEach((n) => markReadMutation.mutate(n.id));
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+
+    const inviteToken = getInviteToken(item.payload || {});
+    if (item.type === "list_invite_received" && inviteToken) {
+      router.push({ pathname: "/invite/[token]", params: { token: inviteToken } });
+      return;
+    }
+
+    if (item.taskId) {
+      router.push({ pathname: "/task/[id]", params: { id: item.taskId } });
+    }
+  }
+
+  function runBulk(action: "archive" | "delete") {
+    const ids = [...selectedIds];
+    const perform = () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      bulkMutation.mutate(
+        { action, ids },
+        {
+          onSuccess: () => setSelectedIds(new Set()),
+          onError: (err: Error) => {
+            alertApiError(err, { onRetry: perform });
+          },
+        },
+      );
+    };
+
+    if (action === "archive") {
+      perform();
+      return;
+    }
+    const message = `Delete ${ids.length} notification${ids.length > 1 ? "s" : ""}? This cannot be undone.`;
+    if (Platform.OS === "web") {
+      const confirmed = typeof globalThis.confirm === "function" ? globalThis.confirm(message) : false;
+      if (confirmed) perform();
+      return;
+    }
+    Alert.alert("Delete notifications", message, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: perform },
+    ]);
+  }
+
+  function renderCard(notification: Notification, ids: string[], extra?: { count: number; expanded: boolean; onToggle: () => void }) {
+    const groupUnread = extra && !extra.expanded ? allNotifications.some((n) => ids.includes(n.id) && !n.isRead) : undefined;
+    return (
+      <NotifCard
+        notification={notification}
+        isMarkingRead={ids.some((id) => markingReadIds.has(id))}
+        isUnread={groupUnread}
+        selected={selecting ? ids.every((id) => selectedIds.has(id)) : undefined}
+        groupCount={extra?.count}
+        groupExpanded={extra?.expanded}
+        onToggleGroup={extra?.onToggle}
+        onLongPress={() => toggleSelected(ids)}
+        onPress={() => {
+          if (selecting) {
+            toggleSelected(ids);
+            return;
+          }
+          openNotification(allNotifications.filter((n) => ids.includes(n.id)));
+        }}
+      />
+    );
+  }
 
   return (
     <View style={styles.container}>
       <FlatList
-        data={notifications}
-        keyExtractor={(item) => item.id}
+        data={groups}
+        keyExtractor={(group) => group.key}
         contentContainerStyle={{
           paddingTop: topPad + 12,
           paddingHorizontal: 16,
@@ -80,57 +207,125 @@ export default function NotificationsScreen() {
         }}
         ListHeaderComponent={
           <View style={styles.headerWrap}>
-            <View style={styles.header}>
-              <Text style={styles.title}>Notifications</Text>
-              {data?.unreadCount ? (
-                <View style={styles.unreadBadge}>
-                  <Text style={styles.unreadText}>{data.unreadCount} unread</Text>
+            {selecting ? (
+              <View style={styles.header}>
+                <Text style={styles.title}>{selectedIds.size} selected</Text>
+                <View style={styles.headerActions}>
+                  {bulkMutation.isPending ? <ActivityIndicator size="small" color={Colors.primary} /> : null}
+                  <Pressable
+                    style={({ pressed }) => pressed && { opacity: 0.6 }}
+                    onPress={() => runBulk("archive")}
+                    disabled={bulkMutation.isPending}
+                    hitSlop={8}
+                  >
+                    <Ionicons name="archive-outline" size={20} color={Colors.textSecondary} />
+                  </Pressable>
+                  <Pressable
+                    style={({ pressed }) => pressed && { opacity: 0.6 }}
+                    onPress={() => runBulk("delete")}
+                    disabled={bulkMutation.isPending}
+                    hitSlop={8}
+                  >
+                    <Ionicons name="trash-outline" size={20} color={Colors.danger} />
+                  </Pressable>
+                  <Pressable
+                    style={({ pressed }) => pressed && { opacity: 0.6 }}
+                    onPress={() => setSelectedIds(new Set())}
+                    hitSlop={8}
+                  >
+                    <Ionicons name="close" size={22} color={Colors.textSecondary} />
+                  </Pressable>
+                </View>
+              </View>
+            ) : (
+              <View style={styles.header}>
+                <Text style={styles.title}>Notifications</Text>
+                <View style={styles.headerActions}>
+                  {unreadCount ? (
+                    <View style={styles.unreadBadge}>
+                      <Text style={styles.unreadText}>{unreadCount} unread</Text>
+                    </View>
+                  ) : null}
+                  <Pressable
+                    style={({ pressed }) => pressed && { opacity: 0.6 }}
+                    onPress={() => router.push("/notification-settings")}
+                    hitSlop={8}
+                  >
+                    <Ionicons name="settings-outline" size={20} color={Colors.textSecondary} />
+                  </Pressable>
                 </View>
+              </View>
+            )}
+            <View style={styles.toolbar}>
+              {readCount > 0 ? (
+                <Pressable
+                  style={({ pressed }) => [styles.toggleReadBtn, pressed && { opacity: 0.7 }]}
+                  onPress={() => {
+                    setShowRead((v) => !v);
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  }}
+                >
+                  <Ionicons
+                    name={showRead ? "eye-outline" : "eye-off-outline"}
+                    size={16}
+                    color={Colors.primary}
+                  />
+                  <Text style={styles.toggleReadText}>
+                    {showRead ? "Hide read" : "Show read"}
+                  </Text>
+                </Pressable>
+              ) : null}
+              {unreadCount > 0 && !selecting ? (
+                <Pressable
+                  style={({ pressed }) => [styles.toggleReadBtn, pressed && { opacity: 0.7 }]}
+                  disabled={bulkMutation.isPending}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    bulkMutation.mutate({ action: "read-all" }, { onError: (err: Error) => alertApiError(err) });
+                  }}
+                >
+                  <Ionicons name="checkmark-done-outline" size={16} color={Colors.primary} />
+                  <Text style={styles.toggleReadText}>Mark all read</Text>
+                </Pressable>
               ) : null}
             </View>
-            {readCount > 0 ? (
-              <Pressable
-                style={({ pressed }) => [styles.toggleReadBtn, pressed && { opacity: 0.7 }]}
-                onPress={() => {
-                  setShowRead((v) => !v);
-                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                }}
-              >
-                <Ionicons
-                  name={showRead ? "eye-outline" : "eye-off-outline"}
-                  size={16}
-                  color={Colors.primary}
-                />
-                <Text style={styles.toggleReadText}>
-                  {showRead ? "Hide read" : "Show read"}
-                </Text>
-              </Pressable>
-            ) : null}
           </View>
         }
-        renderItem={({ item }) => (
-          <NotifCard
-            notification={item}
-            isMarkingRead={markingReadIds.has(item.id)}
-            onPress={() => {
-              if (!item.isRead) {
-                markReadMutation.mutate(item.id);
-                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              }
+        renderItem={({ item: group }) => {
+          const [newest, ...earlier] = group.notifications;
+          if (earlier.length === 0) {
+            return renderCard(newest, [newest.id]);
+          }
 
-              const inviteToken = getInviteToken(item.payload || {});
-              if (item.type === "list_invite_received" && inviteToken) {
-                router.push({ pathname: "/invite/[token]", params: { token: inviteToken } });
-                return;
-              }
-
-              if (item.taskId) {
-                router.push({ pathname: "/task/[id]", params: { id: item.taskId } });
-              }
-            }}
-          />
-        )}
+          const expanded = expandedGroups.has(group.key);
+          const groupIds = group.notifications.map((n) => n.id);
+          return (
+            <View style={{ gap: 6 }}>
+              {renderCard(newest, expanded ? [newest.id] : groupIds, {
+                count: group.notifications.length,
+                expanded,
+                onToggle: () => toggleGroup(group.key),
+              })}
+              {expanded ? (
+                <View style={styles.groupChildren}>
+                  {earlier.map((n) => (
+                    <View key={n.id}>{renderCard(n, [n.id])}</View>
+                  ))}
+                </View>
+              ) : null}
+            </View>
+          );
+        }}
         ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.3}
+        ListFooterComponent={
+          isFetchingNextPage ? (
+            <View style={styles.footerLoader}>
+              <ActivityIndicator color={Colors.primary} />
+            </View>
+          ) : null
+        }
         ListEmptyComponent={
           isLoading ? (
             <View style={styles.centered}>
@@ -159,7 +354,7 @@ export default function NotificationsScreen() {
           )
         }
         refreshControl={
-          <RefreshControl refreshing={isRefetching} onRefresh={onRefresh} tintColor={Colors.primary} />
+          <RefreshControl refreshing={isRefetching && !isFetchingNextPage} onRefresh={onRefresh} tintColor={Colors.primary} />
         }
         showsVerticalScrollIndicator={false}
       />
@@ -180,7 +375,31 @@ function getInviteToken(payload: Record<string, unknown>): string | null {
   return null;
 }
 
-function NotifCard({ notification, onPress, isMarkingRead }: { notification: Notification; onPress: () => void; isMarkingRead?: boolean }) {
+type NotifCardProps = {
+  notification: Notification;
+  onPress: () => void;
+  onLongPress: () => void;
+  isMarkingRead?: boolean;
+  /** Overrides the read state for a collapsed group, which is unread while any member is */
+  isUnread?: boolean;
+  /** Set only while selecting */
+  selected?: boolean;
+  groupCount?: number;
+  groupExpanded?: boolean;
+  onToggleGroup?: () => void;
+};
+
+function NotifCard({
+  notification,
+  onPress,
+  onLongPress,
+  isMarkingRead,
+  isUnread = !notification.isRead,
+  selected,
+  groupCount,
+  groupExpanded,
+  onToggleGroup,
+}: NotifCardProps) {
   const config = NOTIF_ICONS[notification.type] || { icon: "ellipsis-horizontal-circle", color: Colors.textMuted };
   const timeAgo = formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true });
 
@@ -188,28 +407,48 @@ function NotifCard({ notification, onPress, isMarkingRead }: { notification: Not
     <Pressable
       style={({ pressed }) => [
         styles.card,
-        !notification.isRead && styles.cardUnread,
-        notification.isRead && styles.cardRead,
+        isUnread && styles.cardUnread,
+        !isUnread && styles.cardRead,
+        selected && styles.cardSelected,
         pressed && styles.cardPressed,
       ]}
       onPress={onPress}
+      onLongPress={onLongPress}
       disabled={!!isMarkingRead}
     >
+      {selected !== undefined ? (
+        <Ionicons
+          name={selected ? "checkmark-circle" : "ellipse-outline"}
+          size={22}
+          color={selected ? Colors.primary : Colors.textMuted}
+          style={{ marginTop: 9 }}
+        />
+      ) : null}
       <View style={[styles.iconWrap, { backgroundColor: config.color + "20" }]}>
         <Ionicons name={config.icon} size={20} color={config.color} />
       </View>
       <View style={styles.content}>
-        <Text style={[styles.notifTitle, !notification.isRead && styles.notifTitleUnread]} numberOfLines={1}>
+        <Text style={[styles.notifTitle, isUnread && styles.notifTitleUnread]} numberOfLines={1}>
           {notification.title}
         </Text>
         <Text style={styles.notifMsg} numberOfLines={2}>
           {notification.message}
         </Text>
-        <Text style={styles.notifTime}>{timeAgo}</Text>
+        <View style={styles.metaRow}>
+          <Text style={styles.notifTime}>{timeAgo}</Text>
+          {groupCount && onToggleGroup ? (
+            <Pressable style={styles.groupToggle} onPress={onToggleGroup} hitSlop={8}>
+              <Text style={styles.groupToggleText}>
+                {groupExpanded ? "Show less" : `${groupCount - 1} earlier update${groupCount > 2 ? "s" : ""}`}
+              </Text>
+              <Ionicons name={groupExpanded ? "chevron-up" : "chevron-down"} size={12} color={Colors.primary} />
+            </Pressable>
+          ) : null}
+        </View>
       </View>
       {isMarkingRead ? (
         <ActivityIndicator size={12} color={Colors.primary} style={{ marginTop: 4 }} />
-      ) : !notification.isRead ? (
+      ) : isUnread ? (
         <View style={styles.dot} />
       ) : null}
     </Pressable>
@@ -222,6 +461,7 @@ const styles = StyleSheet.create({
   headerWrap: { marginBottom: 16 },
   header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 8 },
   title: { fontSize: 26, fontFamily: "Inter_700Bold", color: Colors.text },
+  headerActions: { flexDirection: "row", alignItems: "center", gap: 12 },
   unreadBadge: {
     backgroundColor: Colors.danger + "20",
     paddingHorizontal: 10,
@@ -242,6 +482,7 @@ const styles = StyleSheet.create({
     borderColor: Colors.primary + "30",
   },
   toggleReadText: { fontSize: 12, fontFamily: "Inter_500Medium", color: Colors.primary },
+  toolbar: { flexDirection: "row", gap: 8 },
   card: {
     flexDirection: "row",
     alignItems: "flex-start",
@@ -254,13 +495,19 @@ const styles = StyleSheet.create({
   },
   cardUnread: { borderColor: Colors.primary + "40", backgroundColor: Colors.primary + "08" },
   cardRead: { opacity: 0.75 },
+  cardSelected: { borderColor: Colors.primary, backgroundColor: Colors.primary + "14" },
   cardPressed: { opacity: 0.8 },
   iconWrap: { width: 40, height: 40, borderRadius: 20, alignItems: "center", justifyContent: "center" },
   content: { flex: 1, gap: 2 },
   notifTitle: { fontSize: 14, fontFamily: "Inter_500Medium", color: Colors.text },
   notifTitleUnread: { fontFamily: "Inter_600SemiBold" },
   notifMsg: { fontSize: 13, color: Colors.textSecondary, fontFamily: "Inter_400Regular", lineHeight: 18 },
-  notifTime: { fontSize: 11, color: Colors.textMuted, fontFamily: "Inter_400Regular", marginTop: 2 },
+  notifTime: { fontSize: 11, color: Colors.textMuted, fontFamily: "Inter_400Regular" },
+  metaRow: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginTop: 2 },
+  groupToggle: { flexDirection: "row", alignItems: "center", gap: 3 },
+  groupToggleText: { fontSize: 11, fontFamily: "Inter_500Medium", color: Colors.primary },
+  groupChildren: { marginLeft: 20, gap: 6 },
+  footerLoader: { paddingVertical: 16, alignItems: "center" },
   dot: { width: 8, height: 8, borderRadius: 4, backgroundColor: Colors.primary, marginTop: 4 },
   empty: { alignItems: "center", paddingTop: 60, gap: 8 },
   emptyTitle: { fontSize: 17, fontFamily: "Inter_600SemiBold", color: Colors.text, marginTop: 8 },
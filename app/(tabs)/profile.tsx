@@ -1,4 +1,4 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import {
   StyleSheet,
   Text,
@@ -8,16 +8,22 @@ import {
   RefreshControl,
   ActivityIndicator,
   Platform,
+  Alert,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { router } from "expo-router";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
 import { useAuth } from "@/lib/auth-context";
+import { apiRequest, queryClient } from "@/lib/query-client";
+import { forgetPushRegistration, getCurrentPushDeviceId } from "@/lib/push-notifications";
 import XPBar from "@/components/XPBar";
-import type { LedgerEntry } from "@/lib/types";
+import AccountSwitcher from "@/components/AccountSwitcher";
+import { alertApiError } from "@/components/ApiErrorNotice";
+import type { LedgerEntry, PushDevice, PushDevicesResponse } from "@/lib/types";
 
 export default function ProfileScreen() {
   const insets = useSafeAreaInsets();
@@ -30,8 +36,48 @@ export default function ProfileScreen() {
     enabled: isAuthenticated,
   });
 
+  const { data: devicesData, isLoading: devicesLoading } = useQuery<PushDevicesResponse>({
+    queryKey: ["/api/push/devices"],
+    enabled: isAuthenticated,
+  });
+
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    void getCurrentPushDeviceId().then(setCurrentDeviceId);
+  }, [devicesData]);
+
+  const revokeMutation = useMutation({
+    mutationFn: (deviceId: string) => apiRequest("DELETE", `/api/push/devices/${deviceId}`),
+    onSuccess: async (_res, deviceId) => {
+      if (deviceId === currentDeviceId) {
+        await forgetPushRegistration();
+      }
+      await queryClient.invalidateQueries({ queryKey: ["/api/push/devices"] });
+    },
+    onError: (err: Error, deviceId) => {
+      alertApiError(err, { onRetry: () => revokeMutation.mutate(deviceId) });
+    },
+  });
+
+  function confirmRevoke(device: PushDevice) {
+    const name = device.deviceName || "this device";
+    const isCurrent = device.id === currentDeviceId;
+    Alert.alert(
+      "Remove device",
+      isCurrent
+        ? "This device will stop receiving push notifications until you sign in again."
+        : `${name} will stop receiving your push notifications.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Remove", style: "destructive", onPress: () => revokeMutation.mutate(device.id) },
+      ],
+    );
+  }
+
   const onRefresh = useCallback(() => {
     refreshProfile();
+    void queryClient.invalidateQueries({ queryKey: ["/api/push/devices"] });
   }, [refreshProfile]);
 
   const [isLoggingOut, setIsLoggingOut] = useState(false);
@@ -53,6 +99,7 @@ export default function ProfileScreen() {
 
   const ledger = ledgerData?.data || [];
   const recentLedger = ledger.slice(0, 10);
+  const devices = devicesData?.data || [];
 
   return (
     <ScrollView
@@ -100,6 +147,30 @@ export default function ProfileScreen() {
         )}
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Devices</Text>
+        {devicesLoading ? (
+          <ActivityIndicator color={Colors.primary} style={{ marginTop: 12 }} />
+        ) : devices.length === 0 ? (
+          <Text style={styles.emptyText}>No devices receive push notifications</Text>
+        ) : (
+          devices.map((device) => (
+            <DeviceRow
+              key={device.id}
+              device={device}
+              isCurrent={device.id === currentDeviceId}
+              isRemoving={revokeMutation.isPending && revokeMutation.variables === device.id}
+              onRemove={() => confirmRevoke(device)}
+            />
+          ))
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Accounts on this device</Text>
+        <AccountSwitcher />
+      </View>
+
       <Pressable
         style={({ pressed }) => [styles.logoutBtn, pressed && { opacity: 0.8 }]}
         onPress={handleLogout}
@@ -146,6 +217,45 @@ function LedgerRow({ entry }: { entry: LedgerEntry }) {
   );
 }
 
+function DeviceRow({
+  device,
+  isCurrent,
+  isRemoving,
+  onRemove,
+}: {
+  device: PushDevice;
+  isCurrent: boolean;
+  isRemoving: boolean;
+  onRemove: () => void;
+}) {
+  const icon = device.platform === "ios" || device.platform === "android" ? "phone-portrait-outline" : "desktop-outline";
+  const details = [device.platform, device.appVersion && `v${device.appVersion}`].filter(Boolean).join(" · ");
+
+  return (
+    <View style={styles.deviceRow}>
+      <View style={styles.deviceIcon}>
+        <Ionicons name={icon} size={16} color={Colors.info} />
+      </View>
+      <View style={styles.ledgerContent}>
+        <Text style={styles.deviceName} numberOfLines={1}>
+          {device.deviceName || "Unnamed device"}
+          {isCurrent ? <Text style={styles.deviceCurrent}>  This device</Text> : null}
+        </Text>
+        <Text style={styles.ledgerMeta}>
+          {details ? `${details} · ` : ""}Active {formatDistanceToNow(new Date(device.lastSeenAt), { addSuffix: true })}
+        </Text>
+      </View>
+      <Pressable onPress={onRemove} disabled={isRemoving} hitSlop={8}>
+        {isRemoving ? (
+          <ActivityIndicator size={16} color={Colors.danger} />
+        ) : (
+          <Ionicons name="close-circle-outline" size={20} color={Colors.textMuted} />
+        )}
+      </Pressable>
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: Colors.background },
   centered: { flex: 1, alignItems: "center", justifyContent: "center" },
@@ -202,6 +312,24 @@ const styles = StyleSheet.create({
   ledgerAmount: { fontSize: 14, fontFamily: "Inter_700Bold" },
   ledgerCredit: { color: Colors.success },
   ledgerDebit: { color: Colors.danger },
+  deviceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.cardBorder,
+  },
+  deviceIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.info + "15",
+  },
+  deviceName: { fontSize: 13, fontFamily: "Inter_500Medium", color: Colors.text },
+  deviceCurrent: { fontSize: 11, fontFamily: "Inter_600SemiBold", color: Colors.primary },
   logoutBtn: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,3 +1,8 @@
+import { getAppRoutePath } from "@/lib/deep-links";
+import { parseDeepLinkUrl } from "@/shared/deep-links";
+
+// Universal links, app links and custom-scheme URLs all arrive here before expo-router sees them;
+// known web and legacy paths are mapped to app routes, anything else keeps its path
 export function redirectSystemPath({
   path,
   initial,
@@ -6,6 +11,11 @@ export function redirectSystemPath({
     return "/";
   }
 
+  const target = parseDeepLinkUrl(path);
+  if (target) {
+    return getAppRoutePath(target);
+  }
+
   const normalizedPath = path.startsWith("/") ? path : `/${path}`;
   return normalizedPath;
 }
@@ -1,4 +1,4 @@
-import { QueryClientProvider } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import { Stack, router } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
 import React, { useEffect } from "react";
@@ -6,7 +6,7 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import * as Notifications from "expo-notifications";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
-import { queryClient } from "@/lib/query-client";
+import { queryClient, queryPersistOptions } from "@/lib/query-client";
 import { AuthProvider, useAuth } from "@/lib/auth-context";
 import {
   useFonts,
@@ -22,7 +22,18 @@ import {
   getNotificationNavigationTarget,
   syncPushTokenWithBackend,
 } from "@/lib/push-notifications";
+import {
+  isNotificationAction,
+  isStaleActionResponse,
+  performNotificationAction,
+  registerNotificationCategories,
+} from "@/lib/notification-actions";
 import { useLocalNotificationBridge } from "@/lib/use-local-notification-bridge";
+import { useRealtimeEvents } from "@/lib/realtime";
+import { getAppRoute } from "@/lib/deep-links";
+import { useTaskReminderSync } from "@/lib/task-reminders";
+import { useOutboxSync } from "@/lib/offline-outbox";
+import SyncStatusBanner from "@/components/SyncStatusBanner";
 
 SplashScreen.preventAutoHideAsync();
 
@@ -58,6 +69,26 @@ function RootLayoutNav() {
           contentStyle: { backgroundColor: Colors.surface },
         }}
       />
+      <Stack.Screen
+        name="join-list"
+        options={{
+          presentation: "formSheet",
+          sheetAllowedDetents: [0.95],
+          sheetGrabberVisible: true,
+          headerShown: false,
+          contentStyle: { backgroundColor: Colors.surface },
+        }}
+      />
+      <Stack.Screen
+        name="notification-settings"
+        options={{
+          presentation: "formSheet",
+          sheetAllowedDetents: [0.95],
+          sheetGrabberVisible: true,
+          headerShown: false,
+          contentStyle: { backgroundColor: Colors.surface },
+        }}
+      />
       <Stack.Screen name="+not-found" />
     </Stack>
   );
@@ -67,35 +98,34 @@ function PushNotificationsBootstrap() {
   const { isAuthenticated } = useAuth();
 
   useLocalNotificationBridge();
+  useTaskReminderSync();
 
   useEffect(() => {
     if (!isAuthenticated) {
       return;
     }
 
+    void registerNotificationCategories();
     void syncPushTokenWithBackend();
 
+    // Action buttons do their work in the background (lib/notification-actions.ts); only a plain tap navigates
     const handleResponse = (response: Notifications.NotificationResponse) => {
-      const target = getNotificationNavigationTarget(response.notification.request.content.data);
-
-      if (target.type === "task") {
-        router.push({ pathname: "/task/[id]", params: { id: target.taskId } });
-        return;
+      if (!isNotificationAction(response.actionIdentifier)) {
+        router.push(getAppRoute(getNotificationNavigationTarget(response.notification.request.content.data)));
       }
-
-      if (target.type === "invite") {
-        router.push({ pathname: "/invite/[token]", params: { token: target.token } });
-        return;
-      }
-
-      router.push("/(tabs)/notifications");
     };
 
     const responseListener = Notifications.addNotificationResponseReceivedListener(handleResponse);
 
+    // A press that launched the app may not have been handled yet; an old one is left alone
     void Notifications.getLastNotificationResponseAsync().then((response) => {
-      if (response) {
+      if (!response) {
+        return;
+      }
+      if (!isNotificationAction(response.actionIdentifier)) {
         handleResponse(response);
+      } else if (!isStaleActionResponse(response)) {
+        void performNotificationAction(response);
       }
     });
 
@@ -107,6 +137,16 @@ function PushNotificationsBootstrap() {
   return null;
 }
 
+function RealtimeBootstrap() {
+  useRealtimeEvents();
+  return null;
+}
+
+function OutboxBootstrap() {
+  useOutboxSync();
+  return null;
+}
+
 export default function RootLayout() {
   const [fontsLoaded, fontError] = useFonts({
     Inter_400Regular,
@@ -125,19 +165,22 @@ export default function RootLayout() {
 
   return (
     <ErrorBoundary>
-      <QueryClientProvider client={queryClient}>
+      <PersistQueryClientProvider client={queryClient} persistOptions={queryPersistOptions}>
         <GestureHandlerRootView style={{ flex: 1, backgroundColor: Colors.background }}>
           <KeyboardProvider>
             <AuthProvider>
               <GamificationHintsProvider>
                 <StatusBar style="light" />
+                <RealtimeBootstrap />
+                <OutboxBootstrap />
                 <PushNotificationsBootstrap />
                 <RootLayoutNav />
+                <SyncStatusBanner />
               </GamificationHintsProvider>
             </AuthProvider>
           </KeyboardProvider>
         </GestureHandlerRootView>
-      </QueryClientProvider>
+      </PersistQueryClientProvider>
     </ErrorBoundary>
   );
 }
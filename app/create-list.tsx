@@ -15,6 +15,7 @@ import { useMutation } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
 import { apiRequest, queryClient } from "@/lib/query-client";
+import { describeApiError } from "@/lib/error-registry";
 
 export default function CreateListScreen() {
   const [name, setName] = useState("");
@@ -34,7 +35,7 @@ export default function CreateListScreen() {
       router.back();
     },
     onError: (err: Error) => {
-      setError(err.message || "Failed to create list");
+      setError(describeApiError(err).message);
     },
   });
 
@@ -18,10 +18,11 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
-import { apiRequest, queryClient, getApiUrl, getAuthToken } from "@/lib/query-client";
-import { fetch } from "expo/fetch";
+import { apiRequest, authorizedFetch, getApiUrl } from "@/lib/query-client";
 import { useAuth } from "@/lib/auth-context";
 import { useGamificationHints } from "@/lib/gamification-hints";
+import { invalidateAfterMutation } from "@/lib/mutation-effects";
+import { describeApiError } from "@/lib/error-registry";
 import type { XPSuggestionResponse, TaskList, ListMember } from "@/lib/types";
 import { format } from "date-fns";
 
@@ -116,16 +117,13 @@ export default function CreateTaskScreen() {
     },
     onSuccess: async () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      queryClient.invalidateQueries({ queryKey: [`/api/v1/lists/${selectedListId}/tasks`] });
-      queryClient.invalidateQueries({ queryKey: ["/api/v1/feed"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/v1/notifications"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/v1/active-tasks"] });
+      void invalidateAfterMutation({ kind: "task.create", listId: selectedListId });
       await refreshProfile();
       await syncFromLedger();
       router.back();
     },
     onError: (err: Error) => {
-      setError(err.message || "Failed to create task");
+      setError(describeApiError(err).message);
     },
   });
 
@@ -140,12 +138,9 @@ export default function CreateTaskScreen() {
     try {
       const baseUrl = getApiUrl();
       const url = new URL("/api/xp-suggest", baseUrl);
-      const token = getAuthToken();
-      const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (token) headers["Authorization"] = `Bearer ${token}`;
-      const res = await fetch(url.toString(), {
+      const res = await authorizedFetch(url.toString(), {
         method: "POST",
-        headers,
+        headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ title: title.trim(), description: description.trim() || undefined }),
       });
       if (res.ok) {
@@ -153,6 +148,8 @@ export default function CreateTaskScreen() {
         setRewardXp(data.suggestedXp);
         setAiJustification(data.justification);
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      } else if (res.status === 429) {
+        setError("Too many AI suggestions, try again in a minute");
       }
     } catch {
       setError("AI suggestion unavailable");
@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import {
   StyleSheet,
   Text,
@@ -14,23 +14,32 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
 import { useAuth } from "@/lib/auth-context";
+import { clearPendingInvite, savePendingInvite } from "@/lib/pending-invite";
+import { isApiError } from "@/lib/api-error";
 import { apiRequest } from "@/lib/query-client";
 import type { AcceptListInviteResponse, ListInviteResponse } from "@/lib/types";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
 
 export default function InviteScreen() {
-  const { token } = useLocalSearchParams<{ token: string }>();
+  // accept=1 is set when we come back from login or registration with this invite pending
+  const { token, accept } = useLocalSearchParams<{ token: string; accept?: string }>();
   const insets = useSafeAreaInsets();
   const { isAuthenticated } = useAuth();
   const topPad = Platform.OS === "web" ? 67 : insets.top;
 
   const {
     data: invite,
+    error,
     isLoading,
     refetch,
   } = useQuery<ListInviteResponse>({
-    queryKey: ["/api/v1/invites", token],
-    enabled: isAuthenticated && !!token,
+    // The API only shows invites to signed-in users; before that the BFF looks it up for us
+    queryKey: isAuthenticated ? ["/api/v1/invites", token] : ["/api/preview/invites", token],
+    enabled: !!token,
   });
+  // The invite itself may be fine; without its details a signed-out invitee can still sign in and accept it
+  const isGone = isApiError(error) && (error.status === 404 || error.status === 410);
+  const showsAuthWithoutDetails = !isAuthenticated && !invite && !!error && !isGone;
 
   const acceptMutation = useMutation({
     mutationFn: async () => {
@@ -38,6 +47,7 @@ export default function InviteScreen() {
       return (await res.json()) as AcceptListInviteResponse;
     },
     onSuccess: (data) => {
+      void clearPendingInvite();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       router.replace({ pathname: "/(lists)/[id]", params: { id: data.listId } });
     },
@@ -48,6 +58,7 @@ export default function InviteScreen() {
       await apiRequest("POST", `/api/v1/invites/${token}/reject`);
     },
     onSuccess: () => {
+      void clearPendingInvite();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
       router.back();
     },
@@ -60,6 +71,46 @@ export default function InviteScreen() {
     return "pending";
   }, [invite]);
 
+  useEffect(() => {
+    if (!isAuthenticated && token) {
+      void savePendingInvite(token);
+    }
+  }, [isAuthenticated, token]);
+
+  const autoAccepted = useRef(false);
+  useEffect(() => {
+    if (accept === "1" && isAuthenticated && inviteStatus === "pending" && !autoAccepted.current) {
+      autoAccepted.current = true;
+      acceptMutation.mutate();
+    }
+  }, [accept, isAuthenticated, inviteStatus, acceptMutation]);
+
+  function continueToAuth(screen: "/(auth)/login" | "/(auth)/register") {
+    if (token) void savePendingInvite(token);
+    router.push(screen);
+  }
+
+  const authPrompt = (
+    <View style={styles.authPrompt}>
+      <Text style={styles.emptyText}>
+        Create an account with the email address this invite was sent to, or sign in. You will join the
+        list right after.
+      </Text>
+      <Pressable
+        onPress={() => continueToAuth("/(auth)/register")}
+        style={({ pressed }) => [styles.primaryBtn, styles.fullWidthBtn, pressed && { opacity: 0.85 }]}
+      >
+        <Text style={styles.primaryBtnText}>Create account</Text>
+      </Pressable>
+      <Pressable
+        onPress={() => continueToAuth("/(auth)/login")}
+        style={({ pressed }) => [styles.neutralBtn, pressed && { opacity: 0.85 }]}
+      >
+        <Text style={styles.neutralBtnText}>I already have an account</Text>
+      </Pressable>
+    </View>
+  );
+
   return (
     <View style={styles.container}>
       <View style={[styles.topBar, { paddingTop: topPad + 8 }]}>
@@ -81,19 +132,7 @@ export default function InviteScreen() {
         <View style={{ width: 28 }} />
       </View>
 
-      {!isAuthenticated ? (
-        <View style={styles.centered}>
-          <Ionicons name="lock-closed-outline" size={50} color={Colors.textMuted} />
-          <Text style={styles.emptyTitle}>Sign in to view this invite</Text>
-          <Text style={styles.emptyText}>Log in to accept or reject list invitations.</Text>
-          <Pressable
-            onPress={() => router.push("/(auth)/login")}
-            style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.85 }]}
-          >
-            <Text style={styles.primaryBtnText}>Go to login</Text>
-          </Pressable>
-        </View>
-      ) : isLoading ? (
+      {isLoading ? (
         <View style={styles.centered}>
           <ActivityIndicator color={Colors.primary} />
         </View>
@@ -126,7 +165,9 @@ export default function InviteScreen() {
             ) : null}
           </View>
 
-          {inviteStatus === "pending" ? (
+          {!isAuthenticated ? (
+            inviteStatus === "pending" ? authPrompt : null
+          ) : inviteStatus === "pending" ? (
             <View style={styles.actionRow}>
               <Pressable
                 onPress={() => rejectMutation.mutate()}
@@ -167,6 +208,15 @@ export default function InviteScreen() {
               <Text style={styles.secondaryBtnText}>Refresh status</Text>
             </Pressable>
           )}
+          <ApiErrorNotice error={acceptMutation.error} onRetry={() => acceptMutation.mutate()} style={styles.errorBox} />
+        </View>
+      ) : showsAuthWithoutDetails ? (
+        <View style={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>You are invited to a list</Text>
+            <Text style={styles.cardSubtitle}>Sign in to see which list and who invited you.</Text>
+          </View>
+          {authPrompt}
         </View>
       ) : (
         <View style={styles.centered}>
@@ -239,6 +289,19 @@ const styles = StyleSheet.create({
   },
   secondaryBtnText: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.danger },
   btnDisabled: { opacity: 0.6 },
+  authPrompt: { gap: 12 },
+  fullWidthBtn: { flex: 0 },
+  neutralBtn: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    backgroundColor: Colors.surface,
+  },
+  neutralBtnText: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.text },
+  errorBox: { alignSelf: "stretch" },
   emptyTitle: { fontSize: 16, fontFamily: "Inter_600SemiBold", color: Colors.text, textAlign: "center" },
   emptyText: { fontSize: 13, fontFamily: "Inter_400Regular", color: Colors.textSecondary, textAlign: "center" },
 });
@@ -0,0 +1,350 @@
+import { useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from "expo-camera";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { taskQuestApi } from "@/lib/api/client.gen";
+import { useAuth } from "@/lib/auth-context";
+import { queryClient } from "@/lib/query-client";
+import type { JoinCodePreviewResponse } from "@/lib/types";
+import { formatJoinCode, parseJoinCodeInput } from "@/shared/join-codes";
+import type { ErrorMessageOverrides } from "@/lib/error-registry";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
+
+// Scanning on web depends on the browser's camera support, so typing the code is the web path
+const canScan = Platform.OS !== "web";
+
+const JOIN_ERROR_MESSAGES: ErrorMessageOverrides = {
+  NOT_FOUND: {
+    en: "No list uses this code. Check it and try again.",
+    pt: "Nenhuma lista usa este código. Confira e tente de novo.",
+  },
+};
+
+export default function JoinListScreen() {
+  const params = useLocalSearchParams<{ code?: string }>();
+  const { isAuthenticated } = useAuth();
+  const [permission, requestPermission] = useCameraPermissions();
+  const initialCode = params.code ? parseJoinCodeInput(params.code) : null;
+  const [input, setInput] = useState(initialCode ? formatJoinCode(initialCode) : "");
+  const [code, setCode] = useState<string | null>(initialCode);
+  const [scanning, setScanning] = useState(false);
+  // Input and camera problems; API errors come straight from the preview query and join mutation
+  const [error, setError] = useState("");
+
+  const {
+    data: preview,
+    isFetching,
+    error: previewError,
+    refetch: refetchPreview,
+  } = useQuery<JoinCodePreviewResponse>({
+    queryKey: ["/api/v1/join-codes", code],
+    enabled: isAuthenticated && !!code,
+    // Lookups are rate limited, so a wrong code is reported instead of retried
+    retry: false,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: () => taskQuestApi.redeemJoinCode(code!),
+    onSuccess: (data) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/lists"] });
+      router.replace({ pathname: "/(tabs)/(lists)/[id]", params: { id: data.listId } });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+  const apiError = joinMutation.error ?? previewError;
+
+  function submitInput(value: string) {
+    const parsed = parseJoinCodeInput(value);
+    if (!parsed) {
+      setError("Enter the code shown on the list owner's phone");
+      return;
+    }
+    setError("");
+    joinMutation.reset();
+    setCode(parsed);
+  }
+
+  async function startScanning() {
+    setError("");
+    const granted = permission?.granted || (await requestPermission()).granted;
+    if (!granted) {
+      setError("Camera access is off. Type the code instead, or allow the camera in Settings.");
+      return;
+    }
+    setScanning(true);
+  }
+
+  function handleScanned({ data }: BarcodeScanningResult) {
+    const parsed = parseJoinCodeInput(data);
+    setScanning(false);
+    if (!parsed) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError("That QR code is not a TaskQuest join code");
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setError("");
+    joinMutation.reset();
+    setInput(formatJoinCode(parsed));
+    setCode(parsed);
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.flex}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      keyboardVerticalOffset={0}
+    >
+      <View style={styles.container}>
+        <View style={styles.topRow}>
+          <Pressable
+            onPress={() => router.back()}
+            hitSlop={12}
+            style={({ pressed }) => [styles.closeBtn, pressed && { opacity: 0.6 }]}
+          >
+            <Ionicons name="close" size={22} color={Colors.textSecondary} />
+          </Pressable>
+          <Text style={styles.sheetTitle}>Join List</Text>
+          <View style={{ width: 32 }} />
+        </View>
+
+        {!isAuthenticated ? (
+          <View style={styles.centered}>
+            <Ionicons name="lock-closed-outline" size={44} color={Colors.textMuted} />
+            <Text style={styles.emptyText}>Sign in to join a list with a code.</Text>
+            <Pressable
+              onPress={() => router.push("/(auth)/login")}
+              style={({ pressed }) => [styles.submitBtn, styles.fullWidth, pressed && { opacity: 0.9 }]}
+            >
+              <Text style={styles.submitText}>Go to login</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <>
+            {error ? (
+              <View style={styles.errorBox}>
+                <Ionicons name="alert-circle" size={14} color={Colors.danger} />
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : (
+              <ApiErrorNotice
+                error={apiError}
+                overrides={JOIN_ERROR_MESSAGES}
+                onRetry={() => (joinMutation.error ? joinMutation.mutate() : refetchPreview())}
+                style={styles.apiError}
+              />
+            )}
+
+            {scanning ? (
+              <View style={styles.cameraWrap}>
+                <CameraView
+                  style={styles.camera}
+                  facing="back"
+                  barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+                  onBarcodeScanned={scanning ? handleScanned : undefined}
+                />
+                <Pressable
+                  onPress={() => setScanning(false)}
+                  style={({ pressed }) => [styles.cancelScanBtn, pressed && { opacity: 0.8 }]}
+                >
+                  <Text style={styles.cancelScanText}>Cancel</Text>
+                </Pressable>
+              </View>
+            ) : (
+              <>
+                <View style={styles.field}>
+                  <Text style={styles.label}>Join code</Text>
+                  <TextInput
+                    style={styles.codeInput}
+                    placeholder="ABCD-EFGH"
+                    placeholderTextColor={Colors.textMuted}
+                    value={input}
+                    onChangeText={(value) => {
+                      setInput(value);
+                      if (error) setError("");
+                    }}
+                    onSubmitEditing={() => submitInput(input)}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    returnKeyType="go"
+                    maxLength={20}
+                  />
+                </View>
+                <View style={styles.buttonRow}>
+                  {canScan ? (
+                    <Pressable
+                      onPress={startScanning}
+                      style={({ pressed }) => [styles.scanBtn, pressed && { opacity: 0.8 }]}
+                    >
+                      <Ionicons name="scan" size={18} color={Colors.primary} />
+                      <Text style={styles.scanText}>Scan QR</Text>
+                    </Pressable>
+                  ) : null}
+                  <Pressable
+                    onPress={() => submitInput(input)}
+                    disabled={!input.trim() || isFetching}
+                    style={({ pressed }) => [
+                      styles.submitBtn,
+                      styles.flex,
+                      (!input.trim() || isFetching) && styles.submitDisabled,
+                      pressed && { opacity: 0.9 },
+                    ]}
+                  >
+                    {isFetching ? (
+                      <ActivityIndicator color={Colors.white} size="small" />
+                    ) : (
+                      <Text style={styles.submitText}>Find list</Text>
+                    )}
+                  </Pressable>
+                </View>
+              </>
+            )}
+
+            {preview && !previewError && !scanning ? (
+              <View style={styles.previewCard}>
+                <Text style={styles.previewTitle}>{preview.listName}</Text>
+                <Text style={styles.previewText}>Shared by {preview.createdByName}</Text>
+                <Text style={styles.previewText}>
+                  {preview.isMember
+                    ? "You are already in this list"
+                    : `You will join as ${preview.role === "admin" ? "an admin" : "a member"}`}
+                </Text>
+                <Pressable
+                  onPress={() =>
+                    preview.isMember
+                      ? router.replace({ pathname: "/(tabs)/(lists)/[id]", params: { id: preview.listId } })
+                      : joinMutation.mutate()
+                  }
+                  disabled={joinMutation.isPending}
+                  style={({ pressed }) => [
+                    styles.submitBtn,
+                    joinMutation.isPending && styles.submitDisabled,
+                    pressed && { opacity: 0.9, transform: [{ scale: 0.98 }] },
+                  ]}
+                >
+                  {joinMutation.isPending ? (
+                    <ActivityIndicator color={Colors.white} size="small" />
+                  ) : (
+                    <>
+                      <Ionicons name={preview.isMember ? "open-outline" : "enter"} size={18} color={Colors.white} />
+                      <Text style={styles.submitText}>{preview.isMember ? "Open list" : "Join list"}</Text>
+                    </>
+                  )}
+                </Pressable>
+              </View>
+            ) : null}
+          </>
+        )}
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: { flex: 1 },
+  container: { flex: 1, backgroundColor: Colors.surface, padding: 20 },
+  topRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  closeBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: Colors.surfaceLight,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  sheetTitle: { fontSize: 18, fontFamily: "Inter_700Bold", color: Colors.text },
+  centered: { alignItems: "center", gap: 12, paddingTop: 40 },
+  emptyText: { fontSize: 14, fontFamily: "Inter_400Regular", color: Colors.textSecondary, textAlign: "center" },
+  errorBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: Colors.danger + "15",
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 14,
+  },
+  errorText: { fontSize: 12, color: Colors.danger, fontFamily: "Inter_500Medium", flex: 1 },
+  apiError: { marginBottom: 14 },
+  field: { marginBottom: 16 },
+  label: { fontSize: 13, fontFamily: "Inter_600SemiBold", color: Colors.textSecondary, marginBottom: 6 },
+  codeInput: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 14,
+    fontSize: 22,
+    letterSpacing: 3,
+    textAlign: "center",
+    color: Colors.text,
+    fontFamily: "Inter_700Bold",
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+  },
+  buttonRow: { flexDirection: "row", gap: 10 },
+  scanBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.primary + "55",
+    backgroundColor: Colors.primary + "12",
+  },
+  scanText: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.primary },
+  submitBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: Colors.primary,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  fullWidth: { alignSelf: "stretch" },
+  submitDisabled: { opacity: 0.6 },
+  submitText: { fontSize: 16, fontFamily: "Inter_600SemiBold", color: Colors.white },
+  cameraWrap: { gap: 12 },
+  camera: { height: 320, borderRadius: 16, overflow: "hidden" },
+  cancelScanBtn: {
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceLight,
+  },
+  cancelScanText: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.textSecondary },
+  previewCard: {
+    marginTop: 20,
+    backgroundColor: Colors.background,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    gap: 6,
+  },
+  previewTitle: { fontSize: 18, fontFamily: "Inter_700Bold", color: Colors.text },
+  previewText: { fontSize: 13, fontFamily: "Inter_400Regular", color: Colors.textSecondary, marginBottom: 4 },
+});
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { StyleSheet, Text, View, ScrollView, Pressable, Switch, TextInput, ActivityIndicator, Platform } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { useQuery } from "@tanstack/react-query";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import {
+  getDeviceTimeZone,
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "@/lib/notification-preferences";
+import type { TaskListCollectionResponse } from "@/lib/types";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_TYPES,
+  type NotificationDelivery,
+  type NotificationPreferences,
+  type NotificationType,
+} from "@/shared/notification-preferences";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
+
+const TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  task_assigned: { label: "Assigned tasks", description: "Someone gives you a task" },
+  task_pending_approval: { label: "Approvals", description: "A task waits for your approval" },
+  task_approved: { label: "Approved tasks", description: "Your task was approved" },
+  task_rejected: { label: "Rejected tasks", description: "Your task was sent back" },
+  list_invite_received: { label: "List invites", description: "Someone invites you to a list" },
+  user_level_up: { label: "Level ups", description: "You reach a new level" },
+};
+
+const DELIVERY_OPTIONS: { value: NotificationDelivery; label: string }[] = [
+  { value: "push", label: "Push" },
+  { value: "in_app", label: "In-app" },
+  { value: "off", label: "Off" },
+];
+
+function toDate(time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+}
+
+function toClockTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+export default function NotificationSettingsScreen() {
+  const { data, isLoading } = useNotificationPreferences();
+  const updateMutation = useUpdateNotificationPreferences();
+  const [editingTime, setEditingTime] = useState<"start" | "end" | null>(null);
+
+  const { data: listsData } = useQuery<TaskListCollectionResponse>({
+    queryKey: ["/api/v1/lists"],
+  });
+
+  const preferences: NotificationPreferences = data ?? DEFAULT_NOTIFICATION_PREFERENCES;
+  const lists = listsData?.data || [];
+
+  // Quiet hours follow the device the user last saved from, so travelling keeps "night" local
+  function save(next: Partial<NotificationPreferences>) {
+    Haptics.selectionAsync();
+    updateMutation.mutate({
+      types: next.types ?? preferences.types,
+      mutedListIds: next.mutedListIds ?? preferences.mutedListIds,
+      quietHours: { ...(next.quietHours ?? preferences.quietHours), timeZone: getDeviceTimeZone() },
+    });
+  }
+
+  // Also fed by the web text field as the user types, so partial input is simply not saved
+  function setQuietTime(edge: "start" | "end", time: string) {
+    if (/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+      save({ quietHours: { ...preferences.quietHours, [edge]: time } });
+    }
+  }
+
+  function toggleList(listId: string, enabled: boolean) {
+    const muted = new Set(preferences.mutedListIds);
+    if (enabled) {
+      muted.delete(listId);
+    } else {
+      muted.add(listId);
+    }
+    save({ mutedListIds: [...muted] });
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.topRow}>
+        <Pressable
+          onPress={() => router.back()}
+          hitSlop={12}
+          style={({ pressed }) => [styles.closeBtn, pressed && { opacity: 0.6 }]}
+        >
+          <Ionicons name="close" size={22} color={Colors.textSecondary} />
+        </Pressable>
+        <Text style={styles.sheetTitle}>Notification Settings</Text>
+        <View style={{ width: 32 }}>
+          {updateMutation.isPending ? <ActivityIndicator size="small" color={Colors.primary} /> : null}
+        </View>
+      </View>
+
+      <ApiErrorNotice error={updateMutation.error} style={styles.errorBox} />
+
+      {isLoading ? (
+        <ActivityIndicator color={Colors.primary} style={{ marginTop: 24 }} />
+      ) : (
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 40 }}>
+          <Text style={styles.label}>Quiet hours</Text>
+          <View style={styles.card}>
+            <View style={styles.row}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowLabel}>Pause alerts</Text>
+                <Text style={styles.rowDesc}>Notifications still arrive in the app, silently</Text>
+              </View>
+              <Switch
+                value={preferences.quietHours.enabled}
+                onValueChange={(enabled) => save({ quietHours: { ...preferences.quietHours, enabled } })}
+                trackColor={{ false: Colors.surfaceLight, true: Colors.primary + "60" }}
+                thumbColor={preferences.quietHours.enabled ? Colors.primary : Colors.textMuted}
+              />
+            </View>
+            {preferences.quietHours.enabled ? (
+              <View style={styles.timeRow}>
+                {(["start", "end"] as const).map((edge) => (
+                  <View key={edge} style={{ flex: 1 }}>
+                    <Text style={styles.rowDesc}>{edge === "start" ? "From" : "Until"}</Text>
+                    {Platform.OS === "web" ? (
+                      <TextInput
+                        style={styles.timeInput}
+                        defaultValue={preferences.quietHours[edge]}
+                        placeholder="HH:MM"
+                        placeholderTextColor={Colors.textMuted}
+                        maxLength={5}
+                        onChangeText={(text) => setQuietTime(edge, text.trim())}
+                      />
+                    ) : (
+                      <Pressable
+                        style={({ pressed }) => [styles.timeInput, pressed && { opacity: 0.8 }]}
+                        onPress={() => setEditingTime(edge)}
+                      >
+                        <Text style={styles.timeText}>{preferences.quietHours[edge]}</Text>
+                      </Pressable>
+                    )}
+                  </View>
+                ))}
+              </View>
+            ) : null}
+            {editingTime && Platform.OS !== "web" ? (
+              <DateTimePicker
+                mode="time"
+                value={toDate(preferences.quietHours[editingTime])}
+                display={Platform.OS === "ios" ? "spinner" : "default"}
+                onChange={(_event, selected) => {
+                  const edge = editingTime;
+                  setEditingTime(null);
+                  if (selected) setQuietTime(edge, toClockTime(selected));
+                }}
+              />
+            ) : null}
+            {preferences.quietHours.enabled ? (
+              <Text style={[styles.rowDesc, { paddingBottom: 12 }]}>Times are in {preferences.quietHours.timeZone}</Text>
+            ) : null}
+          </View>
+
+          <Text style={styles.label}>Notification types</Text>
+          <View style={styles.card}>
+            {NOTIFICATION_TYPES.map((type, index) => (
+              <View key={type} style={[styles.typeRow, index > 0 && styles.rowDivider]}>
+                <Text style={styles.rowLabel}>{TYPE_LABELS[type].label}</Text>
+                <Text style={styles.rowDesc}>{TYPE_LABELS[type].description}</Text>
+                <View style={styles.segment}>
+                  {DELIVERY_OPTIONS.map((option) => {
+                    const selected = preferences.types[type] === option.value;
+                    return (
+                      <Pressable
+                        key={option.value}
+                        style={[styles.segmentItem, selected && styles.segmentItemActive]}
+                        onPress={() => {
+                          if (!selected) save({ types: { ...preferences.types, [type]: option.value } });
+                        }}
+                      >
+                        <Text style={[styles.segmentText, selected && styles.segmentTextActive]}>{option.label}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {lists.length > 0 ? (
+            <>
+              <Text style={styles.label}>Lists</Text>
+              <View style={styles.card}>
+                {lists.map((list, index) => {
+                  const enabled = !preferences.mutedListIds.includes(list.id);
+                  return (
+                    <View key={list.id} style={[styles.row, index > 0 && styles.rowDivider]}>
+                      <Text style={[styles.rowLabel, { flex: 1 }]} numberOfLines={1}>
+                        {list.name}
+                      </Text>
+                      <Switch
+                        value={enabled}
+                        onValueChange={(value) => toggleList(list.id, value)}
+                        trackColor={{ false: Colors.surfaceLight, true: Colors.primary + "60" }}
+                        thumbColor={enabled ? Colors.primary : Colors.textMuted}
+                      />
+                    </View>
+                  );
+                })}
+              </View>
+              <Text style={styles.footnote}>Task notifications from switched-off lists stay in the app.</Text>
+            </>
+          ) : null}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.surface, padding: 20 },
+  topRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  closeBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: Colors.surfaceLight,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  sheetTitle: { fontSize: 18, fontFamily: "Inter_700Bold", color: Colors.text },
+  errorBox: { marginBottom: 14 },
+  label: { fontSize: 13, fontFamily: "Inter_600SemiBold", color: Colors.textSecondary, marginBottom: 6 },
+  card: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    paddingHorizontal: 14,
+    marginBottom: 20,
+  },
+  row: { flexDirection: "row", alignItems: "center", gap: 10, paddingVertical: 12 },
+  rowDivider: { borderTopWidth: 1, borderTopColor: Colors.cardBorder },
+  rowLabel: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.text },
+  rowDesc: { fontSize: 11, color: Colors.textSecondary, fontFamily: "Inter_400Regular", marginTop: 2 },
+  timeRow: { flexDirection: "row", gap: 12, paddingBottom: 12 },
+  timeInput: {
+    marginTop: 6,
+    backgroundColor: Colors.surface,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: Colors.text,
+    fontFamily: "Inter_500Medium",
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+  },
+  timeText: { fontSize: 15, color: Colors.text, fontFamily: "Inter_500Medium" },
+  footnote: { fontSize: 11, color: Colors.textMuted, fontFamily: "Inter_400Regular", marginTop: -12, marginBottom: 20 },
+  typeRow: { paddingVertical: 12 },
+  segment: {
+    flexDirection: "row",
+    marginTop: 10,
+    backgroundColor: Colors.surface,
+    borderRadius: 8,
+    padding: 3,
+  },
+  segmentItem: { flex: 1, alignItems: "center", paddingVertical: 7, borderRadius: 6 },
+  segmentItemActive: { backgroundColor: Colors.primary + "25" },
+  segmentText: { fontSize: 12, fontFamily: "Inter_500Medium", color: Colors.textSecondary },
+  segmentTextActive: { color: Colors.primary, fontFamily: "Inter_600SemiBold" },
+});
@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect } from "react";
 import {
   StyleSheet,
   Text,
@@ -19,8 +19,14 @@ import * as Haptics from "expo-haptics";
 import Colors from "@/constants/colors";
 import { useAuth } from "@/lib/auth-context";
 import { apiRequest, queryClient } from "@/lib/query-client";
+import { taskQuestApi } from "@/lib/api/client.gen";
 import { useGamificationHints } from "@/lib/gamification-hints";
-import type { ListMember, Task, TaskComment, TaskDetails, UpdateTaskApproverRequest, VoteTaskCommentRequest } from "@/lib/types";
+import { refreshTaskReminders } from "@/lib/task-reminders";
+import { sendOrQueue } from "@/lib/offline-outbox";
+import { applyOptimisticUpdate, invalidateAfterMutation, type AppMutation } from "@/lib/mutation-effects";
+import TaskReminderPicker from "@/components/TaskReminderPicker";
+import { alertApiError } from "@/components/ApiErrorNotice";
+import type { ListMember, Task, TaskComment, TaskDetails, VoteTaskCommentRequest } from "@/lib/types";
 import { format } from "date-fns";
 
 const STATUS_CONFIG: Record<string, { color: string; label: string }> = {
@@ -39,22 +45,15 @@ export default function TaskDetailScreen() {
   const topPad = Platform.OS === "web" ? 67 : insets.top;
   const bottomPad = Platform.OS === "web" ? 34 : insets.bottom;
   const [commentText, setCommentText] = useState("");
-  const [togglingSubtasks, setTogglingSubtasks] = useState<Set<string>>(new Set());
-  const [votingComments, setVotingComments] = useState<Set<string>>(new Set());
-  const [votingDirection, setVotingDirection] = useState<Record<string, "up" | "down">>({});
   const [showApproverPicker, setShowApproverPicker] = useState(false);
   const [pendingApproverId, setPendingApproverId] = useState<string | null>(null);
 
-  const {
-    data: taskData,
-    isLoading,
-    refetch,
-  } = useQuery<TaskDetails>({
+  const { data: taskData, isLoading } = useQuery<TaskDetails>({
     queryKey: [`/api/v1/tasks/${id}/details`],
     enabled: isAuthenticated && !!id,
   });
 
-  const { data: commentsData, refetch: refetchComments } = useQuery<{ data: TaskComment[] }>({
+  const { data: commentsData } = useQuery<{ data: TaskComment[] }>({
     queryKey: [`/api/v1/tasks/${id}/comments`],
     enabled: isAuthenticated && !!id,
   });
@@ -70,31 +69,53 @@ export default function TaskDetailScreen() {
   const activeMembers = useMemo(() => members.filter((m) => m.status === "active"), [members]);
   const approver = members.find((m) => m.userId === task?.approverUserId);
 
-  async function invalidateAll() {
-    refetch();
-    refetchComments();
-    const lid = listId || task?.listId;
-    if (lid) queryClient.invalidateQueries({ queryKey: [`/api/v1/lists/${lid}/tasks`] });
-    queryClient.invalidateQueries({ queryKey: ["/api/v1/feed"] });
-    queryClient.invalidateQueries({ queryKey: ["/api/v1/notifications"] });
-    queryClient.invalidateQueries({ queryKey: ["/api/v1/active-tasks"] });
+  // Due date, status or assignee changes show up here first, so reminders follow them right away
+  useEffect(() => {
+    if (task && user?.id) {
+      void refreshTaskReminders(task, user.id);
+    }
+  }, [task, user?.id]);
+
+  async function refreshAfter(mutation: AppMutation) {
+    await invalidateAfterMutation(mutation);
     await refreshProfile();
     await syncFromLedger();
   }
 
+  function refreshTask() {
+    queryClient.invalidateQueries({ queryKey: [`/api/v1/tasks/${id}/details`] });
+  }
+
+  // Start, complete, comments and subtasks work without signal: they queue and sync on reconnect
+  const outboxLabel = task?.title || "this task";
+
   const startMutation = useMutation({
-    mutationFn: () => apiRequest("POST", `/api/v1/tasks/${id}/start`),
-    onSuccess: async () => {
+    mutationFn: () => sendOrQueue({ kind: "task.start", taskId: id }, outboxLabel),
+    onMutate: async () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      await invalidateAll();
+      return { rollback: await applyOptimisticUpdate({ kind: "task.start", taskId: id }, user?.id) };
+    },
+    onSuccess: async ({ queued }) => {
+      if (!queued) await refreshAfter({ kind: "task.start", taskId: id });
+    },
+    onError: (err: Error, _variables, context) => {
+      context?.rollback();
+      alertApiError(err, { onRetry: () => startMutation.mutate(), onRefresh: refreshTask });
     },
   });
 
   const completeMutation = useMutation({
-    mutationFn: () => apiRequest("POST", `/api/v1/tasks/${id}/complete`),
-    onSuccess: async () => {
+    mutationFn: () => sendOrQueue({ kind: "task.complete", taskId: id }, outboxLabel),
+    onMutate: async () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      await invalidateAll();
+      return { rollback: await applyOptimisticUpdate({ kind: "task.complete", taskId: id }, user?.id) };
+    },
+    onSuccess: async ({ queued }) => {
+      if (!queued) await refreshAfter({ kind: "task.complete", taskId: id });
+    },
+    onError: (err: Error, _variables, context) => {
+      context?.rollback();
+      alertApiError(err, { onRetry: () => completeMutation.mutate(), onRefresh: refreshTask });
     },
   });
 
@@ -102,32 +123,31 @@ export default function TaskDetailScreen() {
     mutationFn: () => apiRequest("POST", `/api/v1/tasks/${id}/approve`),
     onSuccess: async () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      await invalidateAll();
+      await refreshAfter({ kind: "task.approve", taskId: id });
     },
     onError: (err: Error) => {
-      Alert.alert("Approval failed", err.message || "You are not allowed to approve this task");
+      alertApiError(err, { onRetry: () => approveMutation.mutate(), onRefresh: refreshTask });
     },
   });
 
   const rejectMutation = useMutation({
     mutationFn: (reason: string) => apiRequest("POST", `/api/v1/tasks/${id}/reject`, { reason }),
     onSuccess: async () => {
-      await invalidateAll();
+      await refreshAfter({ kind: "task.reject", taskId: id });
     },
     onError: (err: Error) => {
-      Alert.alert("Rejection failed", err.message || "You are not allowed to reject this task");
+      alertApiError(err, { onRefresh: refreshTask });
     },
   });
 
   const approverMutation = useMutation({
     mutationFn: async (approverUserId: string) => {
-      const payload: UpdateTaskApproverRequest = { approverUserId };
-      await apiRequest("PATCH", `/api/v1/tasks/${id}/approver`, payload);
+      await taskQuestApi.updateTaskApprover(id, { approverUserId });
     },
     onSuccess: () => {
       setShowApproverPicker(false);
       setPendingApproverId(null);
-      void invalidateAll();
+      void refreshAfter({ kind: "task.approver", taskId: id });
       if (task?.status === "pending_approval") {
         Alert.alert(
           "Approver updated",
@@ -137,50 +157,60 @@ export default function TaskDetailScreen() {
     },
     onError: (err: Error) => {
       setPendingApproverId(null);
-      Alert.alert("Cannot change approver", err.message || "You are not allowed to change the approver");
+      alertApiError(err, { onRefresh: refreshTask });
     },
   });
 
   const commentMutation = useMutation({
-    mutationFn: (content: string) => apiRequest("POST", `/api/v1/tasks/${id}/comments`, { content }),
-    onSuccess: async () => {
+    mutationFn: (content: string) => sendOrQueue({ kind: "comment.create", taskId: id, content }, outboxLabel),
+    onSuccess: async ({ queued }, content) => {
       setCommentText("");
-      refetchComments();
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      if (queued) return;
+      await invalidateAfterMutation({ kind: "comment.create", taskId: id, content });
       await syncFromLedger();
     },
+    onError: (err: Error, content) => {
+      alertApiError(err, { onRetry: () => commentMutation.mutate(content) });
+    },
   });
 
+  // Taps land in the cache at once; the refetch waits for the last of a burst of taps to settle, failed
+  // ones included, since a rollback only undoes its own tap
   const voteMutation = useMutation({
-    mutationFn: async ({ commentId, value }: { commentId: string; value: -1 | 0 | 1 }) => {
-      setVotingComments((prev) => new Set(prev).add(commentId));
-      setVotingDirection((prev) => ({ ...prev, [commentId]: value >= 0 ? "up" : "down" }));
-      return apiRequest("POST", `/api/v1/comments/${commentId}/vote`, { value } as VoteTaskCommentRequest);
+    mutationKey: ["comment.vote", id],
+    mutationFn: ({ commentId, value }: { commentId: string; value: -1 | 0 | 1 }) =>
+      apiRequest("POST", `/api/v1/comments/${commentId}/vote`, { value } as VoteTaskCommentRequest),
+    onMutate: async ({ commentId, value }) => ({
+      rollback: await applyOptimisticUpdate({ kind: "comment.vote", taskId: id, commentId, value }),
+    }),
+    onError: (_err, _variables, context) => {
+      context?.rollback();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     },
-    onSuccess: async (_data, { commentId }) => {
-      setVotingComments((prev) => { const n = new Set(prev); n.delete(commentId); return n; });
-      setVotingDirection((prev) => { const n = { ...prev }; delete n[commentId]; return n; });
-      refetchComments();
+    onSettled: async (_data, _err, { commentId, value }) => {
+      if (queryClient.isMutating({ mutationKey: ["comment.vote", id] }) > 1) return;
+      await invalidateAfterMutation({ kind: "comment.vote", taskId: id, commentId, value });
       await syncFromLedger();
     },
-    onError: (_err, { commentId }) => {
-      setVotingComments((prev) => { const n = new Set(prev); n.delete(commentId); return n; });
-      setVotingDirection((prev) => { const n = { ...prev }; delete n[commentId]; return n; });
-    },
   });
 
   const subtaskMutation = useMutation({
-    mutationFn: async ({ subtaskId, isDone }: { subtaskId: string; isDone: boolean }) => {
-      setTogglingSubtasks((prev) => new Set(prev).add(subtaskId));
-      return apiRequest("PATCH", `/api/v1/subtasks/${subtaskId}`, { isDone });
-    },
-    onSuccess: (_data, { subtaskId }) => {
-      setTogglingSubtasks((prev) => { const n = new Set(prev); n.delete(subtaskId); return n; });
-      refetch();
+    mutationKey: ["subtask.toggle", id],
+    mutationFn: ({ subtaskId, isDone }: { subtaskId: string; isDone: boolean }) =>
+      sendOrQueue({ kind: "subtask.toggle", taskId: id, subtaskId, isDone }, outboxLabel),
+    onMutate: async ({ subtaskId, isDone }) => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      return { rollback: await applyOptimisticUpdate({ kind: "subtask.toggle", taskId: id, subtaskId, isDone }) };
     },
-    onError: (_err, { subtaskId }) => {
-      setTogglingSubtasks((prev) => { const n = new Set(prev); n.delete(subtaskId); return n; });
+    onError: (_err, _variables, context) => {
+      context?.rollback();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+    // Like votes: once the burst settles, successes and failures alike; a queued toggle keeps its cache entry
+    onSettled: async (result, _err, { subtaskId, isDone }) => {
+      if (result?.queued || queryClient.isMutating({ mutationKey: ["subtask.toggle", id] }) > 1) return;
+      await invalidateAfterMutation({ kind: "subtask.toggle", taskId: id, subtaskId, isDone });
     },
   });
 
@@ -222,6 +252,8 @@ export default function TaskDetailScreen() {
   const canComplete = task.status === "in_progress" && isAssignedToMe;
   const canApprove = task.status === "pending_approval" && task.approverUserId === user?.id;
   const canChangeApprover = task.needsApproval && isCreator;
+  const canSetReminders =
+    Platform.OS !== "web" && isAssignedToMe && !!task.dueAt && (task.status === "open" || task.status === "in_progress");
   const approverLabel = task.approverUserId === user?.id ? "Voce" : approver?.name || "Nao definido";
 
   return (
@@ -270,6 +302,8 @@ export default function TaskDetailScreen() {
             ) : null}
           </View>
 
+          {canSetReminders && user ? <TaskReminderPicker task={task} userId={user.id} /> : null}
+
           {canChangeApprover ? (
             <View style={styles.section}>
               <View style={styles.sectionHeaderRow}>
@@ -376,35 +410,27 @@ export default function TaskDetailScreen() {
               <Text style={styles.sectionTitle}>
                 Subtasks ({task.subtasks.filter((s) => s.isDone).length}/{task.subtasks.length})
               </Text>
-              {task.subtasks.map((sub) => {
-                const isToggling = togglingSubtasks.has(sub.id);
-                return (
-                  <Pressable
-                    key={sub.id}
-                    style={styles.subtaskRow}
-                    onPress={() => subtaskMutation.mutate({ subtaskId: sub.id, isDone: !sub.isDone })}
-                    disabled={isToggling}
-                  >
-                    {isToggling ? (
-                      <ActivityIndicator size={18} color={Colors.primary} />
-                    ) : (
-                      <Ionicons
-                        name={sub.isDone ? "checkbox" : "square-outline"}
-                        size={20}
-                        color={sub.isDone ? Colors.success : Colors.textMuted}
-                      />
-                    )}
-                    <Text style={[styles.subtaskText, sub.isDone && styles.subtaskDone]}>{sub.title}</Text>
-                  </Pressable>
-                );
-              })}
+              {task.subtasks.map((sub) => (
+                <Pressable
+                  key={sub.id}
+                  style={styles.subtaskRow}
+                  onPress={() => subtaskMutation.mutate({ subtaskId: sub.id, isDone: !sub.isDone })}
+                >
+                  <Ionicons
+                    name={sub.isDone ? "checkbox" : "square-outline"}
+                    size={20}
+                    color={sub.isDone ? Colors.success : Colors.textMuted}
+                  />
+                  <Text style={[styles.subtaskText, sub.isDone && styles.subtaskDone]}>{sub.title}</Text>
+                </Pressable>
+              ))}
             </View>
           ) : null}
 
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Comments ({comments.length})</Text>
             {comments.map((c) => (
-              <CommentCard key={c.id} comment={c} onVote={(val) => voteMutation.mutate({ commentId: c.id, value: val })} isVoting={votingComments.has(c.id)} votingDir={votingDirection[c.id]} />
+              <CommentCard key={c.id} comment={c} onVote={(val) => voteMutation.mutate({ commentId: c.id, value: val })} />
             ))}
             {comments.length === 0 ? (
               <Text style={styles.noComments}>No comments yet</Text>
@@ -468,7 +494,7 @@ function ActionBtn({
   );
 }
 
-function CommentCard({ comment, onVote, isVoting, votingDir }: { comment: TaskComment; onVote: (v: -1 | 0 | 1) => void; isVoting?: boolean; votingDir?: "up" | "down" }) {
+function CommentCard({ comment, onVote }: { comment: TaskComment; onVote: (v: -1 | 0 | 1) => void }) {
   return (
     <View style={styles.commentCard}>
       <View style={styles.commentHeader}>
@@ -485,25 +511,15 @@ function CommentCard({ comment, onVote, isVoting, votingDir }: { comment: TaskCo
         <Pressable
           style={[styles.voteBtn, comment.userVote === 1 && styles.voteBtnActive]}
           onPress={() => onVote(comment.userVote === 1 ? 0 : 1)}
-          disabled={!!isVoting}
         >
-          {isVoting && votingDir === "up" ? (
-            <ActivityIndicator size={12} color={Colors.primary} />
-          ) : (
-            <Ionicons name="thumbs-up" size={14} color={comment.userVote === 1 ? Colors.primary : Colors.textMuted} />
-          )}
+          <Ionicons name="thumbs-up" size={14} color={comment.userVote === 1 ? Colors.primary : Colors.textMuted} />
           <Text style={[styles.voteCount, comment.userVote === 1 && { color: Colors.primary }]}>{comment.likes}</Text>
         </Pressable>
         <Pressable
           style={[styles.voteBtn, comment.userVote === -1 && styles.voteBtnActive]}
           onPress={() => onVote(comment.userVote === -1 ? 0 : -1)}
-          disabled={!!isVoting}
         >
-          {isVoting && votingDir === "down" ? (
-            <ActivityIndicator size={12} color={Colors.primaryDark} />
-          ) : (
-            <Ionicons name="thumbs-down" size={14} color={comment.userVote === -1 ? Colors.primaryDark : Colors.textMuted} />
-          )}
+          <Ionicons name="thumbs-down" size={14} color={comment.userVote === -1 ? Colors.primaryDark : Colors.textMuted} />
           <Text style={[styles.voteCount, comment.userVote === -1 && { color: Colors.primaryDark }]}>{comment.dislikes}</Text>
         </Pressable>
       </View>
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { StyleSheet, Text, View, Pressable, ActivityIndicator, Alert, Modal, TextInput } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import { useAuth } from "@/lib/auth-context";
+import { useSavedAccounts, type SavedAccount } from "@/lib/accounts";
+import { alertApiError } from "@/components/ApiErrorNotice";
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+type PinPromptMode = { kind: "unlock"; account: SavedAccount } | { kind: "set" };
+
+function PinPrompt({
+  mode,
+  error,
+  isBusy,
+  onSubmit,
+  onCancel,
+}: {
+  mode: PinPromptMode;
+  error: string;
+  isBusy: boolean;
+  onSubmit: (pin: string) => void;
+  onCancel: () => void;
+}) {
+  const [pin, setPin] = useState("");
+  // Choosing a PIN asks for it twice; the first entry is kept here while it's repeated
+  const [firstPin, setFirstPin] = useState<string | null>(null);
+  const [localError, setLocalError] = useState("");
+
+  const title =
+    mode.kind === "unlock"
+      ? `${mode.account.profile.name}'s PIN`
+      : firstPin === null
+        ? "Choose a PIN"
+        : "Repeat the PIN";
+  const hint =
+    mode.kind === "unlock"
+      ? "Enter the PIN to switch to this account."
+      : "Anyone switching to your account on this device will need it. 4 to 6 digits.";
+
+  function submit() {
+    if (!PIN_PATTERN.test(pin)) {
+      setLocalError("Use 4 to 6 digits");
+      return;
+    }
+    setLocalError("");
+    if (mode.kind === "set" && firstPin === null) {
+      setFirstPin(pin);
+      setPin("");
+      return;
+    }
+    if (mode.kind === "set" && firstPin !== pin) {
+      setFirstPin(null);
+      setPin("");
+      setLocalError("The PINs didn't match. Choose one again.");
+      return;
+    }
+    onSubmit(pin);
+    setPin("");
+  }
+
+  const shownError = localError || error;
+
+  return (
+    <Modal transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.sheetTitle}>{title}</Text>
+          <Text style={styles.sheetHint}>{hint}</Text>
+          <TextInput
+            style={styles.pinInput}
+            value={pin}
+            onChangeText={(text) => setPin(text.replace(/\D/g, ""))}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={6}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={submit}
+          />
+          {shownError ? <Text style={styles.pinError}>{shownError}</Text> : null}
+          <View style={styles.sheetActions}>
+            <Pressable onPress={onCancel} style={styles.sheetButton} hitSlop={6}>
+              <Text style={styles.sheetCancel}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={submit}
+              disabled={isBusy}
+              style={({ pressed }) => [styles.sheetButton, styles.sheetConfirm, pressed && { opacity: 0.85 }]}
+            >
+              {isBusy ? (
+                <ActivityIndicator size="small" color={Colors.white} />
+              ) : (
+                <Text style={styles.sheetConfirmText}>{mode.kind === "unlock" ? "Switch" : "Save"}</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function describeLockout(seconds: number): string {
+  const wait = seconds >= 120 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
+  return `Too many tries. Wait ${wait}.`;
+}
+
+function sortAccounts(accounts: SavedAccount[], activeUserId: string | null): SavedAccount[] {
+  return [...accounts].sort((a, b) => {
+    if (a.profile.id === activeUserId) return -1;
+    if (b.profile.id === activeUserId) return 1;
+    return b.lastUsedAt - a.lastUsedAt;
+  });
+}
+
+/**
+ * The accounts saved on this device, for switching without a password on a shared tablet. `compact`
+ * lists only the other signed-in accounts, without the management controls, for the login screen.
+ */
+export default function AccountSwitcher({
+  compact = false,
+  onSwitched,
+}: {
+  compact?: boolean;
+  onSwitched?: () => void;
+}) {
+  const { user, switchAccount, removeAccount, setAccountPin } = useAuth();
+  const { accounts, activeUserId } = useSavedAccounts();
+  const [pinMode, setPinMode] = useState<PinPromptMode | null>(null);
+  const [pinError, setPinError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const currentId = user?.id ?? null;
+  const shown = sortAccounts(
+    compact ? accounts.filter((account) => account.isSignedIn && account.profile.id !== currentId) : accounts,
+    activeUserId,
+  );
+  if (compact && shown.length === 0) return null;
+
+  async function handleSwitch(account: SavedAccount, pin?: string) {
+    setBusyId(account.profile.id);
+    try {
+      const result = await switchAccount(account.profile.id, pin);
+      switch (result.status) {
+        case "switched":
+          setPinMode(null);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          onSwitched?.();
+          break;
+        case "pinRequired":
+          setPinError("");
+          setPinMode({ kind: "unlock", account });
+          break;
+        case "wrongPin":
+          setPinError(result.lockedForSeconds ? describeLockout(result.lockedForSeconds) : "Wrong PIN");
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+          break;
+        case "signedOut":
+          setPinMode(null);
+          router.push({ pathname: "/(auth)/login", params: { email: result.email } });
+          break;
+      }
+    } catch (error) {
+      alertApiError(error);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleSetPin(pin: string) {
+    try {
+      await setAccountPin(pin);
+      setPinMode(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      alertApiError(error);
+    }
+  }
+
+  function confirmRemovePin() {
+    Alert.alert("Remove PIN", "Anyone using this device will be able to switch to your account.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Remove", style: "destructive", onPress: () => void setAccountPin(null) },
+    ]);
+  }
+
+  function confirmRemove(account: SavedAccount) {
+    Alert.alert(
+      "Remove account",
+      `${account.profile.name} will be signed out on this device and will need the password to come back.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Remove", style: "destructive", onPress: () => void removeAccount(account.profile.id) },
+      ],
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {compact ? <Text style={styles.compactTitle}>Or switch to an account on this device</Text> : null}
+      {shown.map((account) => {
+        const isCurrent = account.profile.id === currentId;
+        const isBusy = busyId === account.profile.id;
+        return (
+          <Pressable
+            key={account.profile.id}
+            style={({ pressed }) => [styles.row, pressed && !isCurrent && { opacity: 0.8 }]}
+            onPress={() => void handleSwitch(account)}
+            disabled={isCurrent || busyId !== null}
+          >
+            <View style={[styles.avatar, isCurrent && styles.avatarCurrent]}>
+              <Text style={styles.avatarText}>{account.profile.name.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={styles.info}>
+              <Text style={styles.name} numberOfLines={1}>
+                {account.profile.name}
+                {account.hasPin ? "  " : ""}
+                {account.hasPin ? <Ionicons name="lock-closed" size={11} color={Colors.textMuted} /> : null}
+              </Text>
+              <Text style={styles.meta} numberOfLines={1}>
+                {isCurrent
+                  ? "Using now"
+                  : account.isSignedIn
+                    ? `Level ${account.profile.level} · ${account.profile.email}`
+                    : "Signed out · sign in again"}
+              </Text>
+            </View>
+            {isBusy ? (
+              <ActivityIndicator size={16} color={Colors.primary} />
+            ) : isCurrent && !compact ? (
+              <Pressable
+                onPress={() => (account.hasPin ? confirmRemovePin() : setPinMode({ kind: "set" }))}
+                hitSlop={8}
+                style={styles.pinButton}
+              >
+                <Text style={styles.pinButtonText}>{account.hasPin ? "Remove PIN" : "Set PIN"}</Text>
+              </Pressable>
+            ) : !compact ? (
+              <Pressable onPress={() => confirmRemove(account)} hitSlop={8}>
+                <Ionicons name="close-circle-outline" size={20} color={Colors.textMuted} />
+              </Pressable>
+            ) : (
+              <Ionicons name="chevron-forward" size={18} color={Colors.textMuted} />
+            )}
+          </Pressable>
+        );
+      })}
+
+      {!compact ? (
+        <Pressable
+          style={({ pressed }) => [styles.row, pressed && { opacity: 0.8 }]}
+          onPress={() => router.push("/(auth)/login")}
+        >
+          <View style={[styles.avatar, styles.avatarAdd]}>
+            <Ionicons name="add" size={18} color={Colors.primary} />
+          </View>
+          <Text style={[styles.name, styles.info]}>Add account</Text>
+        </Pressable>
+      ) : null}
+
+      {pinMode ? (
+        <PinPrompt
+          mode={pinMode}
+          error={pinError}
+          isBusy={busyId !== null}
+          onSubmit={(pin) =>
+            pinMode.kind === "unlock" ? void handleSwitch(pinMode.account, pin) : void handleSetPin(pin)
+          }
+          onCancel={() => setPinMode(null)}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { gap: 0 },
+  compactTitle: { fontSize: 13, fontFamily: "Inter_600SemiBold", color: Colors.textSecondary, marginBottom: 4 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.cardBorder,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.secondary + "25",
+  },
+  avatarCurrent: { backgroundColor: Colors.primary + "30" },
+  avatarAdd: { backgroundColor: Colors.primary + "15" },
+  avatarText: { fontSize: 14, fontFamily: "Inter_700Bold", color: Colors.text },
+  info: { flex: 1, gap: 1 },
+  name: { fontSize: 13, fontFamily: "Inter_500Medium", color: Colors.text },
+  meta: { fontSize: 11, color: Colors.textMuted, fontFamily: "Inter_400Regular" },
+  pinButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    backgroundColor: Colors.primary + "20",
+  },
+  pinButtonText: { fontSize: 11, fontFamily: "Inter_600SemiBold", color: Colors.primary },
+  backdrop: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  sheet: {
+    width: "100%",
+    maxWidth: 360,
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    gap: 10,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+  },
+  sheetTitle: { fontSize: 17, fontFamily: "Inter_700Bold", color: Colors.text },
+  sheetHint: { fontSize: 13, fontFamily: "Inter_400Regular", color: Colors.textSecondary },
+  pinInput: {
+    height: 52,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    backgroundColor: Colors.surfaceLight,
+    color: Colors.text,
+    fontSize: 22,
+    fontFamily: "Inter_600SemiBold",
+    letterSpacing: 8,
+    textAlign: "center",
+  },
+  pinError: { fontSize: 12, fontFamily: "Inter_500Medium", color: Colors.danger },
+  sheetActions: { flexDirection: "row", justifyContent: "flex-end", gap: 10, marginTop: 4 },
+  sheetButton: {
+    minWidth: 84,
+    height: 40,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 14,
+  },
+  sheetCancel: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.textSecondary },
+  sheetConfirm: { backgroundColor: Colors.primary },
+  sheetConfirmText: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.white },
+});
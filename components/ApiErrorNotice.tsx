@@ -0,0 +1,118 @@
+import { StyleSheet, Text, View, Pressable, Platform, Alert, type StyleProp, type ViewStyle } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import Colors from "@/constants/colors";
+import {
+  describeApiError,
+  type ErrorMessageOverrides,
+  type ErrorPresentation,
+  type RecoveryAction,
+} from "@/lib/error-registry";
+
+type RecoveryHandlers = {
+  /** Repeats what failed; without it "Try again" isn't offered */
+  onRetry?: () => void;
+  /** Reloads the data the error is about; without it "Refresh" isn't offered */
+  onRefresh?: () => void;
+};
+
+function getActionHandler(action: RecoveryAction | undefined, handlers: RecoveryHandlers): (() => void) | null {
+  switch (action) {
+    case "retry":
+      return handlers.onRetry ?? null;
+    case "refresh":
+      return handlers.onRefresh ?? null;
+    case "signIn":
+      return () => router.push("/(auth)/login");
+    case "goBack":
+      return () => (router.canGoBack() ? router.back() : router.replace("/(tabs)"));
+    case "earnEnergy":
+      return () => router.navigate("/(tabs)");
+    default:
+      return null;
+  }
+}
+
+/** Shows an error in a dialog, for failures that happen outside a form (task actions, list menus) */
+export function alertApiError(
+  error: unknown,
+  options: RecoveryHandlers & { overrides?: ErrorMessageOverrides } = {},
+): ErrorPresentation {
+  const presentation = describeApiError(error, options.overrides);
+  const { title, message, actionLabel } = presentation;
+  const handler = getActionHandler(presentation.action, options);
+
+  if (Platform.OS === "web") {
+    if (handler && actionLabel && typeof globalThis.confirm === "function") {
+      if (globalThis.confirm(`${title}\n\n${message}\n\n${actionLabel}?`)) handler();
+    } else if (typeof globalThis.alert === "function") {
+      globalThis.alert(`${title}\n\n${message}`);
+    }
+    return presentation;
+  }
+
+  Alert.alert(
+    title,
+    message,
+    handler && actionLabel
+      ? [{ text: "OK", style: "cancel" }, { text: actionLabel, onPress: handler }]
+      : [{ text: "OK" }],
+  );
+  return presentation;
+}
+
+/** Inline error box for forms and sheets, with the recovery action the error registry suggests */
+export default function ApiErrorNotice({
+  error,
+  onRetry,
+  onRefresh,
+  overrides,
+  style,
+}: RecoveryHandlers & {
+  error: unknown;
+  overrides?: ErrorMessageOverrides;
+  style?: StyleProp<ViewStyle>;
+}) {
+  if (!error) return null;
+
+  const { title, message, action, actionLabel } = describeApiError(error, overrides);
+  const handler = getActionHandler(action, { onRetry, onRefresh });
+
+  return (
+    <View style={[styles.box, style]}>
+      <Ionicons name="alert-circle" size={16} color={Colors.danger} style={styles.icon} />
+      <View style={styles.body}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.message}>{message}</Text>
+      </View>
+      {handler && actionLabel ? (
+        <Pressable onPress={handler} hitSlop={8} style={({ pressed }) => [styles.action, pressed && { opacity: 0.7 }]}>
+          <Text style={styles.actionText}>{actionLabel}</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    backgroundColor: Colors.danger + "15",
+    padding: 10,
+    borderRadius: 8,
+  },
+  icon: { marginTop: 1 },
+  body: { flex: 1, gap: 2 },
+  title: { fontSize: 13, fontFamily: "Inter_600SemiBold", color: Colors.danger },
+  message: { fontSize: 12, fontFamily: "Inter_500Medium", color: Colors.text },
+  action: {
+    alignSelf: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: Colors.danger + "25",
+  },
+  actionText: { fontSize: 12, fontFamily: "Inter_600SemiBold", color: Colors.danger },
+});
@@ -3,11 +3,11 @@ import { StyleSheet, Text, View, Pressable, ActivityIndicator } from "react-nati
 import { Ionicons } from "@expo/vector-icons";
 import { router } from "expo-router";
 import Colors from "@/constants/colors";
-import type { FeedItem } from "@/lib/types";
+import type { FeedItem, FeedItemType } from "@/lib/types";
 import { formatDistanceToNow, format, isPast, isToday } from "date-fns";
 import * as Haptics from "expo-haptics";
 
-const FEED_CONFIG: Record<string, { icon: keyof typeof Ionicons.glyphMap; color: string; verb: string }> = {
+const FEED_CONFIG: Record<FeedItemType, { icon: keyof typeof Ionicons.glyphMap; color: string; verb: string }> = {
   task_created: { icon: "add-circle", color: Colors.info, verb: "created a task" },
   task_started: { icon: "play-circle", color: Colors.statusInProgress, verb: "started working on" },
   task_completed: { icon: "checkmark-circle", color: Colors.success, verb: "completed" },
@@ -19,6 +19,49 @@ const FEED_CONFIG: Record<string, { icon: keyof typeof Ionicons.glyphMap; color:
   reminder_due_today: { icon: "alarm", color: Colors.warning, verb: "due today" },
 };
 
+type FeedDetails = {
+  actorName: string | null;
+  taskTitle: string | null;
+  xpGained: number | null;
+  rewardXp: number | null;
+  newLevel: number | null;
+  dueAt: string | null;
+};
+
+const NO_DETAILS: FeedDetails = {
+  actorName: null,
+  taskTitle: null,
+  xpGained: null,
+  rewardXp: null,
+  newLevel: null,
+  dueAt: null,
+};
+
+function getFeedDetails(item: FeedItem): FeedDetails {
+  switch (item.type) {
+    case "task_created":
+    case "task_started":
+    case "task_pending_approval":
+    case "task_rejected": {
+      const { actorName, taskTitle, rewardXp, dueAt } = item.payload;
+      return { ...NO_DETAILS, actorName, taskTitle, rewardXp, dueAt };
+    }
+    case "task_completed":
+    case "task_approved": {
+      const { actorName, taskTitle, rewardXp, xpGained, dueAt } = item.payload;
+      return { ...NO_DETAILS, actorName, taskTitle, rewardXp, xpGained, dueAt };
+    }
+    case "list_invite_created":
+      return { ...NO_DETAILS, actorName: item.payload.actorName };
+    case "user_level_up":
+      return { ...NO_DETAILS, actorName: item.payload.actorName, newLevel: item.payload.newLevel };
+    case "reminder_due_today": {
+      const { taskTitle, rewardXp, dueAt } = item.payload;
+      return { ...NO_DETAILS, taskTitle, rewardXp, dueAt };
+    }
+  }
+}
+
 interface FeedItemCardProps {
   item: FeedItem;
   onDismiss?: (id: string) => void;
@@ -28,23 +71,14 @@ interface FeedItemCardProps {
 }
 
 export default function FeedItemCard({ item, onDismiss, onRestore, isDismissing, isRestoring }: FeedItemCardProps) {
-  const config = FEED_CONFIG[item.type] || { icon: "ellipsis-horizontal-circle", color: Colors.textMuted, verb: item.type };
-  const payload = item.payload || {};
-  const actorName = (payload.actorName as string) || (payload.actor_name as string) || (payload.userName as string) || "Someone";
-  const taskTitle = (payload.taskTitle as string) || (payload.title as string) || (payload.taskName as string) || (payload.task_title as string) || (payload.name as string) || "";
-  const xpGained = (payload.xpGained as number) || (payload.xp as number) || (payload.xp_gained as number) || undefined;
-  const rewardXp = (payload.rewardXp as number) || (payload.reward_xp as number) || (payload.xpReward as number) || undefined;
-  const newLevel = payload.newLevel as number | undefined;
-  const toLevel = payload.toLevel as number | undefined;
-  const dueAt = (payload.dueAt as string) || (payload.due_at as string) || (payload.dueDate as string) || undefined;
+  const config = FEED_CONFIG[item.type];
+  const { actorName, taskTitle, xpGained, rewardXp, newLevel: displayLevel, dueAt } = getFeedDetails(item);
   const timeAgo = formatDistanceToNow(new Date(item.createdAt), { addSuffix: true });
 
   const dueDate = dueAt ? new Date(dueAt) : null;
   const isOverdue = dueDate && isPast(dueDate);
   const isDueToday = dueDate && isToday(dueDate);
 
-  const displayLevel = newLevel || toLevel;
-
   function handlePress() {
     if (item.taskId) {
       router.push({ pathname: "/task/[id]", params: { id: item.taskId, listId: item.listId || "" } });
@@ -61,7 +95,7 @@ export default function FeedItemCard({ item, onDismiss, onRestore, isDismissing,
       </View>
       <View style={styles.content}>
         <Text style={styles.text} numberOfLines={2}>
-          <Text style={styles.actor}>{actorName}</Text> {config.verb}
+          <Text style={styles.actor}>{actorName || "Someone"}</Text> {config.verb}
           {taskTitle ? <Text style={styles.taskRef}> "{taskTitle}"</Text> : null}
         </Text>
         <View style={styles.meta}>
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { StyleSheet, Text, View, Pressable, ActivityIndicator, Platform, Alert, Share } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import QRCode from "react-native-qrcode-svg";
+import Colors from "@/constants/colors";
+import { taskQuestApi } from "@/lib/api/client.gen";
+import { getApiUrl, queryClient } from "@/lib/query-client";
+import type { CreateJoinCodeRequest, JoinCodeListResponse, ListJoinCode } from "@/lib/types";
+import { formatJoinCode } from "@/shared/join-codes";
+import { describeApiError } from "@/lib/error-registry";
+import { isApiError } from "@/lib/api-error";
+
+const EXPIRY_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "1 week" },
+];
+
+const USES_OPTIONS: { maxUses: number | null; label: string }[] = [
+  { maxUses: 1, label: "1 person" },
+  { maxUses: 5, label: "5 people" },
+  { maxUses: null, label: "No limit" },
+];
+
+const ROLE_OPTIONS: { role: ListJoinCode["role"]; label: string }[] = [
+  { role: "member", label: "Member" },
+  { role: "admin", label: "Admin" },
+];
+
+function buildJoinUrl(joinCode: ListJoinCode): string {
+  return new URL(joinCode.joinPath, getApiUrl()).toString();
+}
+
+function describeUses(joinCode: ListJoinCode): string {
+  return joinCode.maxUses === null ? `${joinCode.uses} joined` : `${joinCode.uses}/${joinCode.maxUses} joined`;
+}
+
+function Chips<Option extends { label: string }, Value>({
+  options,
+  selected,
+  onSelect,
+  getValue,
+}: {
+  options: Option[];
+  selected: Value;
+  onSelect: (value: Value) => void;
+  getValue: (option: Option) => Value;
+}) {
+  return (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const value = getValue(option);
+        const active = value === selected;
+        return (
+          <Pressable
+            key={option.label}
+            onPress={() => {
+              Haptics.selectionAsync();
+              onSelect(value);
+            }}
+            style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.7 }]}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+/** Short codes and QR codes for joining a list without an email invite; shown to owners and admins */
+export default function JoinCodePanel({ listId }: { listId: string }) {
+  const queryKey = [`/api/v1/lists/${listId}/join-codes`];
+  const [expiresInHours, setExpiresInHours] = useState(24);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+  const [role, setRole] = useState<ListJoinCode["role"]>("member");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const { data, isLoading, error: loadError } = useQuery<JoinCodeListResponse>({ queryKey, enabled: !!listId });
+  const joinCodes = data?.data || [];
+
+  const createMutation = useMutation({
+    mutationFn: (body: CreateJoinCodeRequest) => taskQuestApi.createJoinCode(listId, body),
+    onSuccess: (joinCode) => {
+      setError("");
+      setExpandedId(joinCode.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/lists"] });
+    },
+    onError: (err: Error) => {
+      setError(describeApiError(err).message);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (joinCode: ListJoinCode) => taskQuestApi.revokeJoinCode(listId, joinCode.id),
+    onSuccess: () => {
+      setError("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (err: Error) => {
+      setError(describeApiError(err).message);
+    },
+  });
+
+  async function handleShare(joinCode: ListJoinCode) {
+    try {
+      await Share.share({
+        message: `Join my list with code ${formatJoinCode(joinCode.code)} or open ${buildJoinUrl(joinCode)}`,
+      });
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  }
+
+  function confirmRevoke(joinCode: ListJoinCode) {
+    const message = `Revoke code ${formatJoinCode(joinCode.code)}? Nobody else can join with it.`;
+
+    if (Platform.OS === "web") {
+      const confirmed = typeof globalThis.confirm === "function" ? globalThis.confirm(message) : false;
+      if (confirmed) revokeMutation.mutate(joinCode);
+      return;
+    }
+
+    Alert.alert("Revoke code", message, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Revoke", style: "destructive", onPress: () => revokeMutation.mutate(joinCode) },
+    ]);
+  }
+
+  // Join codes aren't in the upstream API yet; without them the panel has nothing to offer
+  if (isApiError(loadError) && loadError.code === "NOT_IMPLEMENTED") return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Join with a code</Text>
+      <Text style={styles.hint}>No email needed: scan the QR code or type the code in Lists → Join list.</Text>
+
+      {error ? (
+        <View style={styles.errorBox}>
+          <Ionicons name="alert-circle" size={14} color={Colors.danger} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      <Text style={styles.label}>Expires after</Text>
+      <Chips options={EXPIRY_OPTIONS} selected={expiresInHours} onSelect={setExpiresInHours} getValue={(o) => o.hours} />
+      <Text style={styles.label}>Can be used by</Text>
+      <Chips options={USES_OPTIONS} selected={maxUses} onSelect={setMaxUses} getValue={(o) => o.maxUses} />
+      <Text style={styles.label}>Joins as</Text>
+      <Chips options={ROLE_OPTIONS} selected={role} onSelect={setRole} getValue={(o) => o.role} />
+
+      <Pressable
+        onPress={() => createMutation.mutate({ expiresInHours, maxUses, role })}
+        disabled={createMutation.isPending}
+        style={({ pressed }) => [
+          styles.createBtn,
+          createMutation.isPending && styles.btnDisabled,
+          pressed && { opacity: 0.9, transform: [{ scale: 0.98 }] },
+        ]}
+      >
+        {createMutation.isPending ? (
+          <ActivityIndicator color={Colors.white} size="small" />
+        ) : (
+          <>
+            <Ionicons name="qr-code" size={16} color={Colors.white} />
+            <Text style={styles.createBtnText}>Create join code</Text>
+          </>
+        )}
+      </Pressable>
+
+      {isLoading ? <ActivityIndicator color={Colors.primary} /> : null}
+      {joinCodes.map((joinCode) => {
+        const expanded = expandedId === joinCode.id;
+        return (
+          <View key={joinCode.id} style={styles.codeCard}>
+            <View style={styles.codeRow}>
+              <Pressable onPress={() => setExpandedId(expanded ? null : joinCode.id)} style={styles.codeInfo}>
+                <Text style={styles.codeText} selectable>
+                  {formatJoinCode(joinCode.code)}
+                </Text>
+                <Text style={styles.codeMeta}>
+                  {describeUses(joinCode)} · {joinCode.role === "admin" ? "Admin" : "Member"} · Expires{" "}
+                  {new Date(joinCode.expiresAt).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                </Text>
+              </Pressable>
+              <Pressable
+                onPress={() => setExpandedId(expanded ? null : joinCode.id)}
+                hitSlop={8}
+                style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.6 }]}
+              >
+                <Ionicons name={expanded ? "chevron-up" : "qr-code-outline"} size={16} color={Colors.primary} />
+              </Pressable>
+              <Pressable
+                onPress={() => handleShare(joinCode)}
+                hitSlop={8}
+                style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.6 }]}
+              >
+                <Ionicons name="share-social" size={16} color={Colors.primary} />
+              </Pressable>
+              <Pressable
+                onPress={() => confirmRevoke(joinCode)}
+                disabled={revokeMutation.isPending}
+                hitSlop={8}
+                style={({ pressed }) => [styles.revokeBtn, pressed && { opacity: 0.6 }]}
+              >
+                {revokeMutation.isPending && revokeMutation.variables?.id === joinCode.id ? (
+                  <ActivityIndicator size={14} color={Colors.danger} />
+                ) : (
+                  <Ionicons name="close-circle" size={18} color={Colors.danger} />
+                )}
+              </Pressable>
+            </View>
+            {expanded ? (
+              <View style={styles.qrWrap}>
+                <QRCode value={buildJoinUrl(joinCode)} size={180} backgroundColor={Colors.white} color="#000000" />
+              </View>
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    padding: 14,
+    gap: 8,
+    marginBottom: 16,
+  },
+  sectionTitle: { fontSize: 15, fontFamily: "Inter_600SemiBold", color: Colors.text },
+  hint: { fontSize: 12, fontFamily: "Inter_400Regular", color: Colors.textSecondary },
+  label: { fontSize: 12, fontFamily: "Inter_600SemiBold", color: Colors.textSecondary, marginTop: 4 },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+  },
+  chipActive: { backgroundColor: Colors.primary + "20", borderColor: Colors.primary + "60" },
+  chipText: { fontSize: 12, fontFamily: "Inter_500Medium", color: Colors.textSecondary },
+  chipTextActive: { color: Colors.primary, fontFamily: "Inter_600SemiBold" },
+  errorBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: Colors.danger + "15",
+    padding: 10,
+    borderRadius: 8,
+  },
+  errorText: { fontSize: 12, color: Colors.danger, fontFamily: "Inter_500Medium", flex: 1 },
+  createBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: Colors.primary,
+    paddingVertical: 12,
+    borderRadius: 10,
+    marginTop: 6,
+  },
+  createBtnText: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.white },
+  btnDisabled: { opacity: 0.6 },
+  codeCard: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 10,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    gap: 12,
+  },
+  codeRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  codeInfo: { flex: 1, gap: 2 },
+  codeText: { fontSize: 20, fontFamily: "Inter_700Bold", color: Colors.text, letterSpacing: 2 },
+  codeMeta: { fontSize: 11, fontFamily: "Inter_500Medium", color: Colors.textSecondary },
+  iconBtn: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.primary + "15",
+  },
+  revokeBtn: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.danger + "12",
+  },
+  qrWrap: { alignSelf: "center", padding: 12, backgroundColor: Colors.white, borderRadius: 12 },
+});
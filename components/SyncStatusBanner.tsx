@@ -0,0 +1,96 @@
+import { StyleSheet, Text, View, Pressable, ActivityIndicator, Platform } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import Colors from "@/constants/colors";
+import { dismissOutboxConflict, replayOutbox, useOutboxStatus } from "@/lib/offline-outbox";
+
+function describeChanges(count: number): string {
+  return count === 1 ? "1 change" : `${count} changes`;
+}
+
+/** Floats over the screens while offline, syncing queued changes, or reporting ones that didn't apply */
+export default function SyncStatusBanner() {
+  const insets = useSafeAreaInsets();
+  const { isOnline, pending, isSyncing, conflicts } = useOutboxStatus();
+  const topPad = Platform.OS === "web" ? 12 : insets.top + 4;
+
+  const showPill = !isOnline || pending > 0;
+  if (!showPill && conflicts.length === 0) return null;
+
+  let pill: { icon: keyof typeof Ionicons.glyphMap; color: string; text: string } | null = null;
+  if (!isOnline) {
+    pill = {
+      icon: "cloud-offline",
+      color: Colors.warning,
+      text: pending > 0 ? `Offline · ${describeChanges(pending)} waiting to sync` : "Offline · showing saved data",
+    };
+  } else if (pending > 0) {
+    pill = {
+      icon: "sync",
+      color: Colors.primary,
+      text: isSyncing ? `Syncing ${describeChanges(pending)}…` : `${describeChanges(pending)} waiting to sync`,
+    };
+  }
+
+  return (
+    <View style={[styles.container, { top: topPad }]} pointerEvents="box-none">
+      {pill ? (
+        <Pressable
+          onPress={() => void replayOutbox()}
+          disabled={!isOnline || isSyncing}
+          style={[styles.pill, { borderColor: pill.color + "60" }]}
+        >
+          {isSyncing ? (
+            <ActivityIndicator size={12} color={pill.color} />
+          ) : (
+            <Ionicons name={pill.icon} size={14} color={pill.color} />
+          )}
+          <Text style={[styles.pillText, { color: pill.color }]}>{pill.text}</Text>
+        </Pressable>
+      ) : null}
+      {conflicts.map((conflict) => (
+        <View key={conflict.id} style={styles.conflict}>
+          <Ionicons name="git-compare" size={14} color={Colors.accent} />
+          <Text style={styles.conflictText}>{conflict.message}</Text>
+          <Pressable onPress={() => dismissOutboxConflict(conflict.id)} hitSlop={10}>
+            <Ionicons name="close" size={16} color={Colors.textSecondary} />
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 12,
+    right: 12,
+    alignItems: "center",
+    gap: 6,
+    zIndex: 100,
+  },
+  pill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    backgroundColor: Colors.surface,
+  },
+  pillText: { fontSize: 12, fontFamily: "Inter_600SemiBold" },
+  conflict: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "stretch",
+    gap: 8,
+    padding: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.accent + "55",
+    backgroundColor: Colors.surface,
+  },
+  conflictText: { flex: 1, fontSize: 12, fontFamily: "Inter_500Medium", color: Colors.text },
+});
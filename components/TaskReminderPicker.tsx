@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { StyleSheet, Text, View, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Colors from "@/constants/colors";
+import {
+  TASK_REMINDER_OPTIONS,
+  getTaskReminderOffsets,
+  setTaskReminderOffsets,
+  type TaskReminderOffset,
+} from "@/lib/task-reminders";
+import type { Task } from "@/lib/types";
+
+export default function TaskReminderPicker({ task, userId }: { task: Task; userId: string }) {
+  const [selected, setSelected] = useState<TaskReminderOffset[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void getTaskReminderOffsets(task.id, userId).then((offsets) => {
+      if (!cancelled) setSelected(offsets);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id, userId]);
+
+  function toggle(offset: TaskReminderOffset) {
+    if (!selected) return;
+    Haptics.selectionAsync();
+    const next = selected.includes(offset) ? selected.filter((value) => value !== offset) : [...selected, offset];
+    setSelected(next);
+    void setTaskReminderOffsets(task, userId, next);
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Ionicons name="alarm-outline" size={16} color={Colors.warning} />
+        <Text style={styles.title}>Remind me</Text>
+      </View>
+      <View style={styles.chips}>
+        {TASK_REMINDER_OPTIONS.map((option) => {
+          const active = !!selected?.includes(option.value);
+          return (
+            <Pressable
+              key={option.value}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.7 }]}
+              onPress={() => toggle(option.value)}
+              disabled={!selected}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <Text style={styles.hint}>
+        {selected?.length === 0 ? "No reminders for this task" : "Reminders work offline and skip your quiet hours"}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+    marginBottom: 20,
+    gap: 10,
+  },
+  headerRow: { flexDirection: "row", alignItems: "center", gap: 6 },
+  title: { fontSize: 14, fontFamily: "Inter_600SemiBold", color: Colors.text },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.cardBorder,
+  },
+  chipActive: { backgroundColor: Colors.warning + "20", borderColor: Colors.warning + "60" },
+  chipText: { fontSize: 12, fontFamily: "Inter_500Medium", color: Colors.textSecondary },
+  chipTextActive: { color: Colors.warning, fontFamily: "Inter_600SemiBold" },
+  hint: { fontSize: 11, fontFamily: "Inter_400Regular", color: Colors.textMuted },
+});
@@ -5,5 +5,12 @@ module.exports = defineConfig([
   expoConfig,
   {
     ignores: ["dist/*"],
-  }
+  },
+  {
+    // Node scripts run as CommonJS, outside the app bundle
+    files: ["scripts/**/*.js"],
+    languageOptions: {
+      globals: { __dirname: "readonly", __filename: "readonly" },
+    },
+  },
 ]);
@@ -0,0 +1,117 @@
+import { useSyncExternalStore } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { UserProfile } from "@/lib/types";
+
+const ACCOUNTS_KEY = "taskquest_accounts";
+
+/** An account signed in on this device. Tokens and PINs live in secure storage (lib/session-storage.ts) */
+export type SavedAccount = {
+  /** The last profile seen, for the switcher and for opening the app offline */
+  profile: UserProfile;
+  hasPin: boolean;
+  /** False once the session expired or was revoked; switching back needs the password */
+  isSignedIn: boolean;
+  lastUsedAt: number;
+};
+
+export type SavedAccounts = {
+  accounts: SavedAccount[];
+  activeUserId: string | null;
+};
+
+let state: SavedAccounts = { accounts: [], activeUserId: null };
+let loaded: Promise<SavedAccounts> | null = null;
+const listeners = new Set<() => void>();
+const removalListeners = new Set<(userId: string) => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function setState(next: SavedAccounts): Promise<void> {
+  state = next;
+  listeners.forEach((listener) => listener());
+  await AsyncStorage.setItem(ACCOUNTS_KEY, JSON.stringify(state));
+}
+
+export function loadAccounts(): Promise<SavedAccounts> {
+  loaded ??= AsyncStorage.getItem(ACCOUNTS_KEY)
+    .then((stored) => {
+      if (stored) state = JSON.parse(stored) as SavedAccounts;
+      listeners.forEach((listener) => listener());
+      return state;
+    })
+    .catch(() => state);
+  return loaded;
+}
+
+export function getActiveUserId(): string | null {
+  return state.activeUserId;
+}
+
+export function getSavedAccount(userId: string): SavedAccount | undefined {
+  return state.accounts.find((account) => account.profile.id === userId);
+}
+
+/** Adds the account, or updates its profile and the given fields if it's already on this device */
+export async function saveAccount(
+  profile: UserProfile,
+  changes: Partial<Omit<SavedAccount, "profile">> = {},
+): Promise<void> {
+  const existing = getSavedAccount(profile.id);
+  const account: SavedAccount = {
+    hasPin: false,
+    isSignedIn: true,
+    lastUsedAt: Date.now(),
+    ...existing,
+    ...changes,
+    profile,
+  };
+  await setState({
+    ...state,
+    accounts: existing
+      ? state.accounts.map((saved) => (saved.profile.id === profile.id ? account : saved))
+      : [...state.accounts, account],
+  });
+}
+
+export async function updateSavedAccount(userId: string, changes: Partial<Omit<SavedAccount, "profile">>): Promise<void> {
+  const existing = getSavedAccount(userId);
+  if (existing) await saveAccount(existing.profile, changes);
+}
+
+export async function setActiveAccount(userId: string | null): Promise<void> {
+  await setState({
+    activeUserId: userId,
+    accounts: state.accounts.map((account) =>
+      account.profile.id === userId ? { ...account, lastUsedAt: Date.now() } : account,
+    ),
+  });
+}
+
+export async function removeSavedAccount(userId: string): Promise<void> {
+  await setState({
+    activeUserId: state.activeUserId === userId ? null : state.activeUserId,
+    accounts: state.accounts.filter((account) => account.profile.id !== userId),
+  });
+  removalListeners.forEach((listener) => listener(userId));
+}
+
+/**
+ * Runs when an account is removed from this device (signed out or removed from the switcher, not when
+ * switching away from it), so modules that keep their own per-account data can drop it
+ */
+export function onSavedAccountRemoved(listener: (userId: string) => void): () => void {
+  removalListeners.add(listener);
+  return () => {
+    removalListeners.delete(listener);
+  };
+}
+
+/** Accounts on this device and which one is in use */
+export function useSavedAccounts(): SavedAccounts {
+  return useSyncExternalStore(subscribe, () => state, () => state);
+}
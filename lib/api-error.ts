@@ -0,0 +1,54 @@
+import type { ErrorResponse } from "@/lib/types";
+
+/** The status an ApiError carries when no response came back at all: offline, DNS failure, dropped connection */
+export const NETWORK_ERROR_STATUS = 0;
+
+// Used when a response has no ErrorResponse body, e.g. a proxy's HTML error page
+const CODES_BY_STATUS: Record<number, string> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  429: "RATE_LIMITED",
+};
+
+/** A failed API call, parsed from the `ErrorResponse` body: `message` is the API's own, readable message */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  static async fromResponse(res: Response): Promise<ApiError> {
+    const text = await res.text().catch(() => "");
+    try {
+      const { error } = JSON.parse(text) as Partial<ErrorResponse>;
+      if (error?.code) {
+        return new ApiError(res.status, error.code, error.message || res.statusText, error.details);
+      }
+    } catch {
+      // Not JSON; fall through to the status-based code
+    }
+    const code = CODES_BY_STATUS[res.status] || (res.status >= 500 ? "INTERNAL_ERROR" : "UNKNOWN_ERROR");
+    return new ApiError(res.status, code, text || res.statusText);
+  }
+
+  static network(cause: unknown): ApiError {
+    const message = cause instanceof Error ? cause.message : "Network request failed";
+    return new ApiError(NETWORK_ERROR_STATUS, "NETWORK_ERROR", message);
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export function isNetworkError(error: unknown): boolean {
+  return isApiError(error) && error.status === NETWORK_ERROR_STATUS;
+}
@@ -0,0 +1,235 @@
+// Generated by scripts/generate-api.js from .local/openapi.yaml. Do not edit by hand.
+
+import { apiRequest } from "@/lib/query-client";
+import type {
+  AcceptListInviteResponse,
+  AddListMemberRequest,
+  AuthResponse,
+  CreateJoinCodeRequest,
+  CreateListInviteRequest,
+  CreateListInviteResponse,
+  CreateListRequest,
+  CreateSubtaskRequest,
+  CreateTaskCommentRequest,
+  CreateTaskRequest,
+  FeedResponse,
+  JoinCodeListResponse,
+  JoinCodePreviewResponse,
+  LeaderboardResponse,
+  LedgerResponse,
+  ListInviteResponse,
+  ListJoinCode,
+  ListMemberCollectionResponse,
+  LoginRequest,
+  Notification,
+  NotificationBulkRequest,
+  NotificationBulkResponse,
+  NotificationResponse,
+  RefreshSessionRequest,
+  RegisterRequest,
+  RejectTaskRequest,
+  Subtask,
+  Task,
+  TaskCollectionResponse,
+  TaskComment,
+  TaskCommentCollectionResponse,
+  TaskDetails,
+  TaskList,
+  TaskListCollectionResponse,
+  UpdateListMemberRoleRequest,
+  UpdateSubtaskRequest,
+  UpdateTaskApproverRequest,
+  UpdateTaskAssigneeRequest,
+  UpdateTaskStatusRequest,
+  UserProfile,
+  VoteTaskCommentRequest,
+  XPSuggestionRequest,
+  XPSuggestionResponse,
+} from "./types.gen";
+
+type QueryValue = string | number | boolean | null | undefined;
+
+function withQuery(path: string, query?: Record<string, QueryValue>): string {
+  const params = Object.entries(query || {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+  return params.length > 0 ? `${path}?${params.join("&")}` : path;
+}
+
+async function send<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const res = await apiRequest(method, path, body);
+  if (res.status === 204) return undefined as T;
+  return (await res.json()) as T;
+}
+
+/** BFF paths for every operation, usable as React Query keys */
+export const apiPaths = {
+  register: () => `/api/v1/auth/register`,
+  login: () => `/api/v1/auth/login`,
+  refreshSession: () => `/api/v1/auth/refresh`,
+  logout: () => `/api/v1/auth/logout`,
+  getMe: () => `/api/v1/auth/me`,
+  listLists: () => `/api/v1/lists`,
+  createList: () => `/api/v1/lists`,
+  getList: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}`,
+  deleteList: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}`,
+  listMembers: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/members`,
+  addMember: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/members`,
+  updateMemberRole: (listId: string, userId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/members/${encodeURIComponent(userId)}`,
+  removeMember: (listId: string, userId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/members/${encodeURIComponent(userId)}`,
+  createInvite: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/invites`,
+  revokeInvite: (listId: string, inviteId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/invites/${encodeURIComponent(inviteId)}`,
+  listJoinCodes: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/join-codes`,
+  createJoinCode: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/join-codes`,
+  revokeJoinCode: (listId: string, joinCodeId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/join-codes/${encodeURIComponent(joinCodeId)}`,
+  getInvite: (token: string) => `/api/v1/invites/${encodeURIComponent(token)}`,
+  acceptInvite: (token: string) => `/api/v1/invites/${encodeURIComponent(token)}/accept`,
+  rejectInvite: (token: string) => `/api/v1/invites/${encodeURIComponent(token)}/reject`,
+  getJoinCode: (code: string) => `/api/v1/join-codes/${encodeURIComponent(code)}`,
+  redeemJoinCode: (code: string) => `/api/v1/join-codes/${encodeURIComponent(code)}/redeem`,
+  listTasks: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/tasks`,
+  createTask: (listId: string) => `/api/v1/lists/${encodeURIComponent(listId)}/tasks`,
+  getTask: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}`,
+  deleteTask: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}`,
+  getTaskDetails: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/details`,
+  updateTaskStatus: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/status`,
+  updateTaskAssignee: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/assignee`,
+  updateTaskApprover: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/approver`,
+  createSubtask: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/subtasks`,
+  updateSubtask: (subtaskId: string) => `/api/v1/subtasks/${encodeURIComponent(subtaskId)}`,
+  deleteSubtask: (subtaskId: string) => `/api/v1/subtasks/${encodeURIComponent(subtaskId)}`,
+  startTask: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/start`,
+  completeTask: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/complete`,
+  approveTask: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/approve`,
+  rejectTask: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/reject`,
+  listTaskActivity: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/activity`,
+  listComments: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/comments`,
+  createComment: (taskId: string) => `/api/v1/tasks/${encodeURIComponent(taskId)}/comments`,
+  voteComment: (commentId: string) => `/api/v1/comments/${encodeURIComponent(commentId)}/vote`,
+  getFeed: () => `/api/v1/feed`,
+  dismissFeedItem: (feedItemId: string) => `/api/v1/feed/${encodeURIComponent(feedItemId)}/dismiss`,
+  undismissFeedItem: (feedItemId: string) => `/api/v1/feed/${encodeURIComponent(feedItemId)}/dismiss`,
+  restoreFeedItem: (feedItemId: string) => `/api/v1/feed/${encodeURIComponent(feedItemId)}/restore`,
+  listNotifications: () => `/api/v1/notifications`,
+  getLedger: () => `/api/v1/me/ledger`,
+  markAllNotificationsRead: () => `/api/v1/notifications/read-all`,
+  archiveNotifications: () => `/api/v1/notifications/archive`,
+  deleteNotifications: () => `/api/v1/notifications/delete`,
+  markNotificationRead: (notificationId: string) => `/api/v1/notifications/${encodeURIComponent(notificationId)}/read`,
+  suggestXp: () => `/api/v1/gamification/xp-suggestions`,
+  getGlobalLeaderboard: () => `/api/v1/gamification/leaderboard/global`,
+  getListLeaderboard: (listId: string) => `/api/v1/gamification/leaderboard/lists/${encodeURIComponent(listId)}`,
+};
+
+export const taskQuestApi = {
+  /** POST /auth/register - Registrar usuário */
+  register: (body: RegisterRequest) => send<AuthResponse>("POST", apiPaths.register(), body),
+  /** POST /auth/login - Login */
+  login: (body: LoginRequest) => send<AuthResponse>("POST", apiPaths.login(), body),
+  /** POST /auth/refresh - Renovar o token de acesso (o refresh token é de uso único e também é trocado) (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  refreshSession: (body: RefreshSessionRequest) => send<AuthResponse>("POST", apiPaths.refreshSession(), body),
+  /** POST /auth/logout - Encerrar a sessão revogando o refresh token (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  logout: (body: RefreshSessionRequest) => send<void>("POST", apiPaths.logout(), body),
+  /** GET /auth/me - Perfil do usuário autenticado */
+  getMe: () => send<UserProfile>("GET", apiPaths.getMe()),
+  /** GET /lists - Listar listas do usuário */
+  listLists: (query?: { cursor?: string; limit?: number; q?: string }) => send<TaskListCollectionResponse>("GET", withQuery(apiPaths.listLists(), query)),
+  /** POST /lists - Criar lista */
+  createList: (body: CreateListRequest) => send<TaskList>("POST", apiPaths.createList(), body),
+  /** GET /lists/{listId} - Obter lista por id */
+  getList: (listId: string) => send<TaskList>("GET", apiPaths.getList(listId)),
+  /** DELETE /lists/{listId} - Excluir lista */
+  deleteList: (listId: string) => send<void>("DELETE", apiPaths.deleteList(listId)),
+  /** GET /lists/{listId}/members - Listar membros da lista */
+  listMembers: (listId: string) => send<ListMemberCollectionResponse>("GET", apiPaths.listMembers(listId)),
+  /** POST /lists/{listId}/members - Adicionar membro na lista */
+  addMember: (listId: string, body: AddListMemberRequest) => send<void>("POST", apiPaths.addMember(listId), body),
+  /** PATCH /lists/{listId}/members/{userId} - Atualizar papel de membro */
+  updateMemberRole: (listId: string, userId: string, body: UpdateListMemberRoleRequest) => send<void>("PATCH", apiPaths.updateMemberRole(listId, userId), body),
+  /** DELETE /lists/{listId}/members/{userId} - Remover membro da lista */
+  removeMember: (listId: string, userId: string) => send<void>("DELETE", apiPaths.removeMember(listId, userId)),
+  /** POST /lists/{listId}/invites - Gerar link de convite para lista */
+  createInvite: (listId: string, body: CreateListInviteRequest) => send<CreateListInviteResponse>("POST", apiPaths.createInvite(listId), body),
+  /** DELETE /lists/{listId}/invites/{inviteId} - Revogar convite pendente (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  revokeInvite: (listId: string, inviteId: string) => send<void>("DELETE", apiPaths.revokeInvite(listId, inviteId)),
+  /** GET /lists/{listId}/join-codes - Listar códigos de entrada ativos da lista (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  listJoinCodes: (listId: string) => send<JoinCodeListResponse>("GET", apiPaths.listJoinCodes(listId)),
+  /** POST /lists/{listId}/join-codes - Gerar código curto (e QR) para entrar na lista sem email (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  createJoinCode: (listId: string, body: CreateJoinCodeRequest) => send<ListJoinCode>("POST", apiPaths.createJoinCode(listId), body),
+  /** DELETE /lists/{listId}/join-codes/{joinCodeId} - Revogar código de entrada (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  revokeJoinCode: (listId: string, joinCodeId: string) => send<void>("DELETE", apiPaths.revokeJoinCode(listId, joinCodeId)),
+  /** GET /invites/{token} - Obter detalhes de convite */
+  getInvite: (token: string) => send<ListInviteResponse>("GET", apiPaths.getInvite(token)),
+  /** POST /invites/{token}/accept - Aceitar convite de lista */
+  acceptInvite: (token: string) => send<AcceptListInviteResponse>("POST", apiPaths.acceptInvite(token)),
+  /** POST /invites/{token}/reject - Recusar convite de lista */
+  rejectInvite: (token: string) => send<AcceptListInviteResponse>("POST", apiPaths.rejectInvite(token)),
+  /** GET /join-codes/{code} - Obter a lista de um código de entrada antes de entrar (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  getJoinCode: (code: string) => send<JoinCodePreviewResponse>("GET", apiPaths.getJoinCode(code)),
+  /** POST /join-codes/{code}/redeem - Entrar na lista com código (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  redeemJoinCode: (code: string) => send<AcceptListInviteResponse>("POST", apiPaths.redeemJoinCode(code)),
+  /** GET /lists/{listId}/tasks - Listar tarefas da lista */
+  listTasks: (listId: string, query?: { cursor?: string; limit?: number; q?: string }) => send<TaskCollectionResponse>("GET", withQuery(apiPaths.listTasks(listId), query)),
+  /** POST /lists/{listId}/tasks - Criar tarefa na lista */
+  createTask: (listId: string, body: CreateTaskRequest) => send<Task>("POST", apiPaths.createTask(listId), body),
+  /** GET /tasks/{taskId} - Obter tarefa */
+  getTask: (taskId: string) => send<Task>("GET", apiPaths.getTask(taskId)),
+  /** DELETE /tasks/{taskId} - Excluir tarefa */
+  deleteTask: (taskId: string) => send<void>("DELETE", apiPaths.deleteTask(taskId)),
+  /** GET /tasks/{taskId}/details - Obter detalhes enriquecidos da tarefa */
+  getTaskDetails: (taskId: string) => send<TaskDetails>("GET", apiPaths.getTaskDetails(taskId)),
+  /** PATCH /tasks/{taskId}/status - Atualizar status da tarefa */
+  updateTaskStatus: (taskId: string, body: UpdateTaskStatusRequest) => send<Task>("PATCH", apiPaths.updateTaskStatus(taskId), body),
+  /** PATCH /tasks/{taskId}/assignee - Atribuir, reatribuir ou desatribuir tarefa */
+  updateTaskAssignee: (taskId: string, body: UpdateTaskAssigneeRequest) => send<Task>("PATCH", apiPaths.updateTaskAssignee(taskId), body),
+  /** PATCH /tasks/{taskId}/approver - Alterar aprovador da tarefa (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  updateTaskApprover: (taskId: string, body: UpdateTaskApproverRequest) => send<Task>("PATCH", apiPaths.updateTaskApprover(taskId), body),
+  /** POST /tasks/{taskId}/subtasks - Criar subtarefa */
+  createSubtask: (taskId: string, body: CreateSubtaskRequest) => send<Subtask>("POST", apiPaths.createSubtask(taskId), body),
+  /** PATCH /subtasks/{subtaskId} - Atualizar subtarefa */
+  updateSubtask: (subtaskId: string, body: UpdateSubtaskRequest) => send<Subtask>("PATCH", apiPaths.updateSubtask(subtaskId), body),
+  /** DELETE /subtasks/{subtaskId} - Remover subtarefa */
+  deleteSubtask: (subtaskId: string) => send<void>("DELETE", apiPaths.deleteSubtask(subtaskId)),
+  /** POST /tasks/{taskId}/start - Iniciar execução da tarefa */
+  startTask: (taskId: string) => send<Task>("POST", apiPaths.startTask(taskId)),
+  /** POST /tasks/{taskId}/complete - Concluir tarefa */
+  completeTask: (taskId: string) => send<Task>("POST", apiPaths.completeTask(taskId)),
+  /** POST /tasks/{taskId}/approve - Aprovar tarefa pendente */
+  approveTask: (taskId: string) => send<Task>("POST", apiPaths.approveTask(taskId)),
+  /** POST /tasks/{taskId}/reject - Rejeitar tarefa pendente */
+  rejectTask: (taskId: string, body: RejectTaskRequest) => send<Task>("POST", apiPaths.rejectTask(taskId), body),
+  /** GET /tasks/{taskId}/activity - Listar atividade de uma tarefa */
+  listTaskActivity: (taskId: string, query?: { cursor?: string; limit?: number }) => send<FeedResponse>("GET", withQuery(apiPaths.listTaskActivity(taskId), query)),
+  /** GET /tasks/{taskId}/comments - Listar comentários da tarefa */
+  listComments: (taskId: string) => send<TaskCommentCollectionResponse>("GET", apiPaths.listComments(taskId)),
+  /** POST /tasks/{taskId}/comments - Criar comentário na tarefa */
+  createComment: (taskId: string, body: CreateTaskCommentRequest) => send<TaskComment>("POST", apiPaths.createComment(taskId), body),
+  /** POST /comments/{commentId}/vote - Votar em comentário */
+  voteComment: (commentId: string, body: VoteTaskCommentRequest) => send<TaskComment>("POST", apiPaths.voteComment(commentId), body),
+  /** GET /feed - Feed principal do usuário */
+  getFeed: (query?: { cursor?: string; limit?: number; q?: string; includeDismissed?: 1 }) => send<FeedResponse>("GET", withQuery(apiPaths.getFeed(), query)),
+  /** POST /feed/{feedItemId}/dismiss - Suprimir item do feed principal para o usuário atual */
+  dismissFeedItem: (feedItemId: string) => send<void>("POST", apiPaths.dismissFeedItem(feedItemId)),
+  /** DELETE /feed/{feedItemId}/dismiss - Restaurar item suprimido no feed principal do usuário atual */
+  undismissFeedItem: (feedItemId: string) => send<void>("DELETE", apiPaths.undismissFeedItem(feedItemId)),
+  /** POST /feed/{feedItemId}/restore - Marcar item como não oculto no feed principal do usuário atual */
+  restoreFeedItem: (feedItemId: string) => send<void>("POST", apiPaths.restoreFeedItem(feedItemId)),
+  /** GET /notifications - Listar notificações do usuário (arquivadas não aparecem) */
+  listNotifications: (query?: { cursor?: string; limit?: number }) => send<NotificationResponse>("GET", withQuery(apiPaths.listNotifications(), query)),
+  /** GET /me/ledger - Histórico de ganhos e gastos (XP/Energia) do usuário atual */
+  getLedger: (query?: { resourceType?: "all" | "xp" | "energy"; limit?: number }) => send<LedgerResponse>("GET", withQuery(apiPaths.getLedger(), query)),
+  /** POST /notifications/read-all - Marcar todas as notificações como lidas (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  markAllNotificationsRead: () => send<NotificationBulkResponse>("POST", apiPaths.markAllNotificationsRead()),
+  /** POST /notifications/archive - Arquivar notificações (saem da lista e da contagem de não lidas) (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  archiveNotifications: (body: NotificationBulkRequest) => send<NotificationBulkResponse>("POST", apiPaths.archiveNotifications(), body),
+  /** POST /notifications/delete - Excluir notificações definitivamente (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it) */
+  deleteNotifications: (body: NotificationBulkRequest) => send<NotificationBulkResponse>("POST", apiPaths.deleteNotifications(), body),
+  /** POST /notifications/{notificationId}/read - Marcar notificação como lida */
+  markNotificationRead: (notificationId: string) => send<Notification>("POST", apiPaths.markNotificationRead(notificationId)),
+  /** POST /gamification/xp-suggestions - Sugerir XP para criação de tarefa */
+  suggestXp: (body: XPSuggestionRequest) => send<XPSuggestionResponse>("POST", apiPaths.suggestXp(), body),
+  /** GET /gamification/leaderboard/global - Ranking global */
+  getGlobalLeaderboard: (query?: { cursor?: string; limit?: number }) => send<LeaderboardResponse>("GET", withQuery(apiPaths.getGlobalLeaderboard(), query)),
+  /** GET /gamification/leaderboard/lists/{listId} - Ranking por lista */
+  getListLeaderboard: (listId: string, query?: { cursor?: string; limit?: number }) => send<LeaderboardResponse>("GET", withQuery(apiPaths.getListLeaderboard(listId), query)),
+};
@@ -0,0 +1,334 @@
+// Generated by scripts/generate-api.js from .local/openapi.yaml. Do not edit by hand.
+
+export interface RegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface RefreshSessionRequest {
+  refreshToken: string;
+}
+
+export interface AuthResponse {
+  accessToken: string;
+  /** Troca-se em /auth/refresh por um novo par de tokens; ausente se a API não renova sessões */
+  refreshToken?: string;
+  /** Segundos até o accessToken expirar */
+  expiresIn?: number;
+  user: UserProfile;
+}
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  email: string;
+  avatarUrl?: string | null;
+  totalXp: number;
+  level: number;
+  xpToNextLevel: number;
+  creationXpBalance: number;
+}
+
+export interface CreateListRequest {
+  name: string;
+  description?: string | null;
+}
+
+export interface CreateListInviteRequest {
+  email: string;
+}
+
+export interface CreateListInviteResponse {
+  token: string;
+  invitePath: string;
+  email: string;
+  role: "member";
+  expiresAt: string;
+}
+
+export interface ListInviteResponse {
+  listId: string;
+  listName: string;
+  role: "owner" | "admin" | "member";
+  invitedByName: string;
+  expiresAt: string;
+  acceptedAt?: string | null;
+  revokedAt?: string | null;
+}
+
+export interface AcceptListInviteResponse {
+  listId: string;
+}
+
+export interface CreateJoinCodeRequest {
+  expiresInHours?: number;
+  /** null = sem limite */
+  maxUses?: number | null;
+  role?: "admin" | "member";
+}
+
+export interface ListJoinCode {
+  id: string;
+  code: string;
+  joinPath: string;
+  role: "admin" | "member";
+  maxUses: number | null;
+  uses: number;
+  expiresAt: string;
+  createdAt: string;
+  createdByName: string;
+}
+
+export interface JoinCodeListResponse {
+  data: ListJoinCode[];
+}
+
+export interface JoinCodePreviewResponse {
+  listId: string;
+  listName: string;
+  role: "admin" | "member";
+  createdByName: string;
+  expiresAt: string;
+  isMember: boolean;
+}
+
+export interface AddListMemberRequest {
+  userId?: string;
+  email?: string;
+  role: "admin" | "member";
+}
+
+export interface UpdateListMemberRoleRequest {
+  role: "admin" | "member";
+}
+
+export interface ListMember {
+  id: string;
+  userId: string;
+  role: "owner" | "admin" | "member";
+  status: "active" | "pending";
+  name: string;
+  email: string;
+  avatarUrl?: string | null;
+  /** Presente apenas em convites pendentes (`status = pending`); `id` é o id do convite. */
+  invitePath?: string | null;
+  createdAt: string;
+}
+
+export interface ListMemberCollectionResponse {
+  data: ListMember[];
+}
+
+export interface TaskList {
+  id: string;
+  ownerUserId: string;
+  name: string;
+  description?: string | null;
+  isShared: boolean;
+}
+
+export interface TaskListCollectionResponse {
+  data: TaskList[];
+  nextCursor?: string | null;
+}
+
+export interface CreateTaskRequest {
+  title: string;
+  description?: string | null;
+  dueAt?: string | null;
+  rewardXp: number;
+  needsApproval?: boolean;
+  assigneeUserId?: string | null;
+  approverUserId?: string | null;
+}
+
+export interface UpdateTaskStatusRequest {
+  status: "open" | "in_progress" | "cancelled";
+}
+
+export interface UpdateTaskApproverRequest {
+  approverUserId: string;
+}
+
+export interface UpdateTaskAssigneeRequest {
+  assigneeUserId: string | null;
+}
+
+export interface CreateSubtaskRequest {
+  title: string;
+}
+
+export interface UpdateSubtaskRequest {
+  title?: string;
+  isDone?: boolean;
+}
+
+export interface RejectTaskRequest {
+  reason: string;
+}
+
+export interface Task {
+  id: string;
+  listId: string;
+  creatorUserId: string;
+  assigneeUserId?: string | null;
+  approverUserId?: string | null;
+  title: string;
+  description?: string | null;
+  dueAt?: string | null;
+  rewardXp: number;
+  needsApproval: boolean;
+  status: "open" | "in_progress" | "pending_approval" | "completed" | "cancelled";
+  completedAt?: string | null;
+  subtasks: Subtask[];
+}
+
+export interface TaskCollectionResponse {
+  data: Task[];
+  nextCursor?: string | null;
+}
+
+export interface Subtask {
+  id: string;
+  taskId: string;
+  title: string;
+  isDone: boolean;
+}
+
+export interface TaskUserSummary {
+  id: string;
+  name: string;
+  avatarUrl?: string | null;
+}
+
+export interface TaskDetails {
+  task: Task;
+  creator: TaskUserSummary;
+  assignee?: TaskUserSummary | null;
+  assignableUsers: TaskUserSummary[];
+  canManageAssignee: boolean;
+}
+
+export interface CreateTaskCommentRequest {
+  content: string;
+  parentCommentId?: string | null;
+}
+
+export interface VoteTaskCommentRequest {
+  value: -1 | 0 | 1;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  parentCommentId?: string | null;
+  author: TaskUserSummary;
+  content: string;
+  likes: number;
+  dislikes: number;
+  userVote: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaskCommentCollectionResponse {
+  data: TaskComment[];
+}
+
+export interface FeedItem {
+  id: string;
+  type: "task_created" | "task_started" | "task_completed" | "task_pending_approval" | "task_approved" | "task_rejected" | "list_invite_created" | "user_level_up" | "reminder_due_today";
+  actorUserId?: string | null;
+  targetUserId?: string | null;
+  taskId?: string | null;
+  listId?: string | null;
+  payload: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface FeedResponse {
+  data: FeedItem[];
+  nextCursor?: string | null;
+}
+
+export interface Notification {
+  id: string;
+  type: "task_assigned" | "task_pending_approval" | "task_approved" | "task_rejected" | "list_invite_received" | "user_level_up";
+  title: string;
+  message: string;
+  taskId?: string | null;
+  isRead: boolean;
+  readAt?: string | null;
+  payload: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface NotificationResponse {
+  data: Notification[];
+  unreadCount: number;
+  nextCursor?: string | null;
+}
+
+export interface NotificationBulkRequest {
+  ids: string[];
+}
+
+export interface NotificationBulkResponse {
+  /** Quantas notificações foram alteradas */
+  updated: number;
+  unreadCount: number;
+}
+
+export interface LedgerEntry {
+  id: string;
+  resourceType: "xp" | "energy";
+  direction: "credit" | "debit";
+  amount: number;
+  sourceType: string;
+  sourceId?: string | null;
+  balanceAfter: number;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface LedgerResponse {
+  data: LedgerEntry[];
+}
+
+export interface XPSuggestionRequest {
+  title: string;
+  description?: string;
+}
+
+export interface XPSuggestionResponse {
+  suggestedXp: number;
+  justification: string;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  name: string;
+  avatarUrl?: string | null;
+  totalXp: number;
+  level: number;
+  completedTasks: number;
+}
+
+export interface LeaderboardResponse {
+  data: LeaderboardEntry[];
+  nextCursor?: string | null;
+}
+
+export interface ErrorResponse {
+  error: {
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
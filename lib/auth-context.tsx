@@ -1,11 +1,52 @@
-import { createContext, useContext, useState, useEffect, useMemo, ReactNode } from "react";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createContext, useCallback, useContext, useState, useEffect, useMemo, useRef, ReactNode } from "react";
 import { fetch } from "expo/fetch";
+import { router, usePathname } from "expo-router";
 import type { UserProfile, AuthResponse } from "./types";
-import { getApiUrl, setAuthToken, queryClient } from "./query-client";
-import { syncPushTokenWithBackend, unregisterPushTokenFromBackend } from "./push-notifications";
+import { ApiError } from "./api-error";
+import {
+  apiRequest,
+  getApiUrl,
+  getAuthToken,
+  hasSessionHandlers,
+  removeQueryCache,
+  setAuthToken,
+  setSessionHandlers,
+  switchQueryCache,
+} from "./query-client";
+import {
+  getActiveUserId,
+  getSavedAccount,
+  loadAccounts,
+  removeSavedAccount,
+  saveAccount,
+  setActiveAccount,
+  updateSavedAccount,
+} from "./accounts";
+import {
+  clearSession,
+  forgetSingleAccountSession,
+  loadSession,
+  readSingleAccountSession,
+  saveAccountPin,
+  saveSession,
+  verifyAccountPin,
+  type StoredSession,
+} from "./session-storage";
+import {
+  flushPendingPushUnregisters,
+  forgetPushRegistration,
+  setAppBadgeCount,
+  setPushRecipient,
+  syncPushTokenWithBackend,
+  unregisterPushTokenFromBackend,
+} from "./push-notifications";
 
-const TOKEN_KEY = "taskquest_token";
+/** What came of a switch; the switcher asks for the PIN or the password and tries again */
+export type SwitchAccountResult =
+  | { status: "switched" }
+  | { status: "pinRequired" }
+  | { status: "wrongPin"; lockedForSeconds: number | null }
+  | { status: "signedOut"; email: string };
 
 interface AuthContextType {
   user: UserProfile | null;
@@ -13,21 +54,168 @@ interface AuthContextType {
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
+  /** Signs the current account out and removes it from this device */
   logout: () => Promise<void>;
+  /** Moves to another account saved on this device, without its password */
+  switchAccount: (userId: string, pin?: string) => Promise<SwitchAccountResult>;
+  /** Signs out and removes an account that isn't the current one */
+  removeAccount: (userId: string) => Promise<void>;
+  /** Sets or, with null, removes the PIN asked for before switching into the current account */
+  setAccountPin: (pin: string | null) => Promise<void>;
   refreshProfile: () => Promise<void>;
   updateUser: (user: UserProfile) => void;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// Sign-in endpoints answer 401 for a wrong password, which must not go through session refresh
+async function postAuth(route: string, body: unknown): Promise<AuthResponse> {
+  let res: Response;
+  try {
+    res = await fetch(new URL(route, getApiUrl()).toString(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw ApiError.network(error);
+  }
+
+  if (!res.ok) {
+    throw await ApiError.fromResponse(res);
+  }
+  return (await res.json()) as AuthResponse;
+}
+
+function toStoredSession(data: AuthResponse): StoredSession {
+  return { accessToken: data.accessToken, refreshToken: data.refreshToken };
+}
+
+/**
+ * Trades the current account's refresh token for new tokens; null when the API turned it down, or
+ * when another account was switched to meanwhile and the new token is no longer the one in use
+ */
+async function renewSession(): Promise<AuthResponse | null> {
+  const userId = getActiveUserId();
+  const session = userId ? await loadSession(userId) : null;
+  if (!userId || !session?.refreshToken) return null;
+
+  let data: AuthResponse;
+  try {
+    data = await postAuth("/api/v1/auth/refresh", { refreshToken: session.refreshToken });
+  } catch (error) {
+    // Offline or a server error: the session may still be good, so leave it for the next request. A 501
+    // means the upstream can't renew sessions at all
+    if (error instanceof ApiError && ((error.status >= 400 && error.status < 500) || error.status === 501)) return null;
+    throw error;
+  }
+
+  await saveSession(userId, toStoredSession(data));
+  if (getActiveUserId() !== userId) return null;
+  setAuthToken(data.accessToken);
+  return data;
+}
+
+async function fetchProfile(): Promise<UserProfile> {
+  const res = await apiRequest("GET", "/api/v1/auth/me");
+  return (await res.json()) as UserProfile;
+}
+
+// Best effort, and without the access token: an expired one shouldn't trigger a refresh on the way out
+async function revokeRefreshToken(session: StoredSession | null): Promise<void> {
+  if (!session?.refreshToken) return;
+  await fetch(new URL("/api/v1/auth/logout", getApiUrl()).toString(), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken: session.refreshToken }),
+  }).catch(() => {});
+}
+
+// Everything kept on this device for an account, except what the server has to be told about
+async function forgetAccount(userId: string): Promise<void> {
+  await clearSession(userId);
+  await saveAccountPin(userId, null);
+  await removeQueryCache(userId);
+  await forgetPushRegistration(userId);
+  await removeSavedAccount(userId);
+}
+
+/**
+ * Puts the active account's stored session in place for work that runs without the UI, such as a
+ * notification action pressed while the app was killed. Leaves a running app's session alone; false
+ * when no account is signed in on this device.
+ */
+export async function restoreBackgroundSession(): Promise<boolean> {
+  if (getAuthToken()) return true;
+
+  const { activeUserId } = await loadAccounts();
+  const session = activeUserId ? await loadSession(activeUserId) : null;
+  if (!activeUserId || !session) return false;
+
+  setAuthToken(session.accessToken);
+  setPushRecipient(activeUserId);
+  // The provider installs its own handlers once it mounts; until then a 401 can still renew the session
+  if (!hasSessionHandlers()) {
+    setSessionHandlers({
+      refresh: async () => (await renewSession())?.accessToken ?? null,
+      onExpired: () => setAuthToken(null),
+    });
+  }
+  return true;
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const pathname = usePathname();
+  const pathnameRef = useRef(pathname);
+
+  useEffect(() => {
+    pathnameRef.current = pathname;
+  }, [pathname]);
+
+  useEffect(() => {
+    setSessionHandlers({
+      refresh: async () => {
+        const data = await renewSession();
+        if (data) {
+          setUser(data.user);
+          await saveAccount(data.user);
+        }
+        return data?.accessToken ?? null;
+      },
+      onExpired: () => {
+        const userId = getActiveUserId();
+        const email = userId ? getSavedAccount(userId)?.profile.email : undefined;
+        setAuthToken(null);
+        setUser(null);
+        void setAppBadgeCount(0);
+        // The account stays on the device, marked signed out, and keeps its saved cache and queued offline changes
+        void switchQueryCache(null);
+        if (userId) {
+          // Its pushes would otherwise keep showing here while the app is in the background
+          void unregisterPushTokenFromBackend(userId);
+          void clearSession(userId);
+          void updateSavedAccount(userId, { isSignedIn: false }).then(() => setActiveAccount(null));
+        }
+        const returnTo = pathnameRef.current;
+        router.replace({
+          pathname: "/(auth)/login",
+          params: { ...(returnTo && returnTo !== "/" ? { returnTo } : {}), ...(email ? { email } : {}) },
+        });
+      },
+    });
+    return () => setSessionHandlers(null);
+  }, []);
 
   useEffect(() => {
     loadStoredAuth();
   }, []);
 
+  useEffect(() => {
+    setPushRecipient(user?.id ?? null);
+  }, [user?.id]);
+
   useEffect(() => {
     if (isLoading || !user) {
       return;
@@ -36,104 +224,156 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     void syncPushTokenWithBackend();
   }, [isLoading, user]);
 
+  const enterAccount = useCallback(async (profile: UserProfile, session: StoredSession) => {
+    setAuthToken(null);
+    await switchQueryCache(profile.id);
+    setAuthToken(session.accessToken);
+    await setActiveAccount(profile.id);
+    setUser(profile);
+  }, []);
+
+  // Versions before multiple accounts kept one session; it becomes the first saved account
+  async function adoptSingleAccountSession(): Promise<{ profile: UserProfile; session: StoredSession } | null> {
+    const single = await readSingleAccountSession();
+    if (!single) return null;
+
+    setAuthToken(single.session.accessToken);
+    const profile = single.profile ?? (await fetchProfile());
+    await saveSession(profile.id, single.session);
+    await saveAccount(profile);
+    await forgetSingleAccountSession();
+    return { profile, session: single.session };
+  }
+
   async function loadStoredAuth() {
+    // Whoever signed out while offline last time is unregistered now, signed in or not
+    void flushPendingPushUnregisters();
     try {
-      const token = await AsyncStorage.getItem(TOKEN_KEY);
-      if (token) {
-        setAuthToken(token);
-        const profile = await fetchProfile(token);
-        if (profile) {
-          setUser(profile);
-        } else {
-          await AsyncStorage.removeItem(TOKEN_KEY);
-          setAuthToken(null);
-        }
-      }
+      const { activeUserId } = await loadAccounts();
+      const account = activeUserId ? getSavedAccount(activeUserId) : undefined;
+      const session = account ? await loadSession(account.profile.id) : null;
+      const restored = account && session ? { profile: account.profile, session } : await adoptSingleAccountSession();
+      if (!restored) return;
+
+      // Open with the last profile seen so the app works offline; a dead session signs out via onExpired
+      await enterAccount(restored.profile, restored.session);
+      const profile = await fetchProfile();
+      setUser(profile);
+      await saveAccount(profile);
     } catch {
-      await AsyncStorage.removeItem(TOKEN_KEY);
-      setAuthToken(null);
+      // Offline or the server is down: keep the stored session and try again on the next request
     } finally {
       setIsLoading(false);
     }
   }
 
-  async function fetchProfile(token: string): Promise<UserProfile | null> {
-    try {
-      const baseUrl = getApiUrl();
-      const url = new URL("/api/v1/auth/me", baseUrl);
-      const res = await fetch(url.toString(), {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!res.ok) return null;
-      return (await res.json()) as UserProfile;
-    } catch {
-      return null;
-    }
-  }
+  // Signing in adds the account to this device, or signs an existing one back in, and switches to it
+  const startSession = useCallback(
+    async (data: AuthResponse) => {
+      const session = toStoredSession(data);
+      await saveSession(data.user.id, session);
+      await saveAccount(data.user, { isSignedIn: true });
+      await enterAccount(data.user, session);
+    },
+    [enterAccount],
+  );
 
-  async function login(email: string, password: string) {
-    const baseUrl = getApiUrl();
-    const url = new URL("/api/v1/auth/login", baseUrl);
-    const res = await fetch(url.toString(), {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ email, password }),
-    });
+  const login = useCallback(
+    async (email: string, password: string) => {
+      await startSession(await postAuth("/api/v1/auth/login", { email, password }));
+    },
+    [startSession],
+  );
+
+  const register = useCallback(
+    async (name: string, email: string, password: string) => {
+      await startSession(await postAuth("/api/v1/auth/register", { name, email, password }));
+    },
+    [startSession],
+  );
 
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => null);
-      throw new Error(errorData?.error?.message || "Login failed");
+  const logout = useCallback(async () => {
+    const userId = getActiveUserId();
+    await unregisterPushTokenFromBackend();
+    await setAppBadgeCount(0);
+    if (userId) {
+      await revokeRefreshToken(await loadSession(userId).catch(() => null));
+      await forgetAccount(userId);
     }
+    setAuthToken(null);
+    setUser(null);
+    await switchQueryCache(null);
+  }, []);
 
-    const data = (await res.json()) as AuthResponse;
-    await AsyncStorage.setItem(TOKEN_KEY, data.accessToken);
-    setAuthToken(data.accessToken);
-    setUser(data.user);
-    queryClient.clear();
-    void syncPushTokenWithBackend();
-  }
+  const refreshProfile = useCallback(async () => {
+    if (!getAuthToken()) return;
+    try {
+      const profile = await fetchProfile();
+      setUser(profile);
+      await saveAccount(profile);
+    } catch {
+      // Keep showing the profile we have
+    }
+  }, []);
 
-  async function register(name: string, email: string, password: string) {
-    const baseUrl = getApiUrl();
-    const url = new URL("/api/v1/auth/register", baseUrl);
-    const res = await fetch(url.toString(), {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ name, email, password }),
-    });
+  const switchAccount = useCallback(
+    async (userId: string, pin?: string): Promise<SwitchAccountResult> => {
+      const account = getSavedAccount(userId);
+      if (!account) throw new Error(`No saved account ${userId}`);
+      if (userId === getActiveUserId() && user) return { status: "switched" };
 
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => null);
-      throw new Error(errorData?.error?.message || "Registration failed");
-    }
+      if (account.hasPin) {
+        if (pin === undefined) return { status: "pinRequired" };
+        const check = await verifyAccountPin(userId, pin);
+        if (!check.ok && "isMissing" in check) {
+          // Without the PIN to check against, only the password gets back in
+          await revokeRefreshToken(await loadSession(userId).catch(() => null));
+          await clearSession(userId);
+          await updateSavedAccount(userId, { isSignedIn: false, hasPin: false });
+          return { status: "signedOut", email: account.profile.email };
+        }
+        if (!check.ok) return { status: "wrongPin", lockedForSeconds: check.lockedForSeconds };
+      }
 
-    const data = (await res.json()) as AuthResponse;
-    await AsyncStorage.setItem(TOKEN_KEY, data.accessToken);
-    setAuthToken(data.accessToken);
-    setUser(data.user);
-    queryClient.clear();
-    void syncPushTokenWithBackend();
-  }
+      const session = account.isSignedIn ? await loadSession(userId) : null;
+      if (!session) {
+        await updateSavedAccount(userId, { isSignedIn: false });
+        return { status: "signedOut", email: account.profile.email };
+      }
 
-  async function logout() {
-    await unregisterPushTokenFromBackend();
-    await AsyncStorage.removeItem(TOKEN_KEY);
-    setAuthToken(null);
-    setUser(null);
-    queryClient.clear();
-  }
+      await setAppBadgeCount(0);
+      await enterAccount(account.profile, session);
+      void refreshProfile();
+      return { status: "switched" };
+    },
+    [user, enterAccount, refreshProfile],
+  );
 
-  async function refreshProfile() {
-    const token = await AsyncStorage.getItem(TOKEN_KEY);
-    if (token) {
-      const profile = await fetchProfile(token);
-      if (profile) setUser(profile);
-    }
-  }
+  const removeAccount = useCallback(
+    async (userId: string) => {
+      if (userId === getActiveUserId()) {
+        await logout();
+        return;
+      }
+      // Usually a no-op, as its token moved to whichever account signed in after it, but that may have failed
+      await unregisterPushTokenFromBackend(userId);
+      await revokeRefreshToken(await loadSession(userId).catch(() => null));
+      await forgetAccount(userId);
+    },
+    [logout],
+  );
+
+  const setAccountPin = useCallback(async (pin: string | null) => {
+    const userId = getActiveUserId();
+    if (!userId) return;
+    await saveAccountPin(userId, pin);
+    await updateSavedAccount(userId, { hasPin: pin !== null });
+  }, []);
 
-  function updateUser(updatedUser: UserProfile) {
+  const updateUser = useCallback((updatedUser: UserProfile) => {
     setUser(updatedUser);
-  }
+    void saveAccount(updatedUser);
+  }, []);
 
   const value = useMemo(
     () => ({
@@ -143,10 +383,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       login,
       register,
       logout,
+      switchAccount,
+      removeAccount,
+      setAccountPin,
       refreshProfile,
       updateUser,
     }),
-    [user, isLoading],
+    [user, isLoading, login, register, logout, switchAccount, removeAccount, setAccountPin, refreshProfile, updateUser],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
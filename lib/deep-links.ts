@@ -0,0 +1,41 @@
+import type { Href } from "expo-router";
+import type { DeepLinkTarget } from "@/shared/deep-links";
+
+/** The expo-router route for a link target; group segments keep list routes inside the Lists tab */
+export function getAppRoute(target: DeepLinkTarget): Href {
+  switch (target.type) {
+    case "task":
+      return { pathname: "/task/[id]", params: { id: target.taskId } };
+    case "list":
+      return { pathname: "/(tabs)/(lists)/[id]", params: { id: target.listId } };
+    case "members":
+      return { pathname: "/(tabs)/(lists)/members/[id]", params: { id: target.listId } };
+    case "invite":
+      return { pathname: "/invite/[token]", params: { token: target.token } };
+    case "join":
+      return { pathname: "/join-list", params: { code: target.code } };
+    case "leaderboard":
+      return "/(tabs)/leaderboard";
+    case "profile":
+      return "/(tabs)/profile";
+    case "notifications":
+      return "/(tabs)/notifications";
+  }
+}
+
+/** Same as getAppRoute, flattened to the path string `+native-intent` must return; leftover params become the query */
+export function getAppRoutePath(target: DeepLinkTarget): string {
+  const route = getAppRoute(target);
+  if (typeof route === "string") {
+    return route;
+  }
+
+  const query = new URLSearchParams((route.params || {}) as Record<string, string>);
+  const pathname = route.pathname.replace(/\[(\w+)\]/g, (_match, name: string) => {
+    const value = query.get(name) ?? "";
+    query.delete(name);
+    return encodeURIComponent(value);
+  });
+  const search = query.toString();
+  return search ? `${pathname}?${search}` : pathname;
+}
@@ -0,0 +1,227 @@
+import { isApiError, type ApiError } from "@/lib/api-error";
+
+/** What the user can do about an error; the presentation component turns these into buttons */
+export type RecoveryAction = "retry" | "refresh" | "signIn" | "goBack" | "earnEnergy";
+
+export type ErrorPresentation = {
+  code: string;
+  title: string;
+  message: string;
+  action?: RecoveryAction;
+  actionLabel?: string;
+};
+
+type Locale = "en" | "pt";
+type LocalizedText = Record<Locale, string>;
+type ErrorCopy = { title: string; message: string | ((error: ApiError) => string) };
+type ErrorEntry = { action?: RecoveryAction; copy: Record<Locale, ErrorCopy> };
+
+/** Screen-specific wording for a code, e.g. what NOT_FOUND means when looking up a join code */
+export type ErrorMessageOverrides = Partial<Record<string, LocalizedText>>;
+
+function readNumber(error: ApiError, key: string): number | null {
+  const value = error.details?.[key];
+  return typeof value === "number" ? value : null;
+}
+
+const SERVER_TROUBLE: ErrorEntry = {
+  action: "retry",
+  copy: {
+    en: { title: "Server unavailable", message: "TaskQuest is having trouble right now. Try again in a moment." },
+    pt: { title: "Servidor indisponível", message: "O TaskQuest está com problemas agora. Tente de novo em instantes." },
+  },
+};
+
+const INVALID_TRANSITION: ErrorEntry = {
+  action: "refresh",
+  copy: {
+    en: { title: "This task changed", message: "Someone else updated this task. Refresh to see where it stands." },
+    pt: { title: "Esta tarefa mudou", message: "Outra pessoa atualizou esta tarefa. Atualize para ver como ela está." },
+  },
+};
+
+// API messages are English and written for developers; these are what kids and parents read instead
+const ERROR_REGISTRY: Record<string, ErrorEntry> = {
+  NETWORK_ERROR: {
+    action: "retry",
+    copy: {
+      en: { title: "No connection", message: "Check your internet connection and try again." },
+      pt: { title: "Sem conexão", message: "Verifique sua conexão com a internet e tente de novo." },
+    },
+  },
+  UNAUTHORIZED: {
+    action: "signIn",
+    copy: {
+      en: { title: "Signed out", message: "Your session has ended. Sign in again to continue." },
+      pt: { title: "Sessão encerrada", message: "Sua sessão terminou. Entre de novo para continuar." },
+    },
+  },
+  FORBIDDEN: {
+    copy: {
+      en: { title: "Not allowed", message: "You don't have permission to do this. Ask the list owner if you need it." },
+      pt: { title: "Sem permissão", message: "Você não tem permissão para fazer isso. Peça ao dono da lista se precisar." },
+    },
+  },
+  NOT_FOUND: {
+    action: "goBack",
+    copy: {
+      en: { title: "Not found", message: "This was deleted or you no longer have access to it." },
+      pt: { title: "Não encontrado", message: "Isto foi excluído ou você não tem mais acesso." },
+    },
+  },
+  BAD_REQUEST: {
+    copy: {
+      en: { title: "Check the details", message: (error) => error.message },
+      pt: { title: "Confira os dados", message: (error) => error.message },
+    },
+  },
+  CONFLICT: {
+    copy: {
+      en: { title: "Already exists", message: (error) => error.message },
+      pt: { title: "Já existe", message: (error) => error.message },
+    },
+  },
+  INVALID_TRANSITION,
+  INSUFFICIENT_ENERGY: {
+    action: "earnEnergy",
+    copy: {
+      en: {
+        title: "Not enough energy",
+        message: (error) => {
+          const required = readNumber(error, "required");
+          const available = readNumber(error, "available");
+          return required !== null && available !== null
+            ? `This needs ${required} energy and you have ${available}. Complete tasks to earn more.`
+            : "Complete tasks to earn more energy.";
+        },
+      },
+      pt: {
+        title: "Energia insuficiente",
+        message: (error) => {
+          const required = readNumber(error, "required");
+          const available = readNumber(error, "available");
+          return required !== null && available !== null
+            ? `Isto precisa de ${required} de energia e você tem ${available}. Conclua tarefas para ganhar mais.`
+            : "Conclua tarefas para ganhar mais energia.";
+        },
+      },
+    },
+  },
+  SUBTASKS_INCOMPLETE: {
+    copy: {
+      en: {
+        title: "Subtasks left",
+        message: (error) => {
+          const pending = readNumber(error, "pendingSubtasks");
+          if (pending === 1) return "Tick off the last subtask before completing the task.";
+          return `Tick off the ${pending ?? "remaining"} subtasks before completing the task.`;
+        },
+      },
+      pt: {
+        title: "Subtarefas pendentes",
+        message: (error) => {
+          const pending = readNumber(error, "pendingSubtasks");
+          if (pending === 1) return "Marque a última subtarefa antes de concluir a tarefa.";
+          return pending === null
+            ? "Marque as subtarefas restantes antes de concluir a tarefa."
+            : `Marque as ${pending} subtarefas restantes antes de concluir a tarefa.`;
+        },
+      },
+    },
+  },
+  INVITE_EXPIRED: {
+    action: "goBack",
+    copy: {
+      en: { title: "Invite expired", message: "This invite is no longer valid. Ask the list owner for a new one." },
+      pt: { title: "Convite expirado", message: "Este convite não vale mais. Peça um novo ao dono da lista." },
+    },
+  },
+  JOIN_CODE_EXPIRED: {
+    copy: {
+      en: { title: "Code expired", message: "This code has expired or has been used up. Ask for a new one." },
+      pt: { title: "Código expirado", message: "Este código expirou ou já foi usado. Peça um novo." },
+    },
+  },
+  NOT_IMPLEMENTED: {
+    copy: {
+      en: { title: "Not available yet", message: "This server doesn't support this yet." },
+      pt: { title: "Ainda não disponível", message: "Este servidor ainda não oferece isso." },
+    },
+  },
+  RATE_LIMITED: {
+    action: "retry",
+    copy: {
+      en: {
+        title: "Slow down",
+        message: (error) => {
+          const seconds = readNumber(error, "retryAfterSeconds");
+          return seconds ? `Too many attempts. Try again in ${seconds} seconds.` : "Too many attempts. Wait a minute and try again.";
+        },
+      },
+      pt: {
+        title: "Calma aí",
+        message: (error) => {
+          const seconds = readNumber(error, "retryAfterSeconds");
+          return seconds
+            ? `Muitas tentativas. Tente de novo em ${seconds} segundos.`
+            : "Muitas tentativas. Espere um minuto e tente de novo.";
+        },
+      },
+    },
+  },
+  UPSTREAM_UNAVAILABLE: SERVER_TROUBLE,
+  UPSTREAM_TIMEOUT: SERVER_TROUBLE,
+  UPSTREAM_ERROR: SERVER_TROUBLE,
+  PROXY_ERROR: SERVER_TROUBLE,
+  INTERNAL_ERROR: SERVER_TROUBLE,
+};
+
+const FALLBACK_TITLE: LocalizedText = { en: "Something went wrong", pt: "Algo deu errado" };
+const FALLBACK_MESSAGE: LocalizedText = { en: "Please try again.", pt: "Tente de novo." };
+
+const ACTION_LABELS: Record<Locale, Record<RecoveryAction, string>> = {
+  en: { retry: "Try again", refresh: "Refresh", signIn: "Sign in", goBack: "Go back", earnEnergy: "Find tasks" },
+  pt: { retry: "Tentar de novo", refresh: "Atualizar", signIn: "Entrar", goBack: "Voltar", earnEnergy: "Ver tarefas" },
+};
+
+// The API reports a task in the wrong state for an action as CONFLICT, with the current status in details
+function findEntry(error: ApiError): ErrorEntry | undefined {
+  if (error.code === "CONFLICT" && typeof error.details?.status === "string") {
+    return INVALID_TRANSITION;
+  }
+  return ERROR_REGISTRY[error.code];
+}
+
+function getLocale(): Locale {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale.toLowerCase().startsWith("pt") ? "pt" : "en";
+  } catch {
+    return "en";
+  }
+}
+
+/**
+ * Turns anything a mutation or query threw into the title, message and recovery action to show.
+ * Unregistered API codes fall back to the API's own message, which is readable but English.
+ */
+export function describeApiError(error: unknown, overrides?: ErrorMessageOverrides): ErrorPresentation {
+  const locale = getLocale();
+
+  if (!isApiError(error)) {
+    const message = error instanceof Error && error.message ? error.message : FALLBACK_MESSAGE[locale];
+    return { code: "UNKNOWN_ERROR", title: FALLBACK_TITLE[locale], message };
+  }
+
+  const entry = findEntry(error);
+  const copy = entry?.copy[locale];
+  const registered = copy ? (typeof copy.message === "function" ? copy.message(error) : copy.message) : null;
+  const action = entry?.action;
+
+  return {
+    code: error.code,
+    title: copy?.title || FALLBACK_TITLE[locale],
+    message: overrides?.[error.code]?.[locale] || registered || error.message || FALLBACK_MESSAGE[locale],
+    action,
+    actionLabel: action ? ACTION_LABELS[locale][action] : undefined,
+  };
+}
@@ -13,6 +13,11 @@ type HintItem = {
   entry: LedgerEntry;
 };
 
+type LedgerCursor = {
+  seenLedgerIds: string[];
+  initialized: boolean;
+};
+
 interface GamificationHintsContextType {
   syncFromLedger: () => Promise<void>;
 }
@@ -103,16 +108,14 @@ export function GamificationHintsProvider({ children }: { children: ReactNode })
   const [visibleHints, setVisibleHints] = useState<HintItem[]>([]);
 
   const queueRef = useRef<HintItem[]>([]);
-  const seenLedgerIdsRef = useRef<string[]>([]);
-  const initializedRef = useRef(false);
+  // Kept per account, so switching back on a shared tablet shows what that account earned in the meantime
+  const cursorsRef = useRef(new Map<string, LedgerCursor>());
   const syncingRef = useRef(false);
   const syncQueuedRef = useRef(false);
 
   useEffect(() => {
-    seenLedgerIdsRef.current = [];
     queueRef.current = [];
     setVisibleHints([]);
-    initializedRef.current = false;
   }, [user?.id]);
 
   const flushQueueToVisible = useCallback(() => {
@@ -151,7 +154,8 @@ export function GamificationHintsProvider({ children }: { children: ReactNode })
   );
 
   const syncFromLedger = useCallback(async () => {
-    if (!user?.id) return;
+    const userId = user?.id;
+    if (!userId) return;
 
     if (syncingRef.current) {
       syncQueuedRef.current = true;
@@ -166,14 +170,17 @@ export function GamificationHintsProvider({ children }: { children: ReactNode })
         const response = await apiRequest("GET", "/api/v1/me/ledger");
         const payload = (await response.json()) as { data?: LedgerEntry[] };
         const ledger = payload.data?.slice(0, MAX_LEDGER_FETCH) || [];
+        const cursor = cursorsRef.current.get(userId);
 
-        if (!initializedRef.current) {
-          seenLedgerIdsRef.current = ledger.map((entry) => entry.id).slice(0, MAX_REMEMBERED_LEDGER_IDS);
-          initializedRef.current = true;
+        if (!cursor?.initialized) {
+          cursorsRef.current.set(userId, {
+            seenLedgerIds: ledger.map((entry) => entry.id).slice(0, MAX_REMEMBERED_LEDGER_IDS),
+            initialized: true,
+          });
           continue;
         }
 
-        const seenSet = new Set(seenLedgerIdsRef.current);
+        const seenSet = new Set(cursor.seenLedgerIds);
         const freshEntries: LedgerEntry[] = [];
         for (const entry of ledger) {
           if (seenSet.has(entry.id)) break;
@@ -184,9 +191,9 @@ export function GamificationHintsProvider({ children }: { children: ReactNode })
           enqueueHints(freshEntries.reverse());
         }
 
-        seenLedgerIdsRef.current = [
+        cursor.seenLedgerIds = [
           ...ledger.map((entry) => entry.id),
-          ...seenLedgerIdsRef.current,
+          ...cursor.seenLedgerIds,
         ].slice(0, MAX_REMEMBERED_LEDGER_IDS);
       } while (syncQueuedRef.current);
     } catch {
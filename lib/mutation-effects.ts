@@ -0,0 +1,167 @@
+import { queryClient } from "@/lib/query-client";
+import type { Subtask, TaskComment, TaskDetails } from "@/lib/types";
+
+/** Every app mutation that changes cached data, with what's needed to find the affected queries */
+export type AppMutation =
+  | { kind: "task.create"; listId: string }
+  | { kind: "task.start"; taskId: string }
+  | { kind: "task.complete"; taskId: string }
+  | { kind: "task.approve"; taskId: string }
+  | { kind: "task.reject"; taskId: string }
+  | { kind: "task.approver"; taskId: string }
+  | { kind: "subtask.toggle"; taskId: string; subtaskId: string; isDone: boolean }
+  | { kind: "comment.create"; taskId: string; content: string }
+  | { kind: "comment.vote"; taskId: string; commentId: string; value: -1 | 0 | 1 }
+  | { kind: "feed.dismiss"; feedItemId: string }
+  | { kind: "feed.restore"; feedItemId: string }
+  | { kind: "invite.accept"; token: string };
+
+type Rollback = () => void;
+
+const TASK_LIST_KEYS = ["/api/v1/lists", "/api/v1/feed", "/api/v1/active-tasks", "/api/v1/due-tasks"];
+
+function taskDetailsKey(taskId: string): string {
+  return `/api/v1/tasks/${taskId}/details`;
+}
+
+function taskCommentsKey(taskId: string): string {
+  return `/api/v1/tasks/${taskId}/comments`;
+}
+
+// List task queries are keyed by list, which callers often don't have at hand; the cached task knows it
+function listTasksKey(taskId: string): string[] {
+  const listId = queryClient.getQueryData<TaskDetails>([taskDetailsKey(taskId)])?.task.listId;
+  return listId ? [`/api/v1/lists/${listId}/tasks`] : [];
+}
+
+/**
+ * The queries a mutation can change. This is the one place to update when an endpoint starts
+ * affecting another screen; realtime events cover changes made by other people (lib/realtime.ts).
+ */
+export function getAffectedQueryKeys(mutation: AppMutation): string[] {
+  switch (mutation.kind) {
+    case "task.create":
+      return [`/api/v1/lists/${mutation.listId}/tasks`, ...TASK_LIST_KEYS, "/api/v1/notifications", "/api/v1/me/ledger"];
+    case "task.start":
+    case "task.complete":
+    case "task.approve":
+    case "task.reject":
+    case "task.approver":
+      return [
+        taskDetailsKey(mutation.taskId),
+        taskCommentsKey(mutation.taskId),
+        ...listTasksKey(mutation.taskId),
+        ...TASK_LIST_KEYS,
+        "/api/v1/notifications",
+        "/api/v1/auth/me",
+        "/api/v1/me/ledger",
+      ];
+    case "subtask.toggle":
+      return [taskDetailsKey(mutation.taskId), ...listTasksKey(mutation.taskId), "/api/v1/active-tasks"];
+    case "comment.create":
+    case "comment.vote":
+      return [taskCommentsKey(mutation.taskId), "/api/v1/me/ledger"];
+    case "feed.dismiss":
+    case "feed.restore":
+      return ["/api/v1/feed"];
+    case "invite.accept":
+      return ["/api/v1/lists", "/api/v1/notifications", "/api/v1/feed"];
+  }
+}
+
+export async function invalidateAfterMutation(mutation: AppMutation): Promise<void> {
+  await Promise.all(getAffectedQueryKeys(mutation).map((key) => queryClient.invalidateQueries({ queryKey: [key] })));
+}
+
+/**
+ * `revert` undoes only what `update` touched, on whatever the cache holds by then: other mutations on
+ * the same query may have landed since, and restoring the whole snapshot would erase them.
+ */
+async function updateCache<T>(
+  queryKey: string,
+  update: (current: T) => T,
+  revert: (current: T, previous: T) => T,
+): Promise<Rollback> {
+  // A refetch already in flight would land after the optimistic value and overwrite it
+  await queryClient.cancelQueries({ queryKey: [queryKey] });
+  const previous = queryClient.getQueryData<T>([queryKey]);
+  if (previous === undefined) return () => {};
+
+  queryClient.setQueryData<T>([queryKey], update(previous));
+  return () => queryClient.setQueryData<T>([queryKey], (current) => current && revert(current, previous));
+}
+
+function updateSubtask(details: TaskDetails, subtaskId: string, isDone: (subtask: Subtask) => boolean): TaskDetails {
+  return {
+    ...details,
+    task: {
+      ...details.task,
+      subtasks: details.task.subtasks.map((subtask) =>
+        subtask.id === subtaskId ? { ...subtask, isDone: isDone(subtask) } : subtask,
+      ),
+    },
+  };
+}
+
+function applyVote(comment: TaskComment, value: -1 | 0 | 1): TaskComment {
+  const previous = comment.userVote;
+  return {
+    ...comment,
+    userVote: value,
+    likes: comment.likes + Number(value === 1) - Number(previous === 1),
+    dislikes: comment.dislikes + Number(value === -1) - Number(previous === -1),
+  };
+}
+
+/**
+ * Writes the expected result of a mutation into the cache before the server answers, and returns a
+ * rollback for when it fails. `userId` is who is acting, since starting or completing assigns the task.
+ * Mutations without an obvious result are left alone and just refetch afterwards.
+ */
+export async function applyOptimisticUpdate(mutation: AppMutation, userId?: string): Promise<Rollback> {
+  switch (mutation.kind) {
+    case "subtask.toggle":
+      return updateCache<TaskDetails>(
+        taskDetailsKey(mutation.taskId),
+        (details) => updateSubtask(details, mutation.subtaskId, () => mutation.isDone),
+        (details, previous) => {
+          const before = previous.task.subtasks.find((subtask) => subtask.id === mutation.subtaskId);
+          return before ? updateSubtask(details, mutation.subtaskId, () => before.isDone) : details;
+        },
+      );
+    case "task.start":
+    case "task.complete":
+      return updateCache<TaskDetails>(
+        taskDetailsKey(mutation.taskId),
+        (details) => {
+          const { task } = details;
+          const status =
+            mutation.kind === "task.start" ? "in_progress" : task.needsApproval ? "pending_approval" : "completed";
+          return { ...details, task: { ...task, status, assigneeUserId: userId ?? task.assigneeUserId } };
+        },
+        (details, { task: { status, assigneeUserId } }) => ({
+          ...details,
+          task: { ...details.task, status, assigneeUserId },
+        }),
+      );
+    case "comment.vote":
+      return updateCache<{ data: TaskComment[] }>(
+        taskCommentsKey(mutation.taskId),
+        (comments) => ({
+          ...comments,
+          data: comments.data.map((comment) =>
+            comment.id === mutation.commentId ? applyVote(comment, mutation.value) : comment,
+          ),
+        }),
+        (comments, previous) => {
+          const before = previous.data.find((comment) => comment.id === mutation.commentId);
+          return {
+            ...comments,
+            data: comments.data.map((comment) => (before && comment.id === before.id ? before : comment)),
+          };
+        },
+      );
+    default:
+      return () => {};
+  }
+}
@@ -0,0 +1,166 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import { Platform } from "react-native";
+import { restoreBackgroundSession } from "@/lib/auth-context";
+import { apiRequest } from "@/lib/query-client";
+import { invalidateAfterMutation, type AppMutation } from "@/lib/mutation-effects";
+import { describeApiError } from "@/lib/error-registry";
+import { getNotificationNavigationTarget, isForActiveRecipient } from "@/lib/push-notifications";
+import { PUSH_ACTION_IDS, PUSH_CATEGORIES, type PushActionId } from "@/shared/push";
+
+const HANDLED_ACTIONS_KEY = "taskquest_handled_notification_actions";
+const MAX_HANDLED_ACTIONS = 50;
+const NOTIFICATION_ACTION_TASK = "taskquest-notification-action";
+// A press replayed on launch (getLastNotificationResponseAsync) may be days old; past this, the task
+// has likely moved on and the action is dropped
+const ACTION_REPLAY_WINDOW_MS = 5 * 60_000;
+
+const ACTION_BUTTONS: Record<PushActionId, Notifications.NotificationAction> = {
+  approve: { identifier: "approve", buttonTitle: "Approve", options: { opensAppToForeground: false } },
+  reject: {
+    identifier: "reject",
+    buttonTitle: "Reject",
+    textInput: { submitButtonTitle: "Reject", placeholder: "Why? (at least 5 characters)" },
+    options: { opensAppToForeground: false, isDestructive: true },
+  },
+  start: { identifier: "start", buttonTitle: "Start", options: { opensAppToForeground: false } },
+  accept: { identifier: "accept", buttonTitle: "Accept", options: { opensAppToForeground: false } },
+};
+
+const ACTION_LABELS: Record<PushActionId, string> = {
+  approve: "approve",
+  reject: "reject",
+  start: "start",
+  accept: "accept the invite for",
+};
+
+export async function registerNotificationCategories(): Promise<void> {
+  if (Platform.OS === "web") {
+    return;
+  }
+
+  await Promise.all(
+    Object.values(PUSH_CATEGORIES).map((category) =>
+      Notifications.setNotificationCategoryAsync(
+        category.id,
+        category.actions.map((action) => ACTION_BUTTONS[action]),
+      ),
+    ),
+  );
+}
+
+export function isNotificationAction(actionIdentifier: string): actionIdentifier is PushActionId {
+  return (PUSH_ACTION_IDS as readonly string[]).includes(actionIdentifier);
+}
+
+// Responses claimed by this JS runtime, so the background task and the listener can't both run one
+const claimedResponses = new Set<string>();
+
+// The last response is replayed on every launch, so each action must only run once
+async function claimResponse(key: string): Promise<boolean> {
+  if (claimedResponses.has(key)) {
+    return false;
+  }
+  claimedResponses.add(key);
+  const stored = await AsyncStorage.getItem(HANDLED_ACTIONS_KEY);
+  const handled: string[] = stored ? JSON.parse(stored) : [];
+  if (handled.includes(key)) {
+    return false;
+  }
+  await AsyncStorage.setItem(HANDLED_ACTIONS_KEY, JSON.stringify([key, ...handled].slice(0, MAX_HANDLED_ACTIONS)));
+  return true;
+}
+
+type ActionRequest = { route: string; body?: unknown; mutation: AppMutation };
+
+function getActionRequest(action: PushActionId, data: unknown, userText: string | undefined): ActionRequest | null {
+  const target = getNotificationNavigationTarget(data);
+  if (action === "accept") {
+    return target.type === "invite"
+      ? { route: `/api/v1/invites/${target.token}/accept`, mutation: { kind: "invite.accept", token: target.token } }
+      : null;
+  }
+  if (target.type !== "task") {
+    return null;
+  }
+  const { taskId } = target;
+  if (action === "reject") {
+    return {
+      route: `/api/v1/tasks/${taskId}/reject`,
+      body: { reason: userText?.trim() || "" },
+      mutation: { kind: "task.reject", taskId },
+    };
+  }
+  return { route: `/api/v1/tasks/${taskId}/${action}`, mutation: { kind: `task.${action}`, taskId } };
+}
+
+function describeSubject(data: Record<string, unknown>, fallback: string | null): string {
+  const subject = data.taskTitle || data.listName;
+  return typeof subject === "string" && subject ? subject : fallback || "this notification";
+}
+
+/** Runs an action button (approve, reject, start, accept) without bringing the app to the foreground */
+export async function performNotificationAction(response: Notifications.NotificationResponse): Promise<void> {
+  const action = response.actionIdentifier;
+  const { identifier, content } = response.notification.request;
+  if (!isNotificationAction(action) || !isForActiveRecipient(content.data)) {
+    return;
+  }
+  if (!(await claimResponse(`${identifier}:${action}`))) {
+    return;
+  }
+
+  const request = getActionRequest(action, content.data, response.userText);
+  try {
+    if (!request) {
+      throw new Error("This notification no longer points to a task or invite");
+    }
+    await apiRequest("POST", request.route, request.body);
+    await Notifications.dismissNotificationAsync(identifier);
+    await invalidateAfterMutation(request.mutation);
+  } catch (error) {
+    // Nothing is on screen to show the failure, so report it the same way the action arrived
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `Could not ${ACTION_LABELS[action]} "${describeSubject(content.data, content.title)}"`,
+        body: describeApiError(error).message,
+        data: content.data,
+      },
+      trigger: null,
+    });
+  }
+}
+
+/** True for a press replayed on launch whose notification arrived too long ago to act on now */
+export function isStaleActionResponse(response: Notifications.NotificationResponse): boolean {
+  return Date.now() - response.notification.date > ACTION_REPLAY_WINDOW_MS;
+}
+
+// Nothing on screen has signed in yet when the press wakes the app, so the stored session is used
+async function performActionInBackground(response: Notifications.NotificationResponse): Promise<void> {
+  await restoreBackgroundSession();
+  await performNotificationAction(response);
+}
+
+// Defined when this module loads, which the root layout makes happen at startup, so a press that
+// launches the app runs before (and without) any screen
+if (Platform.OS !== "web") {
+  // Android runs this task for a press while the app is in the background or killed
+  TaskManager.defineTask<Notifications.NotificationTaskPayload>(NOTIFICATION_ACTION_TASK, async ({ data, error }) => {
+    if (error || !data || !("actionIdentifier" in data)) {
+      return;
+    }
+    await performActionInBackground(data);
+  });
+  Notifications.registerTaskAsync(NOTIFICATION_ACTION_TASK).catch((error) =>
+    console.warn("[notifications] Failed to register the action task", error),
+  );
+
+  // iOS wakes the app in the background and hands the press to a listener instead
+  Notifications.addNotificationResponseReceivedListener((response) => {
+    if (isNotificationAction(response.actionIdentifier)) {
+      void performActionInBackground(response);
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { useInfiniteQuery, useMutation, type InfiniteData } from "@tanstack/react-query";
+import { ApiError } from "@/lib/api-error";
+import { useAuth } from "@/lib/auth-context";
+import { apiRequest, authorizedFetch, getApiUrl, queryClient } from "@/lib/query-client";
+import type { NotificationBulkResponse, NotificationResponse } from "@/lib/types";
+
+// Nested under the summary key used by the tab badge, so invalidating notifications refreshes both
+export const NOTIFICATION_INBOX_KEY = ["/api/v1/notifications", "inbox"];
+
+const INBOX_PAGE_SIZE = 20;
+
+type InboxData = InfiniteData<NotificationResponse, string | undefined>;
+
+export type NotificationBulkAction = "read-all" | "archive" | "delete";
+
+export function useNotificationInbox() {
+  const { isAuthenticated } = useAuth();
+  return useInfiniteQuery<NotificationResponse, Error, InboxData, string[], string | undefined>({
+    queryKey: NOTIFICATION_INBOX_KEY,
+    queryFn: async ({ pageParam }) => {
+      const url = new URL("/api/v1/notifications", getApiUrl());
+      url.searchParams.set("limit", String(INBOX_PAGE_SIZE));
+      if (pageParam) url.searchParams.set("cursor", pageParam);
+      const res = await authorizedFetch(url.toString());
+      if (!res.ok) throw await ApiError.fromResponse(res);
+      return res.json();
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    enabled: isAuthenticated,
+  });
+}
+
+function applyBulkAction(data: InboxData, action: NotificationBulkAction, ids: Set<string>): InboxData {
+  const readAt = new Date().toISOString();
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      data:
+        action === "read-all"
+          ? page.data.map((n) => (n.isRead ? n : { ...n, isRead: true, readAt }))
+          : page.data.filter((n) => !ids.has(n.id)),
+    })),
+  };
+}
+
+function setUnreadCount(unreadCount: number) {
+  queryClient.setQueryData<NotificationResponse>(["/api/v1/notifications"], (summary) =>
+    summary ? { ...summary, unreadCount } : summary,
+  );
+  queryClient.setQueryData<InboxData>(NOTIFICATION_INBOX_KEY, (inbox) =>
+    inbox ? { ...inbox, pages: inbox.pages.map((page) => ({ ...page, unreadCount })) } : inbox,
+  );
+}
+
+/**
+ * Marks everything read, or archives/deletes the given notifications. The inbox updates right away
+ * and the server's unread count then feeds the tab and app icon badges before the refetch lands.
+ */
+export function useNotificationBulkAction() {
+  return useMutation({
+    mutationFn: async ({ action, ids = [] }: { action: NotificationBulkAction; ids?: string[] }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/v1/notifications/${action}`,
+        action === "read-all" ? undefined : { ids },
+      );
+      return (await res.json()) as NotificationBulkResponse;
+    },
+    onMutate: async ({ action, ids = [] }) => {
+      await queryClient.cancelQueries({ queryKey: NOTIFICATION_INBOX_KEY });
+      const previous = queryClient.getQueryData<InboxData>(NOTIFICATION_INBOX_KEY);
+      if (previous) {
+        queryClient.setQueryData(NOTIFICATION_INBOX_KEY, applyBulkAction(previous, action, new Set(ids)));
+      }
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(NOTIFICATION_INBOX_KEY, context.previous);
+      }
+    },
+    onSuccess: (result) => {
+      setUnreadCount(result.unreadCount);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/notifications"] });
+    },
+  });
+}
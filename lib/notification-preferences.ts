@@ -0,0 +1,45 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { apiRequest, queryClient } from "@/lib/query-client";
+import type { NotificationPreferences, StoredNotificationPreferences } from "@/shared/notification-preferences";
+
+export const NOTIFICATION_PREFERENCES_KEY = ["/api/notification-preferences"];
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function useNotificationPreferences() {
+  const { isAuthenticated } = useAuth();
+  return useQuery<StoredNotificationPreferences>({
+    queryKey: NOTIFICATION_PREFERENCES_KEY,
+    enabled: isAuthenticated,
+  });
+}
+
+/** Saves the whole preferences document, applying it locally right away and rolling back on failure */
+export function useUpdateNotificationPreferences() {
+  return useMutation({
+    mutationFn: async (preferences: NotificationPreferences) => {
+      const res = await apiRequest("PUT", "/api/notification-preferences", preferences);
+      return (await res.json()) as StoredNotificationPreferences;
+    },
+    onMutate: async (preferences) => {
+      await queryClient.cancelQueries({ queryKey: NOTIFICATION_PREFERENCES_KEY });
+      const previous = queryClient.getQueryData<StoredNotificationPreferences>(NOTIFICATION_PREFERENCES_KEY);
+      queryClient.setQueryData<StoredNotificationPreferences>(NOTIFICATION_PREFERENCES_KEY, {
+        ...preferences,
+        updatedAt: previous?.updatedAt ?? null,
+      });
+      return { previous };
+    },
+    onError: (_error, _preferences, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(NOTIFICATION_PREFERENCES_KEY, context.previous);
+      }
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(NOTIFICATION_PREFERENCES_KEY, saved);
+    },
+  });
+}
@@ -0,0 +1,292 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { AppState } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { onlineManager } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/query-client";
+import { isApiError, isNetworkError } from "@/lib/api-error";
+import { describeApiError } from "@/lib/error-registry";
+import { useAuth } from "@/lib/auth-context";
+import { getAffectedQueryKeys, type AppMutation } from "@/lib/mutation-effects";
+import type { TaskCommentCollectionResponse } from "@/lib/types";
+
+const OUTBOX_KEY = "taskquest_outbox";
+// How far the server's clock may run behind the device's when matching a comment that already landed
+const COMMENT_CLOCK_SKEW_MS = 2 * 60_000;
+
+/** The task actions that can be done without signal and sent later */
+export type OutboxMutation = Extract<
+  AppMutation,
+  { kind: "subtask.toggle" | "task.start" | "task.complete" | "comment.create" }
+>;
+
+type OutboxEntry = {
+  id: string;
+  userId: string;
+  mutation: OutboxMutation;
+  /** Task title at the time, for conflict messages shown after the task may have changed */
+  label: string;
+  queuedAt: number;
+  /**
+   * When it was first sent. A send that timed out may still have reached the server, so from then on
+   * the entry can be a duplicate; see alreadyDelivered.
+   */
+  sentAt?: number;
+};
+
+/** A queued change the server turned down on replay; kept until the user dismisses it */
+export type OutboxConflict = { id: string; message: string };
+
+export type OutboxStatus = {
+  isOnline: boolean;
+  pending: number;
+  isSyncing: boolean;
+  conflicts: OutboxConflict[];
+};
+
+let entries: OutboxEntry[] = [];
+let loaded: Promise<void> | null = null;
+let currentUserId: string | null = null;
+let status: OutboxStatus = { isOnline: onlineManager.isOnline(), pending: 0, isSyncing: false, conflicts: [] };
+const listeners = new Set<() => void>();
+
+function setStatus(next: Partial<OutboxStatus>) {
+  status = { ...status, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function userEntries(): OutboxEntry[] {
+  return entries.filter((entry) => entry.userId === currentUserId);
+}
+
+function loadEntries(): Promise<void> {
+  loaded ??= AsyncStorage.getItem(OUTBOX_KEY)
+    .then((stored) => {
+      entries = stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+    })
+    .catch(() => {
+      entries = [];
+    })
+    .finally(() => setStatus({ pending: userEntries().length }));
+  return loaded;
+}
+
+async function saveEntries(next: OutboxEntry[]) {
+  entries = next;
+  setStatus({ pending: userEntries().length });
+  await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+}
+
+function toRequest(mutation: OutboxMutation): { method: string; route: string; body?: unknown } {
+  switch (mutation.kind) {
+    case "subtask.toggle":
+      return { method: "PATCH", route: `/api/v1/subtasks/${mutation.subtaskId}`, body: { isDone: mutation.isDone } };
+    case "task.start":
+      return { method: "POST", route: `/api/v1/tasks/${mutation.taskId}/start` };
+    case "task.complete":
+      return { method: "POST", route: `/api/v1/tasks/${mutation.taskId}/complete` };
+    case "comment.create":
+      return { method: "POST", route: `/api/v1/tasks/${mutation.taskId}/comments`, body: { content: mutation.content } };
+  }
+}
+
+function describeConflict(entry: OutboxEntry, error: unknown): string {
+  const { kind } = entry.mutation;
+  const subject = `"${entry.label}"`;
+  if (!isApiError(error)) {
+    return `Your change to ${subject} was not saved.`;
+  }
+
+  const { status, details } = error;
+
+  if (status === 404) {
+    return `${subject} was deleted before your change synced.`;
+  }
+  if (status === 409) {
+    const current = details?.status;
+    if (kind === "task.complete" && (current === "completed" || current === "pending_approval")) {
+      return `${subject} was already completed by someone else.`;
+    }
+    if (kind === "task.start" && current !== "open" && current !== "cancelled") {
+      return `${subject} was already started by someone else.`;
+    }
+    if (current === "cancelled") {
+      return `${subject} was cancelled before your change synced.`;
+    }
+  }
+  return `Your change to ${subject} was not saved: ${describeApiError(error).message}`;
+}
+
+/**
+ * Whether a 409 on a resent start or complete is the server reporting our own earlier send, which
+ * got through even though its response never came back: the task is already where this change moves it.
+ */
+function isOwnEarlierSend(entry: OutboxEntry, error: unknown): boolean {
+  if (entry.sentAt === undefined || !isApiError(error) || error.status !== 409) return false;
+  const current = error.details?.status;
+  switch (entry.mutation.kind) {
+    case "task.start":
+      return current === "in_progress" || current === "pending_approval" || current === "completed";
+    case "task.complete":
+      return current === "pending_approval" || current === "completed";
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether an earlier send of this entry got through even though its response never came back.
+ * Comments are the one queued change that isn't idempotent, so before a retry the task's comments are
+ * checked for the same text by the same author, posted no earlier than the first send. Every page is
+ * read, since the comment being looked for is the newest one.
+ */
+async function alreadyDelivered(entry: OutboxEntry): Promise<boolean> {
+  const { mutation, sentAt } = entry;
+  if (mutation.kind !== "comment.create" || sentAt === undefined) return false;
+
+  let cursor: string | null | undefined;
+  do {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    const res = await apiRequest("GET", `/api/v1/tasks/${mutation.taskId}/comments${query}`);
+    // The contract returns every comment at once today; a paged answer is followed all the same
+    const page = (await res.json()) as TaskCommentCollectionResponse & { nextCursor?: string | null };
+    const found = page.data.some(
+      (comment) =>
+        comment.author.id === entry.userId &&
+        comment.content === mutation.content &&
+        Date.parse(comment.createdAt) >= sentAt - COMMENT_CLOCK_SKEW_MS,
+    );
+    if (found) return true;
+    cursor = page.nextCursor;
+  } while (cursor);
+  return false;
+}
+
+// Server errors and rate limits are worth another try; anything else is the server saying no
+function shouldRetryLater(error: unknown): boolean {
+  if (!isApiError(error)) return false;
+  const { status } = error;
+  return isNetworkError(error) || status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+let replaying: Promise<void> | null = null;
+
+/**
+ * Sends the signed-in user's queued changes in the order they were made. Stops at the first one that
+ * can't get through right now, so later changes never overtake it; changes the server rejects are
+ * dropped and reported as conflicts.
+ */
+export function replayOutbox(): Promise<void> {
+  replaying ??= (async () => {
+    await loadEntries();
+    if (!currentUserId || userEntries().length === 0 || !onlineManager.isOnline()) return;
+
+    setStatus({ isSyncing: true });
+    const affectedKeys = new Set<string>();
+    const conflicts: OutboxConflict[] = [];
+
+    // Changes queued while replaying join the end of the line and go out in this same pass
+    let entry: OutboxEntry | undefined;
+    while ((entry = userEntries()[0])) {
+      const { id, mutation } = entry;
+      const { method, route, body } = toRequest(mutation);
+      try {
+        if (!(await alreadyDelivered(entry))) {
+          if (entry.sentAt === undefined) {
+            await saveEntries(entries.map((queued) => (queued.id === id ? { ...queued, sentAt: Date.now() } : queued)));
+          }
+          await apiRequest(method, route, body);
+        }
+      } catch (error) {
+        if (shouldRetryLater(error)) break;
+        if (!isOwnEarlierSend(entry, error)) conflicts.push({ id, message: describeConflict(entry, error) });
+      }
+      getAffectedQueryKeys(mutation).forEach((key) => affectedKeys.add(key));
+      await saveEntries(entries.filter((queued) => queued.id !== id));
+    }
+
+    setStatus({ isSyncing: false, conflicts: [...status.conflicts, ...conflicts] });
+    affectedKeys.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+  })().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+/**
+ * Sends a task change now, or queues it when there's no connection (or older changes are still
+ * waiting, so the order is kept). Resolves with `queued: true` when it will be sent later; callers
+ * show the change with applyOptimisticUpdate and keep it in the cache while it's queued.
+ */
+export async function sendOrQueue(mutation: OutboxMutation, label: string): Promise<{ queued: boolean }> {
+  await loadEntries();
+
+  let sentAt: number | undefined;
+  if (onlineManager.isOnline() && userEntries().length === 0) {
+    const { method, route, body } = toRequest(mutation);
+    sentAt = Date.now();
+    try {
+      await apiRequest(method, route, body);
+      return { queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  if (!currentUserId) {
+    throw new Error("Sign in again to save this change");
+  }
+
+  const entry: OutboxEntry = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    userId: currentUserId,
+    mutation,
+    label,
+    queuedAt: Date.now(),
+    sentAt,
+  };
+  await saveEntries([...entries, entry]);
+  if (onlineManager.isOnline()) void replayOutbox();
+  return { queued: true };
+}
+
+export function dismissOutboxConflict(id: string) {
+  setStatus({ conflicts: status.conflicts.filter((conflict) => conflict.id !== id) });
+}
+
+export function useOutboxStatus(): OutboxStatus {
+  return useSyncExternalStore(subscribe, () => status, () => status);
+}
+
+/** Keeps the outbox pointed at the signed-in user and replays it on launch, reconnect and foreground */
+export function useOutboxSync() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    currentUserId = userId;
+    setStatus({ pending: userEntries().length, conflicts: [] });
+    if (userId) void replayOutbox();
+  }, [userId]);
+
+  useEffect(() => {
+    const unsubscribeOnline = onlineManager.subscribe((isOnline) => {
+      setStatus({ isOnline });
+      if (isOnline) void replayOutbox();
+    });
+    const appStateSubscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") void replayOutbox();
+    });
+
+    return () => {
+      unsubscribeOnline();
+      appStateSubscription.remove();
+    };
+  }, []);
+}
@@ -0,0 +1,47 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Href } from "expo-router";
+
+const PENDING_INVITE_KEY = "taskquest_pending_invite";
+
+// Long enough to install the app and sign up, short enough that a stale invite doesn't hijack a later login
+const PENDING_INVITE_TTL_MS = 7 * 24 * 60 * 60_000;
+
+type PendingInvite = { token: string; savedAt: number };
+
+/** Remembers the invite a signed-out user opened, so it survives the trip through login or registration */
+export async function savePendingInvite(token: string): Promise<void> {
+  const pending: PendingInvite = { token, savedAt: Date.now() };
+  await AsyncStorage.setItem(PENDING_INVITE_KEY, JSON.stringify(pending));
+}
+
+export async function clearPendingInvite(): Promise<void> {
+  await AsyncStorage.removeItem(PENDING_INVITE_KEY);
+}
+
+async function takePendingInvite(): Promise<string | null> {
+  const stored = await AsyncStorage.getItem(PENDING_INVITE_KEY);
+  if (!stored) return null;
+
+  await clearPendingInvite();
+  try {
+    const pending = JSON.parse(stored) as PendingInvite;
+    return Date.now() - pending.savedAt < PENDING_INVITE_TTL_MS ? pending.token : null;
+  } catch {
+    return null;
+  }
+}
+
+// Only in-app paths, so a crafted login link can't send a fresh sign-in somewhere else
+function isReturnPath(path: string | undefined): path is string {
+  return !!path && path.startsWith("/") && !path.startsWith("//") && !/^\/(login|register)\b/.test(path);
+}
+
+/**
+ * Where to go once signed in: back to a pending invite, which then accepts itself, else to `returnTo`
+ * (the screen a session expired on), else the home tabs.
+ */
+export async function getPostAuthRoute(returnTo?: string): Promise<Href> {
+  const token = await takePendingInvite().catch(() => null);
+  if (token) return { pathname: "/invite/[token]", params: { token, accept: "1" } };
+  return isReturnPath(returnTo) ? (returnTo as Href) : "/(tabs)";
+}
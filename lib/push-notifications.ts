@@ -1,44 +1,71 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import Constants from "expo-constants";
 import * as Notifications from "expo-notifications";
+import { fetch } from "expo/fetch";
 import { Platform } from "react-native";
-import { apiRequest } from "@/lib/query-client";
+import { apiRequest, getApiUrl } from "@/lib/query-client";
+import { subscribeToWebPush, unsubscribeFromWebPush, type WebPushSubscription } from "@/lib/web-push";
+import { getNotificationLinkTarget, parseDeepLinkUrl, type DeepLinkTarget } from "@/shared/deep-links";
+import { PUSH_CHANNELS, type PushChannelImportance, type PushProvider } from "@/shared/push";
 
 const PUSH_TOKEN_KEY = "taskquest_push_token";
+const SERVER_PUSH_KEY = "taskquest_server_push";
+const PUSH_DEVICE_KEY = "taskquest_push_device";
+// Unregisters that didn't reach the BFF yet, retried on every launch and sign-in
+const PENDING_UNREGISTER_KEY = "taskquest_push_pending_unregister";
 
-Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowBanner: true,
-    shouldShowList: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-  }),
-});
+type PendingUnregister = { userId: string; token: string; provider: PushProvider };
 
-export type NotificationNavigationTarget =
-  | { type: "task"; taskId: string }
-  | { type: "invite"; token: string }
-  | { type: "notifications" };
+// The signed-in user; a push addressed to anyone else that arrives while the app is open is not shown
+let activeRecipientId: string | null = null;
 
-function readString(value: unknown): string | null {
-  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+export function setPushRecipient(userId: string | null) {
+  activeRecipientId = userId;
 }
 
-function getInviteToken(data: Record<string, unknown>): string | null {
-  const directToken =
-    readString(data.token) || readString(data.inviteToken) || readString(data.invite_token);
+// Registrations are kept per account: the BFF moves a token to whichever account registers it last,
+// so switching accounts on a shared tablet registers it again for the one now in use
+function accountKey(key: string, userId = activeRecipientId): string {
+  return userId ? `${key}.${userId}` : key;
+}
 
-  if (directToken) {
-    return directToken;
-  }
+/**
+ * False for notifications addressed to someone other than the signed-in user. This only covers pushes that
+ * arrive in the foreground: in the background the OS shows them unfiltered, so a signed-out account must
+ * be unregistered from the BFF (unregisterPushTokenFromBackend) to stop its pushes reaching this device.
+ */
+export function isForActiveRecipient(data: unknown): boolean {
+  const recipientId = data && typeof data === "object" ? readString((data as Record<string, unknown>).recipientId) : null;
+  return !recipientId || recipientId === activeRecipientId;
+}
 
-  const invitePath = readString(data.invitePath) || readString(data.invite_path) || readString(data.path);
-  if (!invitePath) {
-    return null;
-  }
+Notifications.setNotificationHandler({
+  handleNotification: async (notification) => {
+    const show = isForActiveRecipient(notification.request.content.data);
+    return {
+      shouldShowBanner: show,
+      shouldShowList: show,
+      shouldPlaySound: show,
+      shouldSetBadge: show,
+    };
+  },
+});
+
+export type PushRegistration =
+  | { provider: "expo"; token: string }
+  | { provider: "webpush"; token: string; subscription: WebPushSubscription };
+
+const ANDROID_IMPORTANCE: Record<PushChannelImportance, Notifications.AndroidImportance> = {
+  high: Notifications.AndroidImportance.HIGH,
+  default: Notifications.AndroidImportance.DEFAULT,
+  low: Notifications.AndroidImportance.LOW,
+};
 
-  const match = invitePath.match(/invites\/(.+)$/);
-  return match?.[1] ? match[1] : null;
+/** Pushes point anywhere a universal link can; see DEEP_LINK_ROUTES in shared/deep-links.ts */
+export type NotificationNavigationTarget = DeepLinkTarget;
+
+function readString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
 }
 
 export function getNotificationNavigationTarget(data: unknown): NotificationNavigationTarget {
@@ -47,17 +74,8 @@ export function getNotificationNavigationTarget(data: unknown): NotificationNavi
   }
 
   const payload = data as Record<string, unknown>;
-  const taskId = readString(payload.taskId) || readString(payload.task_id);
-  if (taskId) {
-    return { type: "task", taskId };
-  }
-
-  const token = getInviteToken(payload);
-  if (token) {
-    return { type: "invite", token };
-  }
-
-  return { type: "notifications" };
+  const url = readString(payload.url);
+  return (url && parseDeepLinkUrl(url)) || getNotificationLinkTarget(payload);
 }
 
 function getProjectId(): string | undefined {
@@ -66,20 +84,42 @@ function getProjectId(): string | undefined {
   return readString(expoProjectId) || readString(easProjectId) || undefined;
 }
 
-export async function registerForPushToken(): Promise<string | null> {
-  if (Platform.OS !== "ios") {
-    return null;
-  }
+// Android 13+ only shows the permission prompt once a channel exists, so channels are created first
+async function ensureAndroidChannels(): Promise<void> {
+  await Promise.all(
+    Object.values(PUSH_CHANNELS).map((channel) =>
+      Notifications.setNotificationChannelAsync(channel.id, {
+        name: channel.name,
+        description: channel.description,
+        importance: ANDROID_IMPORTANCE[channel.importance],
+        sound: "default",
+        showBadge: true,
+      }),
+    ),
+  );
+}
 
+async function requestNativePermission(): Promise<boolean> {
   const permissions = await Notifications.getPermissionsAsync();
-  let finalStatus = permissions.status;
+  if (permissions.status === "granted") {
+    return true;
+  }
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.status === "granted";
+}
+
+export async function registerForPushToken(): Promise<PushRegistration | null> {
+  if (Platform.OS === "web") {
+    const subscription = await subscribeToWebPush();
+    return subscription ? { provider: "webpush", token: subscription.endpoint, subscription } : null;
+  }
 
-  if (finalStatus !== "granted") {
-    const requested = await Notifications.requestPermissionsAsync();
-    finalStatus = requested.status;
+  if (Platform.OS === "android") {
+    await ensureAndroidChannels();
   }
 
-  if (finalStatus !== "granted") {
+  if (!(await requestNativePermission())) {
     return null;
   }
 
@@ -88,53 +128,148 @@ export async function registerForPushToken(): Promise<string | null> {
     ? await Notifications.getExpoPushTokenAsync({ projectId })
     : await Notifications.getExpoPushTokenAsync();
 
-  return readString(tokenResponse.data);
+  const token = readString(tokenResponse.data);
+  return token ? { provider: "expo", token } : null;
 }
 
 export async function syncPushTokenWithBackend(): Promise<void> {
   try {
-    const token = await registerForPushToken();
-    if (!token) {
+    // A token still registered to a signed-out account must be released before it's registered again
+    await flushPendingPushUnregisters();
+    const registration = await registerForPushToken();
+    if (!registration) {
       return;
     }
 
     if (__DEV__) {
-      console.log("[push] Expo token", token);
-    }
-
-    const cachedToken = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
-    if (cachedToken === token) {
-      return;
+      console.log(`[push] ${registration.provider} token`, registration.token);
     }
 
-    await apiRequest("POST", "/api/push/register", {
-      token,
+    // Registered on every sign-in and launch: it also lets the BFF resume background pushes after a restart
+    const res = await apiRequest("POST", "/api/push/register", {
+      ...registration,
       platform: Platform.OS,
-      provider: "expo",
+      deviceName: Constants.deviceName || (Platform.OS === "web" ? "Web browser" : null),
       appVersion: Constants.expoConfig?.version || null,
     });
+    const device = (await res.json().catch(() => null)) as { id?: string; serverDispatch?: boolean } | null;
 
-    await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+    await AsyncStorage.setItem(accountKey(PUSH_TOKEN_KEY), registration.token);
+    await AsyncStorage.setItem(accountKey(SERVER_PUSH_KEY), device?.serverDispatch ? "1" : "0");
+    if (device?.id) {
+      await AsyncStorage.setItem(accountKey(PUSH_DEVICE_KEY), device.id);
+    }
   } catch (error) {
     console.warn("[push] Failed to sync push token", error);
   }
 }
 
-export async function unregisterPushTokenFromBackend(): Promise<void> {
+async function readPendingUnregisters(): Promise<PendingUnregister[]> {
+  const stored = await AsyncStorage.getItem(PENDING_UNREGISTER_KEY);
   try {
-    const token = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
-    if (!token) {
+    return stored ? (JSON.parse(stored) as PendingUnregister[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Without the access token: the account's session may already have expired, and holding the token is
+// what the BFF checks then. Naming the account keeps a token that has since moved to another one registered.
+async function sendUnregister(pending: PendingUnregister): Promise<boolean> {
+  try {
+    const res = await fetch(new URL("/api/push/unregister", getApiUrl()).toString(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...pending, platform: Platform.OS }),
+    });
+    // Other client errors won't get better by retrying
+    return res.ok || (res.status >= 400 && res.status < 500 && res.status !== 429);
+  } catch {
+    return false;
+  }
+}
+
+async function sendPendingUnregisters(): Promise<void> {
+  try {
+    const pending = await readPendingUnregisters();
+    if (pending.length === 0) return;
+
+    const sent = await Promise.all(pending.map(sendUnregister));
+    // Re-read: an unregister may have been queued while these were in flight
+    const remaining = (await readPendingUnregisters()).filter(
+      (entry) => !pending.some((done, index) => sent[index] && done.token === entry.token && done.userId === entry.userId),
+    );
+    await AsyncStorage.setItem(PENDING_UNREGISTER_KEY, JSON.stringify(remaining));
+  } catch (error) {
+    console.warn("[push] Failed to send pending unregisters", error);
+  }
+}
+
+let flushing: Promise<void> = Promise.resolve();
+
+/** Sends the unregisters still waiting from an offline sign-out; called on launch and before registering */
+export function flushPendingPushUnregisters(): Promise<void> {
+  // Runs after any flush already in progress, so an unregister queued meanwhile goes out too
+  flushing = flushing.then(sendPendingUnregisters);
+  return flushing;
+}
+
+/**
+ * Stops pushes for an account (the signed-in one by default) reaching this device. The unregister is queued
+ * first and retried on the next launch or sign-in if the BFF can't be reached, since a signed-out account's
+ * pushes would otherwise keep showing here while the app is in the background.
+ */
+export async function unregisterPushTokenFromBackend(userId = activeRecipientId): Promise<void> {
+  try {
+    const token = userId ? await AsyncStorage.getItem(accountKey(PUSH_TOKEN_KEY, userId)) : null;
+    if (!userId || !token) {
       return;
     }
 
-    await apiRequest("POST", "/api/push/unregister", {
-      token,
-      platform: Platform.OS,
-      provider: "expo",
-    });
+    const pending = await readPendingUnregisters();
+    const provider: PushProvider = Platform.OS === "web" ? "webpush" : "expo";
+    await AsyncStorage.setItem(PENDING_UNREGISTER_KEY, JSON.stringify([...pending, { userId, token, provider }]));
+    await forgetPushRegistration(userId);
+    // The browser drops the subscription right away, so Web Push stops even while the BFF is unreachable
+    if (Platform.OS === "web") {
+      await unsubscribeFromWebPush();
+    }
+    await flushPendingPushUnregisters();
   } catch (error) {
     console.warn("[push] Failed to unregister push token", error);
-  } finally {
-    await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
   }
 }
+
+/**
+ * Clears an account's local registration (the signed-in one by default), e.g. after this device was
+ * revoked from the Devices list or the account was removed from the device
+ */
+export async function forgetPushRegistration(userId = activeRecipientId): Promise<void> {
+  await AsyncStorage.multiRemove([
+    accountKey(PUSH_TOKEN_KEY, userId),
+    accountKey(SERVER_PUSH_KEY, userId),
+    accountKey(PUSH_DEVICE_KEY, userId),
+  ]);
+}
+
+/** Mirrors the inbox unread count on the app icon; web has no icon badge to keep in sync */
+export async function setAppBadgeCount(count: number): Promise<void> {
+  if (Platform.OS === "web") {
+    return;
+  }
+  try {
+    await Notifications.setBadgeCountAsync(count);
+  } catch (error) {
+    console.warn("[push] Failed to update the app badge", error);
+  }
+}
+
+/** Registry id of this device, used to mark it in the Devices list */
+export async function getCurrentPushDeviceId(): Promise<string | null> {
+  return AsyncStorage.getItem(accountKey(PUSH_DEVICE_KEY));
+}
+
+/** True when the BFF pushes notifications to this device, so the app must not raise them locally as well */
+export async function isServerPushActive(): Promise<boolean> {
+  return (await AsyncStorage.getItem(accountKey(SERVER_PUSH_KEY))) === "1";
+}
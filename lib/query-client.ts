@@ -1,5 +1,16 @@
 import { fetch } from "expo/fetch";
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import { QueryClient, QueryFunction, hydrate, onlineManager } from "@tanstack/react-query";
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import type { PersistQueryClientOptions, Persister } from "@tanstack/react-query-persist-client";
+import { ApiError } from "@/lib/api-error";
+
+// Long enough to open the app in a garage the next morning and still see yesterday's lists
+const QUERY_CACHE_MAX_AGE = 24 * 60 * 60_000;
+
+// Bump when a cached response shape changes, so old caches are dropped instead of rendered
+const QUERY_CACHE_VERSION = "1";
 
 let _authToken: string | null = null;
 
@@ -33,16 +44,79 @@ export function getApiUrl(): string {
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw await ApiError.fromResponse(res);
   }
 }
 
-function buildHeaders(data?: unknown): Record<string, string> {
-  const headers: Record<string, string> = {};
-  if (data) headers["Content-Type"] = "application/json";
-  if (_authToken) headers["Authorization"] = `Bearer ${_authToken}`;
-  return headers;
+/** How the auth provider renews and ends sessions; registered while it's mounted */
+export type SessionHandlers = {
+  /** Trades the refresh token for a new access token, or null when the session can't be renewed */
+  refresh: () => Promise<string | null>;
+  /** Signs out after a rejected request couldn't be fixed by refreshing */
+  onExpired: () => void;
+};
+
+let sessionHandlers: SessionHandlers | null = null;
+let refreshInFlight: Promise<string | null> | null = null;
+
+export function setSessionHandlers(handlers: SessionHandlers | null) {
+  sessionHandlers = handlers;
+}
+
+export function hasSessionHandlers(): boolean {
+  return sessionHandlers !== null;
+}
+
+// Refresh tokens are single use, so requests that get a 401 together wait on the same exchange
+function refreshAccessToken(handlers: SessionHandlers): Promise<string | null> {
+  refreshInFlight ??= handlers.refresh().finally(() => {
+    refreshInFlight = null;
+  });
+  return refreshInFlight;
+}
+
+type AuthorizedRequestInit = {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+};
+
+/**
+ * fetch with the session's bearer token. A 401 renews the session once and repeats the request;
+ * if it can't be renewed the auth provider signs out, and the 401 comes back to the caller as usual.
+ */
+export async function authorizedFetch(url: string, init: AuthorizedRequestInit = {}): Promise<Response> {
+  const send = async (token: string | null) => {
+    const headers = { ...init.headers };
+    if (token) headers["Authorization"] = `Bearer ${token}`;
+    try {
+      return await fetch(url, { ...init, headers });
+    } catch (error) {
+      throw ApiError.network(error);
+    }
+  };
+
+  const sentToken = _authToken;
+  const res = await send(sentToken);
+  const handlers = sessionHandlers;
+  if (res.status !== 401 || !sentToken || !handlers || !_authToken) {
+    return res;
+  }
+
+  // Another request may have renewed the session while this one was in flight
+  if (_authToken !== sentToken) {
+    return send(_authToken);
+  }
+
+  const token = await refreshAccessToken(handlers);
+  if (token) {
+    return send(token);
+  }
+  if (_authToken === sentToken) {
+    handlers.onExpired();
+  }
+  return res;
 }
 
 export async function apiRequest(
@@ -53,9 +127,9 @@ export async function apiRequest(
   const baseUrl = getApiUrl();
   const url = new URL(route, baseUrl);
 
-  const res = await fetch(url.toString(), {
+  const res = await authorizedFetch(url.toString(), {
     method,
-    headers: buildHeaders(data),
+    headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
   });
 
@@ -76,12 +150,7 @@ export const getQueryFn: <T>(options: {
       url.searchParams.set("cursor", String(pageParam));
     }
 
-    const headers: Record<string, string> = {};
-    if (_authToken) headers["Authorization"] = `Bearer ${_authToken}`;
-
-    const res = await fetch(url.toString(), {
-      headers,
-    });
+    const res = await authorizedFetch(url.toString());
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -91,6 +160,13 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// Queries pause while offline and refetch on reconnect instead of failing against a dead connection
+onlineManager.setEventListener((setOnline) =>
+  NetInfo.addEventListener((state) => {
+    setOnline(state.isConnected !== false);
+  }),
+);
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -98,10 +174,75 @@ export const queryClient = new QueryClient({
       refetchInterval: false,
       refetchOnWindowFocus: false,
       staleTime: 30000,
+      // Kept as long as the persisted copy, or restored entries would be garbage collected right away
+      gcTime: QUERY_CACHE_MAX_AGE,
       retry: false,
     },
     mutations: {
+      // Mutations run (and fail) offline rather than pausing in memory; the ones that matter
+      // offline go through the outbox in lib/offline-outbox.ts, which survives a restart
+      networkMode: "always",
       retry: false,
     },
   },
 });
+
+const QUERY_CACHE_KEY_PREFIX = "taskquest_query_cache.";
+// Before accounts had caches of their own, a single one was saved under this key
+void AsyncStorage.removeItem("taskquest_query_cache");
+
+// Each account has its own persister, so a throttled save still pending after a switch lands in the right place
+const accountPersisters = new Map<string, Persister>();
+let cacheAccountId: string | null = null;
+
+function getAccountPersister(accountId: string): Persister {
+  let persister = accountPersisters.get(accountId);
+  if (!persister) {
+    persister = createAsyncStoragePersister({ storage: AsyncStorage, key: QUERY_CACHE_KEY_PREFIX + accountId });
+    accountPersisters.set(accountId, persister);
+  }
+  return persister;
+}
+
+const accountScopedPersister: Persister = {
+  persistClient: async (client) => {
+    if (cacheAccountId) await getAccountPersister(cacheAccountId).persistClient(client);
+  },
+  restoreClient: async () => (cacheAccountId ? getAccountPersister(cacheAccountId).restoreClient() : undefined),
+  removeClient: async () => {
+    if (cacheAccountId) await getAccountPersister(cacheAccountId).removeClient();
+  },
+};
+
+export const queryPersistOptions: Omit<PersistQueryClientOptions, "queryClient"> = {
+  persister: accountScopedPersister,
+  maxAge: QUERY_CACHE_MAX_AGE,
+  buster: QUERY_CACHE_VERSION,
+};
+
+/**
+ * Swaps the in-memory cache for the one saved for `accountId` (nothing, with null). The previous
+ * account's cache stays saved for when it's switched back to.
+ */
+export async function switchQueryCache(accountId: string | null): Promise<void> {
+  // Nothing is saved while the cache holds neither account's data
+  cacheAccountId = null;
+  queryClient.clear();
+  cacheAccountId = accountId;
+  if (!accountId) return;
+
+  // What PersistQueryClientProvider does on launch, for an account switched to later
+  const persister = getAccountPersister(accountId);
+  const persisted = await persister.restoreClient();
+  if (!persisted) return;
+  if (persisted.buster !== QUERY_CACHE_VERSION || Date.now() - persisted.timestamp > QUERY_CACHE_MAX_AGE) {
+    await persister.removeClient();
+    return;
+  }
+  hydrate(queryClient, persisted.clientState);
+}
+
+export async function removeQueryCache(accountId: string): Promise<void> {
+  accountPersisters.delete(accountId);
+  await AsyncStorage.removeItem(QUERY_CACHE_KEY_PREFIX + accountId);
+}
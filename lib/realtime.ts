@@ -0,0 +1,174 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { AppState } from "react-native";
+import { authorizedFetch, getApiUrl, queryClient } from "@/lib/query-client";
+import { useAuth } from "@/lib/auth-context";
+import { useGamificationHints } from "@/lib/gamification-hints";
+
+const MIN_RECONNECT_DELAY = 1_000;
+const MAX_RECONNECT_DELAY = 30_000;
+
+export type RealtimeEvent = {
+  type: "task.updated" | "comment.created" | "list.updated" | "notifications.changed" | "ledger.changed";
+  taskId?: string;
+  listId?: string;
+  action?: string;
+};
+
+let connected = false;
+const statusListeners = new Set<() => void>();
+
+function setConnected(next: boolean) {
+  if (connected === next) return;
+  connected = next;
+  statusListeners.forEach((listener) => listener());
+}
+
+function subscribeStatus(listener: () => void) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export function useRealtimeConnected(): boolean {
+  return useSyncExternalStore(subscribeStatus, () => connected, () => false);
+}
+
+function applyEvent(event: RealtimeEvent, syncFromLedger: () => Promise<void>) {
+  const { taskId, listId } = event;
+
+  switch (event.type) {
+    case "task.updated":
+      if (taskId) queryClient.invalidateQueries({ queryKey: [`/api/v1/tasks/${taskId}/details`] });
+      if (listId) queryClient.invalidateQueries({ queryKey: [`/api/v1/lists/${listId}/tasks`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/feed"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/active-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/due-tasks"] });
+      return;
+    case "comment.created":
+      if (taskId) queryClient.invalidateQueries({ queryKey: [`/api/v1/tasks/${taskId}/comments`] });
+      return;
+    case "list.updated":
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/lists"] });
+      if (listId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/v1/lists/${listId}/members`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/v1/lists/${listId}/join-codes`] });
+      }
+      return;
+    case "notifications.changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/notifications"] });
+      return;
+    case "ledger.changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/me/ledger"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/v1/auth/me"] });
+      void syncFromLedger();
+      return;
+  }
+}
+
+function parseEventBlock(block: string): RealtimeEvent | null {
+  const data = block
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trim())
+    .join("\n");
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as RealtimeEvent;
+  } catch {
+    return null;
+  }
+}
+
+async function readEventStream(
+  signal: AbortSignal,
+  onEvent: (event: RealtimeEvent) => void,
+): Promise<void> {
+  const res = await authorizedFetch(new URL("/api/realtime/events", getApiUrl()).toString(), {
+    headers: { Accept: "text/event-stream" },
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    throw new Error(`${res.status}: realtime stream unavailable`);
+  }
+
+  setConnected(true);
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() || "";
+
+    for (const block of blocks) {
+      const event = parseEventBlock(block);
+      if (event) onEvent(event);
+    }
+  }
+}
+
+export function useRealtimeEvents() {
+  const { isAuthenticated } = useAuth();
+  const { syncFromLedger } = useGamificationHints();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    let cancelled = false;
+    let controller: AbortController | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let delay = MIN_RECONNECT_DELAY;
+
+    const connect = async () => {
+      if (cancelled || controller) return;
+      controller = new AbortController();
+
+      try {
+        await readEventStream(controller.signal, (event) => {
+          delay = MIN_RECONNECT_DELAY;
+          applyEvent(event, syncFromLedger);
+        });
+      } catch {
+      } finally {
+        controller = null;
+        setConnected(false);
+      }
+
+      if (!cancelled && AppState.currentState === "active") {
+        reconnectTimer = setTimeout(connect, delay);
+        delay = Math.min(delay * 2, MAX_RECONNECT_DELAY);
+      }
+    };
+
+    // Streams are dropped by the OS in the background; reconnect and catch up on resume
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "active") {
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        delay = MIN_RECONNECT_DELAY;
+        queryClient.invalidateQueries({ queryKey: ["/api/v1/notifications"] });
+        void connect();
+      } else if (nextState === "background") {
+        controller?.abort();
+      }
+    });
+
+    void connect();
+
+    return () => {
+      cancelled = true;
+      subscription.remove();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      controller?.abort();
+      setConnected(false);
+    };
+  }, [isAuthenticated, syncFromLedger]);
+}
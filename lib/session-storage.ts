@@ -0,0 +1,163 @@
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import type { UserProfile } from "@/lib/types";
+
+// One entry per account on this device, keyed by user id
+const SESSION_KEY_PREFIX = "taskquest_session.";
+const PIN_KEY_PREFIX = "taskquest_pin.";
+const PIN_FAILURES_KEY_PREFIX = "taskquest_pin_failures.";
+// Where versions with a single account kept their session, and before that a bare access token
+const SINGLE_SESSION_KEY = "taskquest_session";
+const SINGLE_PROFILE_KEY = "taskquest_profile";
+const LEGACY_TOKEN_KEY = "taskquest_token";
+
+const MAX_PIN_ATTEMPTS = 5;
+// The first lockout; each one after it doubles, up to the maximum
+const PIN_LOCKOUT_MS = 30_000;
+const MAX_PIN_LOCKOUT_MS = 60 * 60_000;
+
+/** The tokens a sign-in returns; `refreshToken` is missing when the API doesn't renew sessions */
+export type StoredSession = {
+  accessToken: string;
+  refreshToken?: string;
+};
+
+type StoredPin = { salt: string; hash: string };
+
+/** Misses since the last right PIN; kept with the PIN so relaunching the app doesn't reset them */
+type PinFailures = { count: number; lockedUntil: number };
+
+// Keychain / Keystore on devices; the web has no encrypted storage, so it stays in localStorage there
+async function readSecure(key: string): Promise<string | null> {
+  return Platform.OS === "web" ? AsyncStorage.getItem(key) : SecureStore.getItemAsync(key);
+}
+
+async function writeSecure(key: string, value: string): Promise<void> {
+  if (Platform.OS === "web") {
+    await AsyncStorage.setItem(key, value);
+  } else {
+    await SecureStore.setItemAsync(key, value);
+  }
+}
+
+async function deleteSecure(key: string): Promise<void> {
+  if (Platform.OS === "web") {
+    await AsyncStorage.removeItem(key);
+  } else {
+    await SecureStore.deleteItemAsync(key);
+  }
+}
+
+async function readSecureJson<T>(key: string): Promise<T | null> {
+  const stored = await readSecure(key);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveSession(userId: string, session: StoredSession): Promise<void> {
+  await writeSecure(SESSION_KEY_PREFIX + userId, JSON.stringify(session));
+}
+
+export async function loadSession(userId: string): Promise<StoredSession | null> {
+  const session = await readSecureJson<StoredSession>(SESSION_KEY_PREFIX + userId);
+  return session?.accessToken ? session : null;
+}
+
+export async function clearSession(userId: string): Promise<void> {
+  await deleteSecure(SESSION_KEY_PREFIX + userId);
+}
+
+/**
+ * The session an older, single-account version left behind, so upgrading doesn't sign anyone out.
+ * The profile is missing for a bare legacy token; the caller looks it up with the token.
+ */
+export async function readSingleAccountSession(): Promise<{ session: StoredSession; profile: UserProfile | null } | null> {
+  const stored = await readSecureJson<StoredSession>(SINGLE_SESSION_KEY);
+  const legacyToken = await AsyncStorage.getItem(LEGACY_TOKEN_KEY);
+  const session = stored?.accessToken ? stored : legacyToken ? { accessToken: legacyToken } : null;
+  if (!session) return null;
+
+  const profileJson = await AsyncStorage.getItem(SINGLE_PROFILE_KEY);
+  try {
+    return { session, profile: profileJson ? (JSON.parse(profileJson) as UserProfile) : null };
+  } catch {
+    return { session, profile: null };
+  }
+}
+
+/** Called once the single-account session is saved as an account */
+export async function forgetSingleAccountSession(): Promise<void> {
+  await deleteSecure(SINGLE_SESSION_KEY);
+  await AsyncStorage.multiRemove([LEGACY_TOKEN_KEY, SINGLE_PROFILE_KEY]);
+}
+
+async function hashPin(pin: string, salt: string): Promise<string> {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+}
+
+/** Sets or, with null, removes the PIN asked for before switching into an account */
+export async function saveAccountPin(userId: string, pin: string | null): Promise<void> {
+  await deleteSecure(PIN_FAILURES_KEY_PREFIX + userId);
+  if (pin === null) {
+    await deleteSecure(PIN_KEY_PREFIX + userId);
+    return;
+  }
+  const salt = Array.from(Crypto.getRandomBytes(16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  const stored: StoredPin = { salt, hash: await hashPin(pin, salt) };
+  await writeSecure(PIN_KEY_PREFIX + userId, JSON.stringify(stored));
+}
+
+export type PinCheck = { ok: true } | { ok: false; lockedForSeconds: number | null } | { ok: false; isMissing: true };
+
+// A record that can't be read counts as a full lockout rather than a clean slate
+async function readPinFailures(userId: string): Promise<PinFailures> {
+  const stored = await readSecure(PIN_FAILURES_KEY_PREFIX + userId);
+  if (!stored) return { count: 0, lockedUntil: 0 };
+  try {
+    const failures = JSON.parse(stored) as PinFailures;
+    if (Number.isInteger(failures.count) && typeof failures.lockedUntil === "number") return failures;
+  } catch {
+    // Fall through to the lockout below
+  }
+  return { count: MAX_PIN_ATTEMPTS, lockedUntil: Date.now() + PIN_LOCKOUT_MS };
+}
+
+function lockoutMs(count: number): number {
+  const lockouts = Math.floor(count / MAX_PIN_ATTEMPTS);
+  return Math.min(PIN_LOCKOUT_MS * 2 ** (lockouts - 1), MAX_PIN_LOCKOUT_MS);
+}
+
+/**
+ * Checks a PIN, locking the account after every few misses, for longer each time, so a 4-digit PIN
+ * can't be walked. `isMissing` means the PIN is gone from secure storage (e.g. restored to a new
+ * device); the caller falls back to the password instead of letting anyone in.
+ */
+export async function verifyAccountPin(userId: string, pin: string): Promise<PinCheck> {
+  const failures = await readPinFailures(userId);
+  if (failures.lockedUntil > Date.now()) {
+    return { ok: false, lockedForSeconds: Math.ceil((failures.lockedUntil - Date.now()) / 1000) };
+  }
+
+  const stored = await readSecureJson<StoredPin>(PIN_KEY_PREFIX + userId);
+  if (!stored?.salt || !stored.hash) {
+    return { ok: false, isMissing: true };
+  }
+
+  // The miss is written before the check, so quitting the app mid-check doesn't get a free try
+  const count = failures.count + 1;
+  const locked = count % MAX_PIN_ATTEMPTS === 0;
+  const lockedUntil = locked ? Date.now() + lockoutMs(count) : 0;
+  await writeSecure(PIN_FAILURES_KEY_PREFIX + userId, JSON.stringify({ count, lockedUntil } satisfies PinFailures));
+
+  if ((await hashPin(pin, stored.salt)) === stored.hash) {
+    await deleteSecure(PIN_FAILURES_KEY_PREFIX + userId);
+    return { ok: true };
+  }
+  return { ok: false, lockedForSeconds: locked ? Math.ceil((lockedUntil - Date.now()) / 1000) : null };
+}
@@ -0,0 +1,242 @@
+import { useEffect, useRef } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { onSavedAccountRemoved } from "@/lib/accounts";
+import { useAuth } from "@/lib/auth-context";
+import { NOTIFICATION_PREFERENCES_KEY } from "@/lib/notification-preferences";
+import { queryClient } from "@/lib/query-client";
+import type { DueTasksResponse, Task } from "@/lib/types";
+import { isWithinQuietHours, type StoredNotificationPreferences } from "@/shared/notification-preferences";
+import { PUSH_CHANNELS } from "@/shared/push";
+
+export type TaskReminderOffset = "at_due" | "1h_before" | "1d_before" | "morning_of";
+
+export const TASK_REMINDER_OPTIONS: { value: TaskReminderOffset; label: string }[] = [
+  { value: "morning_of", label: "Morning of" },
+  { value: "1d_before", label: "1 day before" },
+  { value: "1h_before", label: "1 hour before" },
+  { value: "at_due", label: "When due" },
+];
+
+/** Used until the user picks reminders for a task on its detail screen */
+export const DEFAULT_TASK_REMINDERS: TaskReminderOffset[] = ["1h_before"];
+
+export const DUE_TASKS_KEY = ["/api/v1/due-tasks"];
+
+// Per-task choices, one map per account (`taskquest_task_reminders.<userId>`); the bare key is where
+// versions before multiple accounts kept them
+const TASK_REMINDERS_KEY = "taskquest_task_reminders";
+const REMINDER_ID_PREFIX = "task-reminder:";
+const MORNING_HOUR = 9;
+
+type ReminderTask = Pick<Task, "id" | "title" | "status" | "assigneeUserId" | "dueAt">;
+
+// Local reminders are scheduled with the OS, so they fire on the subway even when the BFF is out of reach
+const supported = Platform.OS !== "web";
+
+// Each sync reads the schedule and rewrites it; running them one at a time keeps them from interleaving
+let queue: Promise<void> = Promise.resolve();
+
+function enqueue(work: () => Promise<void>): Promise<void> {
+  queue = queue.then(work).catch((error) => console.warn("[reminders] Failed to update reminders", error));
+  return queue;
+}
+
+function isReminderEligible(task: ReminderTask, userId: string): boolean {
+  return (
+    !!task.dueAt && task.assigneeUserId === userId && (task.status === "open" || task.status === "in_progress")
+  );
+}
+
+function getReminderDate(offset: TaskReminderOffset, dueAt: Date): Date | null {
+  switch (offset) {
+    case "at_due":
+      return dueAt;
+    case "1h_before":
+      return new Date(dueAt.getTime() - 60 * 60_000);
+    case "1d_before":
+      return new Date(dueAt.getTime() - 24 * 60 * 60_000);
+    case "morning_of": {
+      const morning = new Date(dueAt);
+      morning.setHours(MORNING_HOUR, 0, 0, 0);
+      // Tasks due before 9am have no morning left to remind in
+      return morning < dueAt ? morning : null;
+    }
+  }
+}
+
+function describeReminder(offset: TaskReminderOffset, dueAt: Date): string {
+  switch (offset) {
+    case "at_due":
+      return "Due now";
+    case "1h_before":
+      return `Due in an hour, at ${format(dueAt, "HH:mm")}`;
+    case "1d_before":
+      return `Due tomorrow at ${format(dueAt, "HH:mm")}`;
+    case "morning_of":
+      return `Due today at ${format(dueAt, "HH:mm")}`;
+  }
+}
+
+function remindersKey(userId: string): string {
+  return `${TASK_REMINDERS_KEY}.${userId}`;
+}
+
+async function readStoredOffsets(userId: string): Promise<Record<string, TaskReminderOffset[]>> {
+  const stored = await AsyncStorage.getItem(remindersKey(userId));
+  if (stored) return JSON.parse(stored);
+
+  // The single-account choices belong to whoever reads them first, which is the account signed in then
+  const legacy = await AsyncStorage.getItem(TASK_REMINDERS_KEY);
+  if (!legacy) return {};
+  await AsyncStorage.setItem(remindersKey(userId), legacy);
+  await AsyncStorage.removeItem(TASK_REMINDERS_KEY);
+  return JSON.parse(legacy);
+}
+
+export async function getTaskReminderOffsets(taskId: string, userId: string): Promise<TaskReminderOffset[]> {
+  return (await readStoredOffsets(userId))[taskId] ?? DEFAULT_TASK_REMINDERS;
+}
+
+async function getScheduledReminderIds(): Promise<string[]> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  return scheduled.map((request) => request.identifier).filter((id) => id.startsWith(REMINDER_ID_PREFIX));
+}
+
+async function cancelReminders(ids: string[]): Promise<void> {
+  await Promise.all(ids.map((id) => Notifications.cancelScheduledNotificationAsync(id)));
+}
+
+async function scheduleReminders(task: ReminderTask, userId: string, offsets: TaskReminderOffset[]): Promise<void> {
+  const dueAt = new Date(task.dueAt!);
+  const quietHours = queryClient.getQueryData<StoredNotificationPreferences>(NOTIFICATION_PREFERENCES_KEY)?.quietHours;
+  const now = Date.now();
+
+  for (const offset of offsets) {
+    const date = getReminderDate(offset, dueAt);
+    // The OS fires these without asking us, so quiet hours are applied when scheduling instead
+    if (!date || date.getTime() <= now || (quietHours && isWithinQuietHours(quietHours, date))) {
+      continue;
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${REMINDER_ID_PREFIX}${task.id}:${offset}`,
+      content: {
+        title: task.title,
+        body: describeReminder(offset, dueAt),
+        data: { type: "task_reminder", taskId: task.id, recipientId: userId },
+        sound: "default",
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date,
+        channelId: PUSH_CHANNELS.task_reminder.id,
+      },
+    });
+  }
+}
+
+async function rescheduleTask(task: ReminderTask, userId: string, scheduledIds: string[]): Promise<void> {
+  await cancelReminders(scheduledIds.filter((id) => id.startsWith(`${REMINDER_ID_PREFIX}${task.id}:`)));
+  if (isReminderEligible(task, userId)) {
+    await scheduleReminders(task, userId, await getTaskReminderOffsets(task.id, userId));
+  }
+}
+
+/**
+ * Brings the schedule in line with the tasks the user still has to do: the listed tasks are rescheduled,
+ * and when the list is `complete` reminders for tasks missing from it (completed, reassigned, no longer
+ * due) are cancelled. A partial list only adds, so a list the server couldn't read keeps its reminders.
+ * Per-task choices are never dropped here; a task merely missing from the list may come back.
+ */
+export function syncTaskReminders(tasks: ReminderTask[], userId: string, complete: boolean): Promise<void> {
+  if (!supported) return Promise.resolve();
+
+  return enqueue(async () => {
+    const eligible = tasks.filter((task) => isReminderEligible(task, userId));
+    const eligibleIds = new Set(eligible.map((task) => task.id));
+    const scheduledIds = await getScheduledReminderIds();
+
+    if (complete) {
+      await cancelReminders(
+        scheduledIds.filter((id) => !eligibleIds.has(id.slice(REMINDER_ID_PREFIX.length).split(":")[0])),
+      );
+    }
+    for (const task of eligible) {
+      await rescheduleTask(task, userId, scheduledIds);
+    }
+  });
+}
+
+/**
+ * Reschedules (or cancels) one task as soon as its details change, without waiting for the next full sync.
+ * This sees the task itself, so a completed or cancelled one also loses its reminder choices here.
+ */
+export function refreshTaskReminders(task: ReminderTask, userId: string): Promise<void> {
+  return enqueue(async () => {
+    if (task.status === "completed" || task.status === "cancelled") {
+      const { [task.id]: finished, ...kept } = await readStoredOffsets(userId);
+      if (finished) await AsyncStorage.setItem(remindersKey(userId), JSON.stringify(kept));
+    }
+    if (supported) {
+      await rescheduleTask(task, userId, await getScheduledReminderIds());
+    }
+  });
+}
+
+export function setTaskReminderOffsets(
+  task: ReminderTask,
+  userId: string,
+  offsets: TaskReminderOffset[],
+): Promise<void> {
+  return enqueue(async () => {
+    const stored = await readStoredOffsets(userId);
+    await AsyncStorage.setItem(remindersKey(userId), JSON.stringify({ ...stored, [task.id]: offsets }));
+    if (supported) {
+      await rescheduleTask(task, userId, await getScheduledReminderIds());
+    }
+  });
+}
+
+/**
+ * The OS reminders belong to whoever is signed in, so they're cancelled when the account changes; the
+ * next sync schedules the new account's. Per-task choices stay, for switching back.
+ */
+function cancelTaskReminders(): Promise<void> {
+  if (!supported) return Promise.resolve();
+  return enqueue(async () => cancelReminders(await getScheduledReminderIds()));
+}
+
+// Choices are only dropped with the account itself
+onSavedAccountRemoved((userId) => {
+  void enqueue(() => AsyncStorage.removeItem(remindersKey(userId)));
+});
+
+/** Keeps reminders for every task assigned to the signed-in user in sync; mounted once in the root layout */
+export function useTaskReminderSync() {
+  const { user, isAuthenticated } = useAuth();
+  const previousUserId = useRef<string | null>(null);
+  const { data } = useQuery<DueTasksResponse>({
+    queryKey: DUE_TASKS_KEY,
+    enabled: isAuthenticated && supported,
+  });
+
+  // Declared first so the cancel is queued ahead of the new account's sync
+  useEffect(() => {
+    const userId = user?.id ?? null;
+    if (previousUserId.current && previousUserId.current !== userId) {
+      void cancelTaskReminders();
+    }
+    previousUserId.current = userId;
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (data && user?.id) {
+      // Cached answers from before `complete` existed count as partial
+      void syncTaskReminders(data.data, user.id, data.complete === true);
+    }
+  }, [data, user?.id]);
+}
@@ -1,232 +1,92 @@
-export interface RegisterRequest {
-  name: string;
-  email: string;
-  password: string;
-}
-
-export interface LoginRequest {
-  email: string;
-  password: string;
-}
-
-export interface AuthResponse {
-  accessToken: string;
-  user: UserProfile;
-}
-
-export interface UserProfile {
-  id: string;
-  name: string;
-  email: string;
-  avatarUrl?: string | null;
-  totalXp: number;
-  level: number;
-  xpToNextLevel: number;
-  creationXpBalance: number;
-}
-
-export interface TaskList {
-  id: string;
-  ownerUserId: string;
-  name: string;
-  description?: string | null;
-  isShared: boolean;
-}
-
-export interface CreateListRequest {
-  name: string;
-  description?: string | null;
-}
-
-export interface ListMember {
-  id: string;
-  userId: string;
-  role: "owner" | "admin" | "member";
-  status: "active" | "pending";
-  name: string;
-  email: string;
-  avatarUrl?: string | null;
-  invitePath?: string | null;
-  createdAt: string;
-}
-
-export interface Task {
-  id: string;
-  listId: string;
-  creatorUserId: string;
-  assigneeUserId?: string | null;
-  approverUserId?: string | null;
-  title: string;
-  description?: string | null;
-  dueAt?: string | null;
-  rewardXp: number;
-  needsApproval: boolean;
-  status: "open" | "in_progress" | "pending_approval" | "completed" | "cancelled";
-  completedAt?: string | null;
-  subtasks: Subtask[];
-}
-
-export interface CreateTaskRequest {
-  title: string;
-  description?: string | null;
-  dueAt?: string | null;
-  rewardXp: number;
-  needsApproval: boolean;
-  assigneeUserId?: string | null;
-  approverUserId?: string | null;
-}
-
-export interface UpdateTaskApproverRequest {
-  approverUserId: string;
-}
-
-export interface Subtask {
-  id: string;
-  taskId: string;
-  title: string;
-  isDone: boolean;
-}
-
-export interface TaskDetails {
-  task: Task;
-  creator: TaskUserSummary;
-  assignee?: TaskUserSummary | null;
-  assignableUsers: TaskUserSummary[];
-  canManageAssignee: boolean;
-}
-
-export interface TaskUserSummary {
-  id: string;
-  name: string;
-  avatarUrl?: string | null;
-}
-
-export interface TaskComment {
-  id: string;
-  taskId: string;
-  parentCommentId?: string | null;
-  author: TaskUserSummary;
-  content: string;
-  likes: number;
-  dislikes: number;
-  userVote: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface FeedItem {
-  id: string;
-  type: string;
-  actorUserId?: string | null;
-  targetUserId?: string | null;
-  taskId?: string | null;
-  listId?: string | null;
-  payload: Record<string, unknown>;
-  createdAt: string;
-}
-
-export interface FeedResponse {
-  data: FeedItem[];
-  nextCursor?: string | null;
-}
-
-export interface Notification {
-  id: string;
-  type: string;
-  title: string;
-  message: string;
-  taskId?: string | null;
-  isRead: boolean;
-  readAt?: string | null;
-  payload: Record<string, unknown>;
-  createdAt: string;
-}
-
-export interface NotificationResponse {
-  data: Notification[];
-  unreadCount: number;
-}
-
-export interface LeaderboardEntry {
-  userId: string;
-  name: string;
-  avatarUrl?: string | null;
-  totalXp: number;
-  level: number;
-  completedTasks: number;
+import type { Task } from "@/lib/api/types.gen";
+import type { PushProvider } from "@/shared/push";
+
+// API contract types are generated from .local/openapi.yaml; run `npm run api:generate` after editing the spec
+// and add any new schema here. The generated FeedItem/FeedResponse are left out on purpose, see below.
+export type {
+  RegisterRequest,
+  LoginRequest,
+  RefreshSessionRequest,
+  AuthResponse,
+  UserProfile,
+  CreateListRequest,
+  CreateListInviteRequest,
+  CreateListInviteResponse,
+  ListInviteResponse,
+  AcceptListInviteResponse,
+  CreateJoinCodeRequest,
+  ListJoinCode,
+  JoinCodeListResponse,
+  JoinCodePreviewResponse,
+  AddListMemberRequest,
+  UpdateListMemberRoleRequest,
+  ListMember,
+  ListMemberCollectionResponse,
+  TaskList,
+  TaskListCollectionResponse,
+  CreateTaskRequest,
+  UpdateTaskStatusRequest,
+  UpdateTaskApproverRequest,
+  UpdateTaskAssigneeRequest,
+  CreateSubtaskRequest,
+  UpdateSubtaskRequest,
+  RejectTaskRequest,
+  Task,
+  TaskCollectionResponse,
+  Subtask,
+  TaskUserSummary,
+  TaskDetails,
+  CreateTaskCommentRequest,
+  VoteTaskCommentRequest,
+  TaskComment,
+  TaskCommentCollectionResponse,
+  Notification,
+  NotificationResponse,
+  NotificationBulkRequest,
+  NotificationBulkResponse,
+  LedgerEntry,
+  LedgerResponse,
+  XPSuggestionRequest,
+  XPSuggestionResponse,
+  LeaderboardEntry,
+  LeaderboardResponse,
+  ErrorResponse,
+} from "@/lib/api/types.gen";
+
+// The BFF rewrites /feed into this versioned format, which replaces the generated FeedItem/FeedResponse
+export type { FeedItem, FeedItemType, FeedPayload, FeedResponse } from "@/shared/feed";
+export type { PushProvider } from "@/shared/push";
+
+export interface ActiveTask extends Task {
+  listName: string;
 }
 
-export interface LeaderboardResponse {
-  data: LeaderboardEntry[];
+export interface ActiveTasksResponse {
+  data: ActiveTask[];
+  total: number;
   nextCursor?: string | null;
 }
 
-export interface XPSuggestionResponse {
-  suggestedXp: number;
-  justification: string;
+/** GET /api/v1/due-tasks: every open or in-progress task assigned to me that has a due date */
+export interface DueTasksResponse {
+  data: ActiveTask[];
+  /** False when a list couldn't be read; a task missing from `data` may then still be due */
+  complete: boolean;
 }
 
-export interface LedgerEntry {
+/** A device registered for push notifications, as listed by GET /api/push/devices */
+export interface PushDevice {
   id: string;
-  resourceType: "xp" | "energy";
-  direction: "credit" | "debit";
-  amount: number;
-  sourceType: string;
-  sourceId?: string | null;
-  balanceAfter: number;
-  metadata: Record<string, unknown>;
-  createdAt: string;
-}
-
-export interface ErrorResponse {
-  error: {
-    code: string;
-    message: string;
-    details?: Record<string, unknown>;
-  };
-}
-
-export interface CreateListInviteRequest {
-  email: string;
-}
-
-export interface CreateListInviteResponse {
-  token: string;
-  invitePath: string;
-  email: string;
-  role: string;
-  expiresAt: string;
-}
-
-export interface ListInviteResponse {
-  listId: string;
-  listName: string;
-  role: "owner" | "admin" | "member";
-  invitedByName: string;
-  expiresAt: string;
-  acceptedAt?: string | null;
-  revokedAt?: string | null;
-}
-
-export interface AcceptListInviteResponse {
-  listId: string;
-}
-
-export interface CreateSubtaskRequest {
-  title: string;
-}
-
-export interface VoteTaskCommentRequest {
-  value: -1 | 0 | 1;
-}
-
-export interface CreateTaskCommentRequest {
-  content: string;
-  parentCommentId?: string | null;
+  provider: PushProvider;
+  deviceName: string | null;
+  platform: string | null;
+  appVersion: string | null;
+  registeredAt: string;
+  lastSeenAt: string;
 }
 
-export interface RejectTaskRequest {
-  reason: string;
+export interface PushDevicesResponse {
+  data: PushDevice[];
 }
 
 export type TaskStatus = Task["status"];
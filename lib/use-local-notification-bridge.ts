@@ -3,10 +3,23 @@ import { AppState, type AppStateStatus } from "react-native";
 import * as Notifications from "expo-notifications";
 import { useQuery } from "@tanstack/react-query";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { onSavedAccountRemoved } from "@/lib/accounts";
 import { useAuth } from "@/lib/auth-context";
+import { useNotificationPreferences } from "@/lib/notification-preferences";
+import { isServerPushActive } from "@/lib/push-notifications";
+import { useRealtimeConnected } from "@/lib/realtime";
 import type { NotificationResponse, Notification } from "@/lib/types";
-
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  shouldAlertNotification,
+  type NotificationPreferences,
+} from "@/shared/notification-preferences";
+import { getPushCategoryId, getPushChannelId } from "@/shared/push";
+
+// One marker per account (`taskquest_last_seen_notif.<userId>`), so switching accounts on a shared
+// device neither replays nor skips anyone's notifications; the bare key is the single-account one
 const LAST_SEEN_KEY = "taskquest_last_seen_notif";
+// Fallback only: while the realtime stream is up, notification changes are pushed
 const POLL_INTERVAL = 30_000;
 
 const NOTIF_TITLES: Record<string, string> = {
@@ -26,17 +39,30 @@ function buildNotifData(notification: Notification): Record<string, unknown> {
   return data;
 }
 
-async function getLastSeenTimestamp(): Promise<number> {
-  const stored = await AsyncStorage.getItem(LAST_SEEN_KEY);
+function lastSeenKey(userId: string): string {
+  return `${LAST_SEEN_KEY}.${userId}`;
+}
+
+async function getLastSeenTimestamp(userId: string): Promise<number> {
+  const stored = (await AsyncStorage.getItem(lastSeenKey(userId))) ?? (await AsyncStorage.getItem(LAST_SEEN_KEY));
   return stored ? Number(stored) : 0;
 }
 
-async function setLastSeenTimestamp(ts: number): Promise<void> {
-  await AsyncStorage.setItem(LAST_SEEN_KEY, String(ts));
+async function setLastSeenTimestamp(userId: string, ts: number): Promise<void> {
+  await AsyncStorage.setItem(lastSeenKey(userId), String(ts));
+  await AsyncStorage.removeItem(LAST_SEEN_KEY);
 }
 
-async function scheduleLocalNotifications(notifications: Notification[]): Promise<void> {
-  const lastSeen = await getLastSeenTimestamp();
+onSavedAccountRemoved((userId) => {
+  void AsyncStorage.removeItem(lastSeenKey(userId));
+});
+
+async function scheduleLocalNotifications(
+  userId: string,
+  notifications: Notification[],
+  preferences: NotificationPreferences,
+): Promise<void> {
+  const lastSeen = await getLastSeenTimestamp(userId);
   let maxTs = lastSeen;
 
   const newNotifs = notifications.filter((n) => {
@@ -48,54 +74,74 @@ async function scheduleLocalNotifications(notifications: Notification[]): Promis
     return;
   }
 
+  const serverPush = await isServerPushActive();
   for (const n of newNotifs) {
     const ts = new Date(n.createdAt).getTime();
     if (ts > maxTs) {
       maxTs = ts;
     }
 
+    // The server already pushed it to this device, or the user's preferences keep it in the app;
+    // either way only move the marker forward
+    if (serverPush || !shouldAlertNotification(preferences, n)) {
+      continue;
+    }
+
     await Notifications.scheduleNotificationAsync({
       content: {
         title: NOTIF_TITLES[n.type] || n.title,
         body: n.message,
         data: buildNotifData(n),
         sound: "default",
+        categoryIdentifier: getPushCategoryId(n.type),
       },
-      trigger: null,
+      // Shows immediately, on the same Android channel a server push of this type would use
+      trigger: { channelId: getPushChannelId(n.type) },
     });
   }
 
-  await setLastSeenTimestamp(maxTs);
+  await setLastSeenTimestamp(userId, maxTs);
 }
 
 export function useLocalNotificationBridge() {
-  const { isAuthenticated } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const realtimeConnected = useRealtimeConnected();
   const appState = useRef<AppStateStatus>(AppState.currentState);
 
   const { data } = useQuery<NotificationResponse>({
     queryKey: ["/api/v1/notifications"],
     enabled: isAuthenticated,
-    refetchInterval: POLL_INTERVAL,
+    refetchInterval: realtimeConnected ? false : POLL_INTERVAL,
   });
 
+  const { data: storedPreferences, isError: preferencesFailed } = useNotificationPreferences();
+  // Nothing is raised, or marked seen, until the user's preferences are known: the defaults alert on
+  // everything with no quiet hours, so they only stand in once loading the real ones has failed
+  const preferences = storedPreferences ?? (preferencesFailed ? DEFAULT_NOTIFICATION_PREFERENCES : null);
+
   const latestData = useRef(data);
   latestData.current = data;
+  const latestPreferences = useRef(preferences);
+  latestPreferences.current = preferences;
+  const userId = user?.id ?? null;
+  const latestUserId = useRef(userId);
+  latestUserId.current = userId;
 
   // Schedule local notifications whenever new data arrives
   useEffect(() => {
-    if (!data?.data || data.data.length === 0) {
+    if (!userId || !preferences || !data?.data || data.data.length === 0) {
       return;
     }
 
-    void scheduleLocalNotifications(data.data);
-  }, [data]);
+    void scheduleLocalNotifications(userId, data.data, preferences);
+  }, [data, userId, preferences]);
 
   // Re-fetch and schedule when app comes back to foreground
   useEffect(() => {
     const subscription = AppState.addEventListener("change", (nextState) => {
       if (appState.current.match(/inactive|background/) && nextState === "active") {
-        if (latestData.current?.data) {
-          void scheduleLocalNotifications(latestData.current.data);
+        if (latestUserId.current && latestPreferences.current && latestData.current?.data) {
+          void scheduleLocalNotifications(latestUserId.current, latestData.current.data, latestPreferences.current);
         }
       }
       appState.current = nextState;
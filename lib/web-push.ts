@@ -0,0 +1,76 @@
+import { apiRequest } from "@/lib/query-client";
+
+// Served from public/, so it is scoped to the whole web app
+const SERVICE_WORKER_PATH = "/push-sw.js";
+
+export type WebPushSubscription = {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+};
+
+function isSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+function base64UrlToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const padded = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getVapidPublicKey(): Promise<string | null> {
+  try {
+    const res = await apiRequest("GET", "/api/push/web/config");
+    const config = (await res.json()) as { publicKey?: string };
+    return config.publicKey || null;
+  } catch {
+    // 404 while the BFF has no VAPID keys: the web build simply runs without push
+    return null;
+  }
+}
+
+/** Subscribes this browser to Web Push, reusing an existing subscription when there is one */
+export async function subscribeToWebPush(): Promise<WebPushSubscription | null> {
+  if (!isSupported()) {
+    return null;
+  }
+
+  const publicKey = await getVapidPublicKey();
+  if (!publicKey) {
+    return null;
+  }
+
+  const permission = Notification.permission === "default" ? await Notification.requestPermission() : Notification.permission;
+  if (permission !== "granted") {
+    return null;
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToUint8Array(publicKey),
+    }));
+
+  const json = subscription.toJSON();
+  if (!json.endpoint || !json.keys?.p256dh || !json.keys?.auth) {
+    return null;
+  }
+  return { endpoint: json.endpoint, keys: { p256dh: json.keys.p256dh, auth: json.keys.auth } };
+}
+
+/** Drops the browser subscription so a shared computer stops receiving pushes after sign-out */
+export async function unsubscribeFromWebPush(): Promise<void> {
+  if (!isSupported()) {
+    return;
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH);
+  const subscription = await registration?.pushManager.getSubscription();
+  await subscription?.unsubscribe();
+}
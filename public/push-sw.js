@@ -0,0 +1,52 @@
+// Web Push service worker for the web build; messages come from server/push/webpush.ts
+// as JSON: { title, body, data, badge?, tag? }
+
+self.addEventListener("push", (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    message = { title: "TaskQuest", body: event.data.text(), data: {} };
+  }
+
+  const work = [
+    self.registration.showNotification(message.title || "TaskQuest", {
+      body: message.body,
+      data: message.data || {},
+      tag: message.tag,
+    }),
+  ];
+  if (typeof message.badge === "number" && "setAppBadge" in self.navigator) {
+    work.push(self.navigator.setAppBadge(message.badge).catch(() => undefined));
+  }
+  event.waitUntil(Promise.all(work));
+});
+
+function getTargetPath(data) {
+  if (data && typeof data.taskId === "string" && data.taskId) {
+    return `/task/${data.taskId}`;
+  }
+  if (data && typeof data.inviteToken === "string" && data.inviteToken) {
+    return `/invite/${data.inviteToken}`;
+  }
+  return "/notifications";
+}
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const target = new URL(getTargetPath(event.notification.data), self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        return existing.focus().then(() => existing.navigate(target));
+      }
+      return self.clients.openWindow(target);
+    }),
+  );
+});
@@ -0,0 +1,241 @@
+const fs = require("fs");
+const path = require("path");
+const YAML = require("yaml");
+
+const ROOT = path.resolve(__dirname, "..");
+const SPEC_PATH = path.join(ROOT, ".local", "openapi.yaml");
+const OUT_DIR = path.join(ROOT, "lib", "api");
+const CLIENT_PREFIX = "/api";
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"];
+const HEADER = "// Generated by scripts/generate-api.js from .local/openapi.yaml. Do not edit by hand.\n";
+
+function exitWithError(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+function refName(ref) {
+  return ref.split("/").pop();
+}
+
+function resolveRef(spec, node) {
+  if (!node || !node.$ref) return node;
+  const target = node.$ref
+    .replace(/^#\//, "")
+    .split("/")
+    .reduce((current, key) => current && current[key], spec);
+  if (!target) exitWithError(`Unresolved $ref ${node.$ref}`);
+  return target;
+}
+
+function docComment(text, indent) {
+  if (!text) return "";
+  return `${indent}/** ${String(text).replace(/\*\//g, "*\\/").replace(/\s*\n\s*/g, " ")} */\n`;
+}
+
+function propertyKey(key) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function tsType(schema, indent = "") {
+  if (!schema) return "unknown";
+  const nullable = schema.nullable ? " | null" : "";
+
+  if (schema.$ref) return refName(schema.$ref) + nullable;
+  if (schema.allOf) return schema.allOf.map((part) => tsType(part, indent)).join(" & ") + nullable;
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf || schema.anyOf).map((part) => tsType(part, indent)).join(" | ") + nullable;
+  }
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(" | ") + nullable;
+
+  switch (schema.type) {
+    case "string":
+      return "string" + nullable;
+    case "integer":
+    case "number":
+      return "number" + nullable;
+    case "boolean":
+      return "boolean" + nullable;
+    case "array":
+      return `${wrapArrayItem(tsType(schema.items, indent))}[]` + nullable;
+    case "object":
+    case undefined:
+      return objectType(schema, indent) + nullable;
+    default:
+      return "unknown";
+  }
+}
+
+function wrapArrayItem(type) {
+  return /[|&\s]/.test(type) && !type.startsWith("{") ? `(${type})` : type;
+}
+
+function objectType(schema, indent) {
+  const properties = Object.entries(schema.properties || {});
+  if (properties.length === 0) {
+    return schema.additionalProperties === false ? "Record<string, never>" : "Record<string, unknown>";
+  }
+
+  const required = new Set(schema.required || []);
+  const inner = `${indent}  `;
+  const lines = properties.map(([key, property]) => {
+    const optional = required.has(key) ? "" : "?";
+    return `${docComment(property.description, inner)}${inner}${propertyKey(key)}${optional}: ${tsType(property, inner)};`;
+  });
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function generateTypes(spec) {
+  const schemas = spec.components?.schemas || {};
+  const declarations = Object.entries(schemas).map(([name, schema]) => {
+    const doc = docComment(schema.description, "");
+    const isInterface = (schema.type === "object" || schema.properties) && !schema.nullable && !schema.allOf;
+    return isInterface
+      ? `${doc}export interface ${name} ${objectType(schema, "")}`
+      : `${doc}export type ${name} = ${tsType(schema)};`;
+  });
+  return `${HEADER}\n${declarations.join("\n\n")}\n`;
+}
+
+function camelCase(name) {
+  return name.replace(/[-_](\w)/g, (_, char) => char.toUpperCase());
+}
+
+function collectOperations(spec) {
+  const operations = [];
+  for (const [route, pathItem] of Object.entries(spec.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+      if (!operation.operationId) exitWithError(`${method.toUpperCase()} ${route} has no operationId`);
+
+      const parameters = [...(pathItem.parameters || []), ...(operation.parameters || [])].map((param) =>
+        resolveRef(spec, param),
+      );
+      const requestSchema = resolveRef(spec, operation.requestBody)?.content?.["application/json"]?.schema;
+      const successStatus = Object.keys(operation.responses || {}).find((status) => /^2\d\d$/.test(status));
+      const success = resolveRef(spec, operation.responses?.[successStatus]);
+      const responseSchema = success?.content?.["application/json"]?.schema;
+
+      operations.push({
+        id: operation.operationId,
+        method: method.toUpperCase(),
+        route,
+        summary: operation.summary,
+        proposed: operation["x-upstream-status"] === "proposed",
+        pathParams: parameters.filter((param) => param.in === "path"),
+        queryParams: parameters.filter((param) => param.in === "query"),
+        requestType: requestSchema ? tsType(requestSchema) : null,
+        requestRequired: Boolean(operation.requestBody && resolveRef(spec, operation.requestBody).required),
+        responseType: responseSchema ? tsType(responseSchema) : "void",
+      });
+    }
+  }
+  return operations;
+}
+
+function generateClient(spec) {
+  const operations = collectOperations(spec);
+  const serverPath = new URL(spec.servers?.[0]?.url || "http://localhost/v1").pathname.replace(/\/$/, "");
+
+  const pathBuilders = [];
+  const methods = [];
+  for (const op of operations) {
+    const pathArgs = op.pathParams.map((param) => `${camelCase(param.name)}: string`);
+    const pathTemplate = `${CLIENT_PREFIX}${serverPath}${op.route}`.replace(
+      /\{(\w+)\}/g,
+      (_, name) => `\${encodeURIComponent(${camelCase(name)})}`,
+    );
+    const pathArgNames = op.pathParams.map((param) => camelCase(param.name));
+
+    pathBuilders.push(`  ${op.id}: (${pathArgs.join(", ")}) => \`${pathTemplate}\`,`);
+
+    const args = [...pathArgs];
+    if (op.requestType) args.push(`body${op.requestRequired ? "" : "?"}: ${op.requestType}`);
+    if (op.queryParams.length > 0) {
+      const fields = op.queryParams.map(
+        (param) => `${propertyKey(param.name)}${param.required ? "" : "?"}: ${tsType(param.schema)}`,
+      );
+      args.push(`query?: { ${fields.join("; ")} }`);
+    }
+
+    const pathExpr = `apiPaths.${op.id}(${pathArgNames.join(", ")})`;
+    const urlExpr = op.queryParams.length > 0 ? `withQuery(${pathExpr}, query)` : pathExpr;
+    const bodyArg = op.requestType ? ", body" : "";
+    methods.push(
+      `${docComment(
+        `${op.method} ${op.route}${op.summary ? ` - ${op.summary}` : ""}` +
+          (op.proposed ? " (proposed: the BFF answers 501 NOT_IMPLEMENTED until the upstream offers it)" : ""),
+        "  ",
+      )}` +
+        `  ${op.id}: (${args.join(", ")}) => send<${op.responseType}>("${op.method}", ${urlExpr}${bodyArg}),`,
+    );
+  }
+
+  const schemaNames = new Set(Object.keys(spec.components?.schemas || {}));
+  const usedTypes = [...new Set(operations.flatMap((op) => `${op.requestType} ${op.responseType}`.match(/\w+/g)))]
+    .filter((name) => schemaNames.has(name))
+    .sort();
+
+  return `${HEADER}
+import { apiRequest } from "@/lib/query-client";
+import type {
+${usedTypes.map((name) => `  ${name},`).join("\n")}
+} from "./types.gen";
+
+type QueryValue = string | number | boolean | null | undefined;
+
+function withQuery(path: string, query?: Record<string, QueryValue>): string {
+  const params = Object.entries(query || {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => \`\${encodeURIComponent(key)}=\${encodeURIComponent(String(value))}\`);
+  return params.length > 0 ? \`\${path}?\${params.join("&")}\` : path;
+}
+
+async function send<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const res = await apiRequest(method, path, body);
+  if (res.status === 204) return undefined as T;
+  return (await res.json()) as T;
+}
+
+/** BFF paths for every operation, usable as React Query keys */
+export const apiPaths = {
+${pathBuilders.join("\n")}
+};
+
+export const taskQuestApi = {
+${methods.join("\n")}
+};
+`;
+}
+
+function main() {
+  const spec = YAML.parse(fs.readFileSync(SPEC_PATH, "utf8"));
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+
+  const files = {
+    "types.gen.ts": generateTypes(spec),
+    "client.gen.ts": generateClient(spec),
+  };
+
+  const check = process.argv.includes("--check");
+  let stale = false;
+  for (const [name, contents] of Object.entries(files)) {
+    const target = path.join(OUT_DIR, name);
+    const current = fs.existsSync(target) ? fs.readFileSync(target, "utf8") : null;
+    if (current === contents) continue;
+    if (check) {
+      console.error(`${path.relative(ROOT, target)} is out of date with the OpenAPI spec`);
+      stale = true;
+    } else {
+      fs.writeFileSync(target, contents);
+      console.log(`Wrote ${path.relative(ROOT, target)}`);
+    }
+  }
+
+  if (stale) {
+    exitWithError("Run `npm run api:generate` to refresh the generated API client");
+  }
+}
+
+main();
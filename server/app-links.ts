@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Express, Request, Response } from "express";
+import { getDeepLinkPathWildcards } from "@shared/deep-links";
+import { logger } from "./logger";
+
+// Both files must be served as JSON at these exact paths, over https, without redirects
+const APPLE_ASSOCIATION_PATHS = ["/.well-known/apple-app-site-association", "/apple-app-site-association"];
+const ANDROID_ASSET_LINKS_PATH = "/.well-known/assetlinks.json";
+
+const APPLE_TEAM_ID = process.env.APPLE_TEAM_ID || "";
+const ANDROID_CERT_FINGERPRINTS = (process.env.ANDROID_CERT_FINGERPRINTS || "")
+  .split(",")
+  .map((fingerprint: string) => fingerprint.trim())
+  .filter(Boolean);
+
+type NativeAppIds = { iosBundleId: string | null; androidPackage: string | null };
+
+function readNativeAppIds(): NativeAppIds {
+  try {
+    const appJson = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), "app.json"), "utf-8"));
+    return {
+      iosBundleId: process.env.IOS_BUNDLE_ID || appJson.expo?.ios?.bundleIdentifier || null,
+      androidPackage: process.env.ANDROID_PACKAGE || appJson.expo?.android?.package || null,
+    };
+  } catch {
+    return { iosBundleId: process.env.IOS_BUNDLE_ID || null, androidPackage: process.env.ANDROID_PACKAGE || null };
+  }
+}
+
+function sendNotConfigured(res: Response, message: string) {
+  return res.status(404).json({ error: { code: "APP_LINKS_DISABLED", message } });
+}
+
+/**
+ * Serves the association files that let iOS and Android open https links in the app. Unconfigured
+ * platforms answer 404, which the OS treats as "no app", so links keep opening in the browser.
+ */
+export function registerAppLinkRoutes(app: Express) {
+  const { iosBundleId, androidPackage } = readNativeAppIds();
+  const components = getDeepLinkPathWildcards().map((pattern) => ({ "/": pattern }));
+
+  app.get(APPLE_ASSOCIATION_PATHS, (_req: Request, res: Response) => {
+    if (!APPLE_TEAM_ID || !iosBundleId) {
+      return sendNotConfigured(res, "Set APPLE_TEAM_ID to enable iOS universal links");
+    }
+
+    res.setHeader("Cache-Control", "public, max-age=3600");
+    return res.json({
+      applinks: { details: [{ appIDs: [`${APPLE_TEAM_ID}.${iosBundleId}`], components }] },
+    });
+  });
+
+  app.get(ANDROID_ASSET_LINKS_PATH, (_req: Request, res: Response) => {
+    if (ANDROID_CERT_FINGERPRINTS.length === 0 || !androidPackage) {
+      return sendNotConfigured(res, "Set ANDROID_CERT_FINGERPRINTS to enable Android app links");
+    }
+
+    res.setHeader("Cache-Control", "public, max-age=3600");
+    return res.json([
+      {
+        relation: ["delegate_permission/common.handle_all_urls"],
+        target: {
+          namespace: "android_app",
+          package_name: androidPackage,
+          sha256_cert_fingerprints: ANDROID_CERT_FINGERPRINTS,
+        },
+      },
+    ]);
+  });
+
+  logger.info("App links", {
+    ios: APPLE_TEAM_ID && iosBundleId ? `${APPLE_TEAM_ID}.${iosBundleId}` : "disabled",
+    android: ANDROID_CERT_FINGERPRINTS.length > 0 && androidPackage ? androidPackage : "disabled",
+  });
+}
@@ -0,0 +1,105 @@
+import type { NextFunction, Request, Response } from "express";
+import { createHash } from "crypto";
+import { logger } from "./logger";
+import { rememberPushSession } from "./push/dispatcher";
+import { UpstreamError, fetchUpstreamJson, sendUpstreamFailure } from "./upstream";
+
+const SESSION_CACHE_TTL_MS = 60_000;
+const SESSION_CACHE_MAX_ENTRIES = 5000;
+
+export type SessionUser = {
+  id: string;
+  name: string;
+  email: string;
+};
+
+const sessionCache = new Map<string, { user: SessionUser; expiresAt: number }>();
+
+const ADMIN_USERS = new Set(
+  (process.env.BFF_ADMIN_USERS || "")
+    .split(",")
+    .map((entry: string) => entry.trim().toLowerCase())
+    .filter(Boolean),
+);
+
+export function getBearerAuthorization(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (typeof header !== "string" || !/^Bearer\s+\S+/i.test(header)) {
+    return null;
+  }
+
+  return header;
+}
+
+export async function resolveSessionUser(authorization: string): Promise<SessionUser> {
+  const cacheKey = createHash("sha256").update(authorization).digest("hex");
+  const cached = sessionCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.user;
+  }
+
+  const user = await fetchUpstreamJson<SessionUser>("/v1/auth/me", authorization);
+  if (sessionCache.size >= SESSION_CACHE_MAX_ENTRIES) {
+    sessionCache.clear();
+  }
+  sessionCache.set(cacheKey, { user, expiresAt: Date.now() + SESSION_CACHE_TTL_MS });
+  return user;
+}
+
+/** The signed-in user on a route behind requireAuth or optionalAuth; null when optionalAuth let an anonymous call through */
+export function findSessionUser(res: Response): SessionUser | null {
+  return (res.locals.sessionUser as SessionUser | undefined) ?? null;
+}
+
+export function getSessionUser(res: Response): SessionUser {
+  const user = res.locals.sessionUser as SessionUser | undefined;
+  if (!user) {
+    throw new Error("getSessionUser called on a route without requireAuth");
+  }
+  return user;
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const authorization = getBearerAuthorization(req);
+  if (!authorization) {
+    return res.status(401).json({
+      error: { code: "UNAUTHORIZED", message: "Authentication required" },
+    });
+  }
+
+  try {
+    const user = await resolveSessionUser(authorization);
+    res.locals.sessionUser = user;
+    // Hands the push poller the newest token, so background pushes outlive the one it started with
+    rememberPushSession(user.id, authorization);
+    return next();
+  } catch (error) {
+    if (error instanceof UpstreamError && (error.status === 401 || error.status === 403)) {
+      return res.status(401).json({
+        error: { code: "UNAUTHORIZED", message: "Invalid or expired session" },
+      });
+    }
+
+    logger.error("Auth check error", { error });
+    return sendUpstreamFailure(res, error, "Failed to validate session with TaskQuest API");
+  }
+}
+
+/** requireAuth for callers that send a token; requests without one go through anonymously */
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
+  if (!getBearerAuthorization(req)) {
+    return next();
+  }
+  return requireAuth(req, res, next);
+}
+
+export function requireAdmin(_req: Request, res: Response, next: NextFunction) {
+  const user = getSessionUser(res);
+  if (!ADMIN_USERS.has(user.id.toLowerCase()) && !ADMIN_USERS.has(user.email.toLowerCase())) {
+    return res.status(403).json({
+      error: { code: "FORBIDDEN", message: "This endpoint is restricted to administrators" },
+    });
+  }
+
+  return next();
+}
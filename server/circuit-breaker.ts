@@ -0,0 +1,71 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitBreakerOptions = {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a single probe request is let through */
+  cooldownMs: number;
+};
+
+export class CircuitOpenError extends Error {
+  constructor(public retryAfterMs: number) {
+    super("Circuit breaker is open");
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  getState(): CircuitState {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      return "half_open";
+    }
+    return this.state;
+  }
+
+  snapshot() {
+    return {
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+    };
+  }
+
+  /** Throws CircuitOpenError while open; in half-open only one probe is admitted at a time */
+  acquire(): void {
+    const state = this.getState();
+    if (state === "closed") {
+      return;
+    }
+
+    if (state === "half_open" && !this.probeInFlight) {
+      this.state = "half_open";
+      this.probeInFlight = true;
+      return;
+    }
+
+    const retryAfterMs = Math.max(0, this.options.cooldownMs - (Date.now() - this.openedAt));
+    throw new CircuitOpenError(retryAfterMs);
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.probeInFlight = false;
+    if (this.state === "half_open" || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import pLimit from "p-limit";
+import { FEED_FORMAT_VERSION, FEED_ITEM_TYPES, feedResponseSchema, type FeedItem, type FeedItemType } from "@shared/feed";
+import { logger } from "./logger";
+import { proxyCache } from "./proxy-cache";
+import { TASKQUEST_API_URL, fetchUpstreamSnapshot } from "./upstream";
+
+export const FEED_VERSION_HEADER = "X-Feed-Version";
+
+const FEED_DETAILS_CONCURRENCY = 6;
+// Details are best effort, so a slow lookup must not hold up the whole feed page
+const FEED_DETAILS_POLICY = { timeoutMs: 3_000, retries: 0 };
+const VALIDATE_FEED_OUTPUT = process.env.NODE_ENV !== "production";
+
+type RawFeedItem = {
+  id: string;
+  type: string;
+  actorUserId?: string | null;
+  targetUserId?: string | null;
+  taskId?: string | null;
+  listId?: string | null;
+  payload?: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+type TaskDetails = { title?: string; rewardXp?: number; dueAt?: string | null; listId?: string };
+type ListDetails = { name?: string };
+type MemberDetails = { userId: string; name: string };
+
+type FeedDetails = {
+  tasks: Map<string, TaskDetails>;
+  lists: Map<string, ListDetails>;
+  userNames: Map<string, string>;
+};
+
+// Older API builds and imported data used different spellings for the same payload fields
+const PAYLOAD_ALIASES = {
+  actorName: ["actorName", "actor_name", "userName"],
+  taskTitle: ["taskTitle", "title", "taskName", "task_title", "name"],
+  rewardXp: ["rewardXp", "reward_xp", "xpReward"],
+  xpGained: ["xpGained", "xp", "xp_gained"],
+  dueAt: ["dueAt", "due_at", "dueDate"],
+  listName: ["listName", "list_name"],
+  newLevel: ["newLevel", "toLevel", "new_level"],
+  fromLevel: ["fromLevel", "previousLevel", "from_level"],
+  energyCost: ["energyCost", "energy_cost"],
+  reason: ["reason", "rejectionReason"],
+};
+
+const NON_TASK_ITEM_TYPES = new Set<string>(["list_invite_created", "user_level_up"]);
+const KNOWN_ITEM_TYPES = new Set<string>(FEED_ITEM_TYPES);
+
+function pickString(payload: Record<string, unknown>, field: keyof typeof PAYLOAD_ALIASES): string | null {
+  for (const key of PAYLOAD_ALIASES[field]) {
+    const value = payload[key];
+    if (typeof value === "string" && value) return value;
+  }
+  return null;
+}
+
+function pickNumber(payload: Record<string, unknown>, field: keyof typeof PAYLOAD_ALIASES): number | null {
+  for (const key of PAYLOAD_ALIASES[field]) {
+    const value = payload[key];
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+function hasField(payload: Record<string, unknown>, field: keyof typeof PAYLOAD_ALIASES): boolean {
+  return PAYLOAD_ALIASES[field].some((key) => key in payload);
+}
+
+async function loadCachedJson<T>(authorization: string | null, path: string): Promise<T | null> {
+  try {
+    const { snapshot } = await proxyCache.get(proxyCache.buildKey(authorization, path), () =>
+      fetchUpstreamSnapshot(`${TASKQUEST_API_URL}${path}`, authorization ? { authorization } : {}, FEED_DETAILS_POLICY),
+    );
+    return snapshot.status === 200 ? (JSON.parse(snapshot.body) as T) : null;
+  } catch (error) {
+    logger.debug("Feed details lookup failed", { path, error });
+    return null;
+  }
+}
+
+/** Loads each task, list and member roster the page is missing exactly once */
+async function loadFeedDetails(items: RawFeedItem[], authorization: string | null): Promise<FeedDetails> {
+  const taskIds = new Set<string>();
+  const listIds = new Set<string>();
+  for (const item of items) {
+    const payload = item.payload || {};
+    const missingTaskFields =
+      !pickString(payload, "taskTitle") || !hasField(payload, "rewardXp") || !hasField(payload, "dueAt");
+    if (item.taskId && !NON_TASK_ITEM_TYPES.has(item.type) && missingTaskFields) {
+      taskIds.add(item.taskId);
+    }
+    if (item.listId && (!pickString(payload, "listName") || (item.actorUserId && !pickString(payload, "actorName")))) {
+      listIds.add(item.listId);
+    }
+  }
+
+  const details: FeedDetails = { tasks: new Map(), lists: new Map(), userNames: new Map() };
+  const limit = pLimit(FEED_DETAILS_CONCURRENCY);
+  await Promise.all([
+    ...[...taskIds].map((taskId) =>
+      limit(async () => {
+        const task = await loadCachedJson<TaskDetails>(authorization, `/v1/tasks/${encodeURIComponent(taskId)}`);
+        if (task) details.tasks.set(taskId, task);
+      }),
+    ),
+    ...[...listIds].map((listId) =>
+      limit(async () => {
+        const base = `/v1/lists/${encodeURIComponent(listId)}`;
+        const [list, members] = await Promise.all([
+          loadCachedJson<ListDetails>(authorization, base),
+          loadCachedJson<{ data?: MemberDetails[] }>(authorization, `${base}/members`),
+        ]);
+        if (list) details.lists.set(listId, list);
+        for (const member of members?.data || []) {
+          details.userNames.set(member.userId, member.name);
+        }
+      }),
+    ),
+  ]);
+  return details;
+}
+
+function normalizeItem(item: RawFeedItem, details: FeedDetails): FeedItem {
+  const raw = item.payload || {};
+  const task = item.taskId ? details.tasks.get(item.taskId) : undefined;
+  const list = item.listId ? details.lists.get(item.listId) : undefined;
+
+  const actorName = pickString(raw, "actorName") || (item.actorUserId && details.userNames.get(item.actorUserId)) || null;
+  const listName = pickString(raw, "listName") || list?.name || null;
+  const taskRef = {
+    taskTitle: pickString(raw, "taskTitle") || task?.title || null,
+    rewardXp: pickNumber(raw, "rewardXp") ?? task?.rewardXp ?? null,
+    dueAt: pickString(raw, "dueAt") || task?.dueAt || null,
+    listName,
+  };
+
+  const base = {
+    id: item.id,
+    actorUserId: item.actorUserId ?? null,
+    targetUserId: item.targetUserId ?? null,
+    taskId: item.taskId ?? null,
+    listId: item.listId ?? null,
+    createdAt: item.createdAt,
+  };
+
+  const type = item.type as FeedItemType;
+  switch (type) {
+    case "task_created":
+      return { ...base, type, payload: { actorName, ...taskRef, energyCost: pickNumber(raw, "energyCost") } };
+    case "task_started":
+    case "task_pending_approval":
+      return { ...base, type, payload: { actorName, ...taskRef } };
+    case "task_completed":
+    case "task_approved":
+      return { ...base, type, payload: { actorName, ...taskRef, xpGained: pickNumber(raw, "xpGained") } };
+    case "task_rejected":
+      return { ...base, type, payload: { actorName, ...taskRef, reason: pickString(raw, "reason") } };
+    case "list_invite_created":
+      return { ...base, type, payload: { actorName, listName } };
+    case "user_level_up":
+      return {
+        ...base,
+        type,
+        payload: { actorName, fromLevel: pickNumber(raw, "fromLevel"), newLevel: pickNumber(raw, "newLevel") ?? 0 },
+      };
+    case "reminder_due_today":
+      return { ...base, type, payload: taskRef };
+  }
+}
+
+/**
+ * Turns an upstream feed page into the versioned BFF format: one typed payload per item type,
+ * with task titles, list names and actor names filled in from batched, cached lookups.
+ */
+export async function normalizeFeedPage(
+  page: { data?: RawFeedItem[]; nextCursor?: string | null },
+  authorization: string | null,
+) {
+  const rawItems = page.data || [];
+  const unknownTypes = [...new Set(rawItems.map((item) => item.type).filter((type) => !KNOWN_ITEM_TYPES.has(type)))];
+  if (unknownTypes.length > 0) {
+    logger.warn("Dropping feed items with unknown types", { types: unknownTypes });
+  }
+
+  const items = rawItems.filter((item) => KNOWN_ITEM_TYPES.has(item.type));
+  const details = await loadFeedDetails(items, authorization);
+  const response = {
+    version: FEED_FORMAT_VERSION,
+    data: items.map((item) => normalizeItem(item, details)),
+    nextCursor: page.nextCursor ?? null,
+  } as const;
+
+  if (VALIDATE_FEED_OUTPUT) {
+    const result = feedResponseSchema.safeParse(response);
+    if (!result.success) {
+      logger.warn("Normalized feed does not match its schema", { issues: result.error.issues.slice(0, 10) });
+    }
+  }
+  return response;
+}
@@ -0,0 +1,79 @@
+import type { Express, Request, Response } from "express";
+import { logger } from "./logger";
+import { TASKQUEST_API_URL, upstreamBreaker } from "./upstream";
+
+// Any non-5xx answer proves the API is up; an unauthenticated /auth/me returns 401 without touching data
+const UPSTREAM_HEALTH_PATH = process.env.UPSTREAM_HEALTH_PATH || "/v1/auth/me";
+const HEALTH_PROBE_TIMEOUT_MS = 2_000;
+const HEALTH_PROBE_CACHE_MS = 5_000;
+
+type UpstreamProbe = {
+  reachable: boolean;
+  status: number | null;
+  latencyMs: number;
+  checkedAt: string;
+  error?: string;
+};
+
+let lastProbe: { at: number; result: Promise<UpstreamProbe> } | null = null;
+
+async function probeUpstream(): Promise<UpstreamProbe> {
+  const start = performance.now();
+  const checkedAt = new Date().toISOString();
+  try {
+    const response = await fetch(`${TASKQUEST_API_URL}${UPSTREAM_HEALTH_PATH}`, {
+      signal: AbortSignal.timeout(HEALTH_PROBE_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    return {
+      reachable: response.status < 500,
+      status: response.status,
+      latencyMs: Math.round(performance.now() - start),
+      checkedAt,
+    };
+  } catch (error) {
+    return {
+      reachable: false,
+      status: null,
+      latencyMs: Math.round(performance.now() - start),
+      checkedAt,
+      error: error instanceof Error && error.name === "TimeoutError" ? "timeout" : "unreachable",
+    };
+  }
+}
+
+// Orchestrators poll every few seconds, so concurrent checks share one in-flight probe
+function getUpstreamProbe(): Promise<UpstreamProbe> {
+  if (!lastProbe || Date.now() - lastProbe.at > HEALTH_PROBE_CACHE_MS) {
+    lastProbe = { at: Date.now(), result: probeUpstream() };
+  }
+  return lastProbe.result;
+}
+
+function healthz(_req: Request, res: Response) {
+  return res.json({
+    status: "ok",
+    uptimeSeconds: Math.round(process.uptime()),
+    upstream: { circuit: upstreamBreaker.snapshot() },
+  });
+}
+
+async function readyz(_req: Request, res: Response) {
+  const probe = await getUpstreamProbe();
+  const circuit = upstreamBreaker.snapshot();
+  const ready = probe.reachable && circuit.state !== "open";
+  if (!ready) {
+    logger.warn("Readiness check failed", { probe, circuit: circuit.state });
+  }
+
+  return res.status(ready ? 200 : 503).json({
+    status: ready ? "ready" : "unavailable",
+    upstream: { ...probe, circuit },
+  });
+}
+
+/** Liveness (process is serving) and readiness (TaskQuest API reachable) checks for container orchestration */
+export function registerHealthRoutes(app: Express) {
+  app.get("/healthz", healthz);
+  app.get("/readyz", readyz);
+}
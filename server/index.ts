@@ -1,6 +1,13 @@
 import express from "express";
 import type { Request, Response, NextFunction } from "express";
-import { registerRoutes } from "./routes";
+import { invitePreviewIpLimit, registerRoutes } from "./routes";
+import { registerAppLinkRoutes } from "./app-links";
+import { serveInvitePage } from "./invite-page";
+import { parseDeepLinkPath } from "@shared/deep-links";
+import { logger, redact, redactPath, requestContext, type RequestContext } from "./logger";
+import { REQUEST_ID_HEADER } from "./upstream";
+import { randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -40,7 +47,8 @@ function setupCors(app: express.Application) {
         "Access-Control-Allow-Methods",
         "GET, POST, PUT, PATCH, DELETE, OPTIONS",
       );
-      res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+      res.header("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Request-Id");
+      res.header("Access-Control-Expose-Headers", "X-Request-Id");
       res.header("Access-Control-Allow-Credentials", "true");
     }
 
@@ -53,22 +61,40 @@ function setupCors(app: express.Application) {
 }
 
 function setupBodyParsing(app: express.Application) {
-  app.use(
-    express.json({
-      verify: (req, _res, buf) => {
-        req.rawBody = buf;
-      },
-    }),
-  );
+  // The proxy replays the raw bytes of parsed bodies; multipart and binary bodies stay unread and are streamed
+  const keepRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+    req.rawBody = buf;
+  };
+
+  app.use(express.json({ verify: keepRawBody }));
 
-  app.use(express.urlencoded({ extended: false }));
+  app.use(express.urlencoded({ extended: false, verify: keepRawBody }));
+}
+
+const LOG_RESPONSE_BODIES =
+  process.env.LOG_RESPONSE_BODIES !== undefined
+    ? process.env.LOG_RESPONSE_BODIES === "1"
+    : process.env.NODE_ENV !== "production";
+const LOG_BODY_MAX_CHARS = parseInt(process.env.LOG_BODY_MAX_CHARS || "2000", 10);
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{8,128}$/;
+
+function getIncomingRequestId(req: Request): string {
+  const incoming = req.header(REQUEST_ID_HEADER);
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
 }
 
 function setupRequestLogging(app: express.Application) {
   app.use((req, res, next) => {
-    const start = Date.now();
+    const start = performance.now();
     const path = req.path;
-    let capturedJsonResponse: Record<string, unknown> | undefined = undefined;
+    const context: RequestContext = {
+      requestId: getIncomingRequestId(req),
+      upstreamMs: 0,
+      upstreamCalls: 0,
+    };
+    let capturedJsonResponse: unknown = undefined;
+
+    res.setHeader(REQUEST_ID_HEADER, context.requestId);
 
     const originalResJson = res.json;
     res.json = function (bodyJson, ...args) {
@@ -77,21 +103,31 @@ function setupRequestLogging(app: express.Application) {
     };
 
     res.on("finish", () => {
-      const duration = Date.now() - start;
-
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (path.startsWith("/api") && capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      const durationMs = performance.now() - start;
+      const fields: Record<string, unknown> = {
+        method: req.method,
+        path: redactPath(path),
+        status: res.statusCode,
+        durationMs: Math.round(durationMs),
+        // Parallel upstream calls can add up to more than the wall-clock duration
+        bffMs: Math.max(0, Math.round(durationMs - context.upstreamMs)),
+        upstreamMs: Math.round(context.upstreamMs),
+        upstreamCalls: context.upstreamCalls,
+      };
+
+      if (LOG_RESPONSE_BODIES && path.startsWith("/api") && capturedJsonResponse !== undefined) {
+        const body = JSON.stringify(redact(capturedJsonResponse));
+        fields.response = body.length > LOG_BODY_MAX_CHARS ? `${body.slice(0, LOG_BODY_MAX_CHARS)}…` : body;
       }
 
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
+      // Container health probes would otherwise drown out real traffic
+      const level = path === "/healthz" || path === "/readyz" ? "debug" : "info";
+      requestContext.run(context, () => {
+        logger[level]("request", fields);
+      });
     });
 
-    next();
+    requestContext.run(context, next);
   });
 }
 
@@ -128,6 +164,14 @@ function serveExpoManifest(platform: string, res: Response) {
   res.send(manifest);
 }
 
+function getPublicUrls(req: Request) {
+  const forwardedProto = req.header("x-forwarded-proto");
+  const protocol = forwardedProto || req.protocol || "https";
+  const forwardedHost = req.header("x-forwarded-host");
+  const host = forwardedHost || req.get("host");
+  return { baseUrl: `${protocol}://${host}`, expsUrl: `${host}` };
+}
+
 function serveLandingPage({
   req,
   res,
@@ -139,12 +183,7 @@ function serveLandingPage({
   landingPageTemplate: string;
   appName: string;
 }) {
-  const forwardedProto = req.header("x-forwarded-proto");
-  const protocol = forwardedProto || req.protocol || "https";
-  const forwardedHost = req.header("x-forwarded-host");
-  const host = forwardedHost || req.get("host");
-  const baseUrl = `${protocol}://${host}`;
-  const expsUrl = `${host}`;
+  const { baseUrl, expsUrl } = getPublicUrls(req);
 
   log(`baseUrl`, baseUrl);
   log(`expsUrl`, expsUrl);
@@ -166,6 +205,10 @@ function configureExpoAndLanding(app: express.Application) {
     "landing-page.html",
   );
   const landingPageTemplate = fs.readFileSync(templatePath, "utf-8");
+  const invitePageTemplate = fs.readFileSync(
+    path.resolve(process.cwd(), "server", "templates", "invite-page.html"),
+    "utf-8",
+  );
   const appName = getAppName();
 
   log("Serving static Expo files with dynamic manifest routing");
@@ -175,6 +218,23 @@ function configureExpoAndLanding(app: express.Application) {
       return next();
     }
 
+    // Universal links land here when the app isn't installed (or the OS declined to open it)
+    const linkTarget = req.method === "GET" ? parseDeepLinkPath(req.path) : null;
+    if (linkTarget?.type === "invite") {
+      return invitePreviewIpLimit(req, res, () =>
+        serveInvitePage({ res, token: linkTarget.token, invitePageTemplate, appName, ...getPublicUrls(req) }),
+      );
+    }
+
+    if (linkTarget) {
+      return serveLandingPage({
+        req,
+        res,
+        landingPageTemplate,
+        appName,
+      });
+    }
+
     if (req.path !== "/" && req.path !== "/manifest") {
       return next();
     }
@@ -229,7 +289,7 @@ function setupErrorHandler(app: express.Application) {
     const status = error.status || error.statusCode || 500;
     const message = error.message || "Internal Server Error";
 
-    console.error("Internal Server Error:", err);
+    logger.error("Internal Server Error", { error: err });
 
     if (res.headersSent) {
       return next(err);
@@ -239,11 +299,29 @@ function setupErrorHandler(app: express.Application) {
   });
 }
 
+function setupTrustProxy(app: express.Application) {
+  // Needed for per-IP rate limits behind Cloudflare / the Replit proxy
+  const trustProxy = process.env.TRUST_PROXY;
+  if (!trustProxy) {
+    return;
+  }
+
+  const hops = Number.parseInt(trustProxy, 10);
+  if (Number.isFinite(hops)) {
+    app.set("trust proxy", hops);
+    return;
+  }
+
+  app.set("trust proxy", trustProxy === "true" ? true : trustProxy);
+}
+
 (async () => {
+  setupTrustProxy(app);
   setupCors(app);
   setupBodyParsing(app);
   setupRequestLogging(app);
 
+  registerAppLinkRoutes(app);
   configureExpoAndLanding(app);
 
   const server = await registerRoutes(app);
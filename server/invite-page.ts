@@ -0,0 +1,225 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Request, Response } from "express";
+import type { ListInviteResponse } from "@/lib/api/types.gen";
+import { getDeepLinkPath } from "@shared/deep-links";
+import { logger } from "./logger";
+import { UpstreamError, fetchUpstreamJson, sendUpstreamFailure } from "./upstream";
+
+type InvitePageContent = {
+  status: number;
+  title: string;
+  description: string;
+  heading: string;
+  subtitle: string;
+  /** Already-escaped markup, unlike the plain-text fields above */
+  body: string;
+  cacheControl: string;
+};
+
+function readAppScheme(): string | null {
+  try {
+    const appJson = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), "app.json"), "utf-8"));
+    const scheme = appJson.expo?.scheme;
+    return typeof scheme === "string" ? scheme : Array.isArray(scheme) ? scheme[0] || null : null;
+  } catch {
+    return null;
+  }
+}
+
+const APP_SCHEME = readAppScheme();
+
+// The API only shows an invite to a signed-in caller, so previews for signed-out invitees are read with a
+// service account's token. Without one, invite pages show the generic "You're invited" page.
+let previewAuthorization = process.env.TASKQUEST_INVITE_PREVIEW_TOKEN
+  ? `Bearer ${process.env.TASKQUEST_INVITE_PREVIEW_TOKEN}`
+  : null;
+
+/** For the mock API, which signs its own service account in at startup */
+export function setInvitePreviewToken(accessToken: string) {
+  previewAuthorization = `Bearer ${accessToken}`;
+}
+
+/** The invite as the API describes it, or null while no preview credential is configured */
+async function fetchInvitePreview(token: string): Promise<ListInviteResponse | null> {
+  if (!previewAuthorization) {
+    return null;
+  }
+  return fetchUpstreamJson<ListInviteResponse>(`/v1${getDeepLinkPath({ type: "invite", token })}`, previewAuthorization);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatExpiry(expiresAt: string): string {
+  return new Date(expiresAt).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function renderOpenButtons(invitePath: string, expsUrl: string, appName: string): string {
+  // Installed builds answer the custom scheme; during development the app runs inside Expo Go
+  const buttons = [
+    APP_SCHEME
+      ? `<a class="open-button" href="${escapeHtml(`${APP_SCHEME}:/${invitePath}`)}">Open in ${escapeHtml(appName)}</a>`
+      : "",
+    `<a class="secondary-button" href="${escapeHtml(`exps://${expsUrl}/--${invitePath}`)}">Open in Expo Go</a>`,
+  ];
+  return `<div class="actions">${buttons.join("")}</div>`;
+}
+
+function describeValidInvite(
+  invite: ListInviteResponse,
+  invitePath: string,
+  expsUrl: string,
+  appName: string,
+): InvitePageContent {
+  if (invite.acceptedAt) {
+    return {
+      status: 200,
+      title: `${invite.listName} on ${appName}`,
+      description: `This invite to "${invite.listName}" has already been accepted.`,
+      heading: "This invite was already accepted",
+      subtitle: `Open ${appName} to find ${invite.listName} in your lists.`,
+      body: renderOpenButtons(invitePath, expsUrl, appName),
+      cacheControl: "private, max-age=60",
+    };
+  }
+
+  const expiry = formatExpiry(invite.expiresAt);
+  const description = `${invite.invitedByName} invited you to join "${invite.listName}" on ${appName}. The invite expires on ${expiry}.`;
+
+  return {
+    status: 200,
+    title: `Join ${invite.listName} on ${appName}`,
+    description,
+    heading: `Join ${invite.listName}`,
+    subtitle: `${invite.invitedByName} invited you to this list`,
+    body: [
+      `<div class="details">`,
+      `<span>Role: <strong>${escapeHtml(invite.role)}</strong></span>`,
+      `<span>Expires: <strong>${escapeHtml(expiry)}</strong></span>`,
+      `</div>`,
+      renderOpenButtons(invitePath, expsUrl, appName),
+      `<p class="hint">New to ${escapeHtml(appName)}? Create your account with the email address this invite was sent to and you'll join the list as soon as you're signed in.</p>`,
+    ].join(""),
+    cacheControl: "private, max-age=60",
+  };
+}
+
+function describeUnavailableInvite(status: number, appName: string): InvitePageContent {
+  return {
+    status,
+    title: `Invite unavailable - ${appName}`,
+    description: "This invite has expired or was revoked.",
+    heading: "This invite is no longer valid",
+    subtitle: "It may have expired or been revoked. Ask the list owner to send you a new one.",
+    body: "",
+    cacheControl: "private, max-age=60",
+  };
+}
+
+// Without the details the page still gets the invitee into the app, where the invite screen retries
+function describeUnknownInvite(invitePath: string, expsUrl: string, appName: string): InvitePageContent {
+  return {
+    status: 200,
+    title: `You're invited to a list on ${appName}`,
+    description: `Open the invite in ${appName} to see the list and join it.`,
+    heading: "You're invited to a list",
+    subtitle: `Open the invite in ${appName} to see the details and join.`,
+    body: renderOpenButtons(invitePath, expsUrl, appName),
+    cacheControl: "no-store",
+  };
+}
+
+async function loadInvitePageContent(token: string, expsUrl: string, appName: string): Promise<InvitePageContent> {
+  const invitePath = getDeepLinkPath({ type: "invite", token });
+
+  try {
+    const invite = await fetchInvitePreview(token);
+    if (!invite) {
+      return describeUnknownInvite(invitePath, expsUrl, appName);
+    }
+    if (invite.revokedAt) {
+      return describeUnavailableInvite(410, appName);
+    }
+    return describeValidInvite(invite, invitePath, expsUrl, appName);
+  } catch (error) {
+    if (error instanceof UpstreamError && (error.status === 404 || error.status === 410)) {
+      return describeUnavailableInvite(error.status, appName);
+    }
+
+    logger.warn("Invite preview unavailable", { error });
+    return describeUnknownInvite(invitePath, expsUrl, appName);
+  }
+}
+
+/**
+ * Renders the page an invite link opens in a browser, with Open Graph tags so chat apps and email
+ * clients show the list and inviter in the link preview. Details come from the invite lookup, read with the
+ * preview credential.
+ */
+export async function serveInvitePage({
+  res,
+  token,
+  invitePageTemplate,
+  appName,
+  baseUrl,
+  expsUrl,
+}: {
+  res: Response;
+  token: string;
+  invitePageTemplate: string;
+  appName: string;
+  baseUrl: string;
+  expsUrl: string;
+}) {
+  const content = await loadInvitePageContent(token, expsUrl, appName);
+  const inviteUrl = `${baseUrl}${getDeepLinkPath({ type: "invite", token })}`;
+
+  // Replacer functions keep "$" in list names from being read as replacement patterns
+  const html = invitePageTemplate
+    .replace(/INVITE_TITLE_PLACEHOLDER/g, () => escapeHtml(content.title))
+    .replace(/INVITE_DESCRIPTION_PLACEHOLDER/g, () => escapeHtml(content.description))
+    .replace(/INVITE_URL_PLACEHOLDER/g, () => escapeHtml(inviteUrl))
+    .replace(/INVITE_HEADING_PLACEHOLDER/g, () => escapeHtml(content.heading))
+    .replace(/INVITE_SUBTITLE_PLACEHOLDER/g, () => escapeHtml(content.subtitle))
+    .replace(/INVITE_BODY_PLACEHOLDER/g, () => content.body)
+    .replace(/BASE_URL_PLACEHOLDER/g, () => escapeHtml(baseUrl))
+    .replace(/APP_NAME_PLACEHOLDER/g, () => escapeHtml(appName));
+
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  res.setHeader("Cache-Control", content.cacheControl);
+  res.status(content.status).send(html);
+}
+
+const PREVIEW_UNAVAILABLE = {
+  error: { code: "INVITE_PREVIEW_UNAVAILABLE", message: "Invite previews are not available right now" },
+};
+
+/** GET /api/preview/invites/:token: the invite screen's details for a signed-out invitee */
+export async function getInvitePreview(req: Request, res: Response) {
+  try {
+    const invite = await fetchInvitePreview(String(req.params.token));
+    return invite ? res.json(invite) : res.status(503).json(PREVIEW_UNAVAILABLE);
+  } catch (error) {
+    if (error instanceof UpstreamError && (error.status === 404 || error.status === 410)) {
+      return res.status(error.status).json(error.payload || { error: { code: "NOT_FOUND", message: "Invite not found" } });
+    }
+    // Passing a 401 on would read as the invitee's own session ending
+    if (error instanceof UpstreamError && (error.status === 401 || error.status === 403)) {
+      logger.warn("Invite preview credential was rejected", { status: error.status });
+      return res.status(503).json(PREVIEW_UNAVAILABLE);
+    }
+    return sendUpstreamFailure(res, error, "Failed to load the invite");
+  }
+}
@@ -0,0 +1,84 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type RequestContext = {
+  requestId: string;
+  upstreamMs: number;
+  upstreamCalls: number;
+};
+
+const REDACTED = "[REDACTED]";
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+const MIN_LEVEL = LOG_LEVELS.indexOf((process.env.LOG_LEVEL as LogLevel) || "info");
+
+const REDACT_FIELDS = new Set(
+  (process.env.LOG_REDACT_FIELDS || "accessToken,refreshToken,token,password,email,authorization,pushToken")
+    .split(",")
+    .map((field: string) => field.trim().toLowerCase())
+    .filter(Boolean),
+);
+
+// Path segments that are credentials in their own right
+const REDACT_PATH_PATTERNS: RegExp[] = [/(\/invites?\/)[^/?]+/g, /(\/join(?:-codes)?\/)[^/?]+/g];
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (depth > 8 || value === null || typeof value !== "object") {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, nested] of Object.entries(value)) {
+    result[key] = REDACT_FIELDS.has(key.toLowerCase()) ? REDACTED : redact(nested, depth + 1);
+  }
+  return result;
+}
+
+export function redactPath(path: string): string {
+  return REDACT_PATH_PATTERNS.reduce((current, pattern) => current.replace(pattern, `$1${REDACTED}`), path);
+}
+
+function serializeError(error: unknown) {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return error;
+}
+
+function write(level: LogLevel, msg: string, fields: Record<string, unknown> = {}) {
+  if (LOG_LEVELS.indexOf(level) < MIN_LEVEL) {
+    return;
+  }
+
+  const { error, ...rest } = fields;
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    requestId: requestContext.getStore()?.requestId,
+    ...(redact(rest) as Record<string, unknown>),
+    ...(error !== undefined ? { error: serializeError(error) } : {}),
+  };
+
+  const line = JSON.stringify(entry);
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) => write("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => write("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => write("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => write("error", msg, fields),
+};
@@ -0,0 +1,33 @@
+import { randomBytes } from "crypto";
+import type { Express } from "express";
+import { setInvitePreviewToken } from "../invite-page";
+import { logger } from "../logger";
+import { createMockApiRouter, registerMockUser } from "./routes";
+import { seedMockApi } from "./seed";
+import { mockApiStorage } from "./storage";
+
+export const MOCK_API_BASE_PATH = "/mock-api";
+export const MOCK_API_ENABLED = process.env.TASKQUEST_MOCK_API === "1" && process.env.NODE_ENV !== "production";
+
+// Stands in for the service account whose token the BFF reads invite previews with
+async function signInInvitePreviewAccount(): Promise<void> {
+  if (process.env.TASKQUEST_INVITE_PREVIEW_TOKEN) return;
+  const profile = await registerMockUser(mockApiStorage, {
+    name: "Invite previews",
+    email: "invite-preview@taskquest.mock",
+    password: randomBytes(16).toString("hex"),
+  });
+  const ttlMs = 365 * 24 * 60 * 60 * 1000;
+  const session = await mockApiStorage.createSession(profile.userId, { accessMs: ttlMs, refreshMs: ttlMs });
+  setInvitePreviewToken(session.accessToken);
+}
+
+export async function registerMockApi(app: Express): Promise<void> {
+  const accounts = await seedMockApi(mockApiStorage);
+  await signInInvitePreviewAccount();
+  app.use(`${MOCK_API_BASE_PATH}/v1`, createMockApiRouter(mockApiStorage));
+  logger.info("Mock TaskQuest API enabled", { basePath: MOCK_API_BASE_PATH, demoAccounts: accounts });
+}
+
+export { createMockApiRouter } from "./routes";
+export { mockApiStorage, type IMockApiStorage } from "./storage";
@@ -0,0 +1,1334 @@
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { logger } from "../logger";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  COMMENT_ENERGY_COST,
+  DAILY_ENERGY_RECHARGE,
+  DEFAULT_JOIN_CODE_TTL_HOURS,
+  ENERGY_CAP,
+  INITIAL_ENERGY,
+  INVITE_TTL_MS,
+  MAX_JOIN_CODE_TTL_HOURS,
+  MAX_JOIN_CODE_USES,
+  MAX_REWARD_XP,
+  MIN_REWARD_XP,
+  REFRESH_TOKEN_TTL_MS,
+  VOTE_ENERGY_COST,
+  creatorXpReward,
+  levelForXp,
+  suggestRewardXp,
+  taskEnergyCost,
+} from "./rules";
+import type {
+  IMockApiStorage,
+  MockComment,
+  MockInvite,
+  MockJoinCode,
+  MockList,
+  MockMembership,
+  MockNotification,
+  MockProfile,
+  MockSession,
+  MockTask,
+} from "./storage";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class MockApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+  }
+}
+
+function fail(status: number, code: string, message: string, details?: Record<string, unknown>): never {
+  throw new MockApiError(status, code, message, details);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function readString(
+  body: Record<string, unknown>,
+  field: string,
+  { min = 0, max = Infinity, required = false }: { min?: number; max?: number; required?: boolean } = {},
+): string | null {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") {
+    if (required) fail(400, "BAD_REQUEST", `${field} is required`, { field });
+    return null;
+  }
+  if (typeof value !== "string") {
+    fail(400, "BAD_REQUEST", `${field} must be a string`, { field });
+  }
+  const trimmed = value.trim();
+  if (trimmed.length < min || trimmed.length > max) {
+    fail(400, "BAD_REQUEST", `${field} must be between ${min} and ${max} characters`, { field });
+  }
+  return trimmed;
+}
+
+function readEmail(body: Record<string, unknown>, field = "email"): string {
+  const email = readString(body, field, { required: true, max: 254 })!.toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    fail(400, "BAD_REQUEST", `${field} must be a valid email`, { field });
+  }
+  return email;
+}
+
+function readDate(body: Record<string, unknown>, field: string): string | null {
+  const value = readString(body, field);
+  if (value === null) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    fail(400, "BAD_REQUEST", `${field} must be an ISO date-time`, { field });
+  }
+  return date.toISOString();
+}
+
+function readInteger(body: Record<string, unknown>, field: string, min: number, max: number): number | null {
+  const value = body[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    fail(400, "BAD_REQUEST", `${field} must be an integer between ${min} and ${max}`, { field });
+  }
+  return value;
+}
+
+function paginate<T>(items: T[], req: Request) {
+  const requested = Number.parseInt(String(req.query.limit ?? ""), 10);
+  const limit = Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+  const offset = Math.max(0, Number.parseInt(String(req.query.cursor ?? "0"), 10) || 0);
+  const data = items.slice(offset, offset + limit);
+  return { data, nextCursor: offset + limit < items.length ? String(offset + limit) : null };
+}
+
+function matchesSearch(req: Request, ...values: (string | null | undefined)[]): boolean {
+  const q = typeof req.query.q === "string" ? req.query.q.trim().toLowerCase() : "";
+  return !q || values.some((value) => value?.toLowerCase().includes(q));
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function createMockApiRouter(storage: IMockApiStorage): Router {
+  const router = Router();
+
+  function currentProfile(res: Response): MockProfile {
+    return res.locals.mockProfile as MockProfile;
+  }
+
+  async function profileOf(userId: string): Promise<MockProfile> {
+    const profile = await storage.getProfile(userId);
+    if (!profile) fail(404, "NOT_FOUND", "User not found");
+    return profile;
+  }
+
+  function toUserProfile(profile: MockProfile) {
+    return {
+      id: profile.userId,
+      name: profile.name,
+      email: profile.email,
+      avatarUrl: profile.avatarUrl,
+      totalXp: profile.totalXp,
+      ...levelForXp(profile.totalXp),
+      creationXpBalance: profile.creationXpBalance,
+    };
+  }
+
+  function toUserSummary(profile: MockProfile) {
+    return { id: profile.userId, name: profile.name, avatarUrl: profile.avatarUrl };
+  }
+
+  function toTaskList(list: MockList) {
+    return {
+      id: list.id,
+      ownerUserId: list.ownerUserId,
+      name: list.name,
+      description: list.description,
+      isShared: list.isShared,
+    };
+  }
+
+  async function toTask(task: MockTask) {
+    const subtasks = await storage.getSubtasksByTask(task.id);
+    return {
+      id: task.id,
+      listId: task.listId,
+      creatorUserId: task.creatorUserId,
+      assigneeUserId: task.assigneeUserId,
+      approverUserId: task.approverUserId,
+      title: task.title,
+      description: task.description,
+      dueAt: task.dueAt,
+      rewardXp: task.rewardXp,
+      needsApproval: task.needsApproval,
+      status: task.status,
+      completedAt: task.completedAt,
+      subtasks: subtasks.map(({ id, taskId, title, isDone }) => ({ id, taskId, title, isDone })),
+    };
+  }
+
+  async function toComment(comment: MockComment, viewerId: string) {
+    const votes = await storage.getCommentVotes(comment.id);
+    const values = Array.from(votes.values());
+    return {
+      id: comment.id,
+      taskId: comment.taskId,
+      parentCommentId: comment.parentCommentId,
+      author: toUserSummary(await profileOf(comment.authorUserId)),
+      content: comment.content,
+      likes: values.filter((value) => value > 0).length,
+      dislikes: values.filter((value) => value < 0).length,
+      userVote: votes.get(viewerId) || 0,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+    };
+  }
+
+  function toNotification({ userId: _userId, archivedAt: _archivedAt, ...notification }: MockNotification) {
+    return notification;
+  }
+
+  async function inboxOf(userId: string): Promise<MockNotification[]> {
+    const notifications = await storage.getNotificationsByUser(userId);
+    return notifications.filter((notification) => !notification.archivedAt);
+  }
+
+  function countUnread(notifications: MockNotification[]): number {
+    return notifications.filter((notification) => !notification.isRead).length;
+  }
+
+  function readNotificationIds(body: Record<string, unknown>): Set<string> {
+    const ids = body.ids;
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > 100 || ids.some((id) => typeof id !== "string")) {
+      fail(400, "BAD_REQUEST", "ids must list between 1 and 100 notification ids", { field: "ids" });
+    }
+    return new Set(ids as string[]);
+  }
+
+  function invitePath(invite: MockInvite): string {
+    return `/invites/${invite.token}`;
+  }
+
+  function isInviteOpen(invite: MockInvite): boolean {
+    return !invite.acceptedAt && !invite.revokedAt && new Date(invite.expiresAt).getTime() > Date.now();
+  }
+
+  function isJoinCodeOpen(joinCode: MockJoinCode): boolean {
+    return (
+      !joinCode.revokedAt &&
+      new Date(joinCode.expiresAt).getTime() > Date.now() &&
+      (joinCode.maxUses === null || joinCode.uses < joinCode.maxUses)
+    );
+  }
+
+  async function toJoinCode(joinCode: MockJoinCode) {
+    const creator = await storage.getProfile(joinCode.createdByUserId);
+    return {
+      id: joinCode.id,
+      code: joinCode.code,
+      joinPath: `/join/${joinCode.code}`,
+      role: joinCode.role,
+      maxUses: joinCode.maxUses,
+      uses: joinCode.uses,
+      expiresAt: joinCode.expiresAt,
+      createdAt: joinCode.createdAt,
+      createdByName: creator?.name || "TaskQuest",
+    };
+  }
+
+  function requireEnergy(profile: MockProfile, amount: number) {
+    if (profile.creationXpBalance < amount) {
+      fail(422, "INSUFFICIENT_ENERGY", "Not enough energy for this action", {
+        required: amount,
+        available: profile.creationXpBalance,
+      });
+    }
+  }
+
+  async function adjustEnergy(
+    profile: MockProfile,
+    direction: "credit" | "debit",
+    amount: number,
+    sourceType: string,
+    sourceId: string | null,
+  ) {
+    if (direction === "debit") requireEnergy(profile, amount);
+    profile.creationXpBalance += direction === "credit" ? amount : -amount;
+    await storage.saveProfile(profile);
+    await storage.createLedgerEntry({
+      userId: profile.userId,
+      resourceType: "energy",
+      direction,
+      amount,
+      sourceType,
+      sourceId,
+      balanceAfter: profile.creationXpBalance,
+      metadata: {},
+    });
+  }
+
+  async function rechargeEnergy(profile: MockProfile) {
+    const date = today();
+    if (profile.energyRefilledOn === date) return;
+    profile.energyRefilledOn = date;
+    const amount = Math.min(DAILY_ENERGY_RECHARGE, Math.max(0, ENERGY_CAP - profile.creationXpBalance));
+    if (amount > 0) {
+      await adjustEnergy(profile, "credit", amount, "daily_recharge", null);
+    } else {
+      await storage.saveProfile(profile);
+    }
+  }
+
+  async function creditXp(
+    userId: string,
+    amount: number,
+    sourceType: string,
+    sourceId: string | null,
+    metadata: Record<string, unknown> = {},
+  ) {
+    const profile = await profileOf(userId);
+    const before = levelForXp(profile.totalXp).level;
+    profile.totalXp += amount;
+    await storage.saveProfile(profile);
+    await storage.createLedgerEntry({
+      userId,
+      resourceType: "xp",
+      direction: "credit",
+      amount,
+      sourceType,
+      sourceId,
+      balanceAfter: profile.totalXp,
+      metadata,
+    });
+
+    const after = levelForXp(profile.totalXp).level;
+    if (after > before) {
+      await storage.createFeedItem({
+        type: "user_level_up",
+        actorUserId: userId,
+        targetUserId: userId,
+        taskId: null,
+        listId: null,
+        payload: { actorName: profile.name, fromLevel: before, toLevel: after, newLevel: after },
+      });
+      await storage.createNotification({
+        userId,
+        type: "user_level_up",
+        title: "Subiu de nível!",
+        message: `Você chegou ao nível ${after}.`,
+        taskId: null,
+        payload: { fromLevel: before, toLevel: after },
+      });
+    }
+  }
+
+  async function recordTaskEvent(
+    type: string,
+    task: MockTask,
+    actor: MockProfile,
+    extra: Record<string, unknown> = {},
+    targetUserId: string | null = null,
+  ) {
+    const list = await storage.getList(task.listId);
+    await storage.createFeedItem({
+      type,
+      actorUserId: actor.userId,
+      targetUserId,
+      taskId: task.id,
+      listId: task.listId,
+      payload: {
+        actorName: actor.name,
+        taskTitle: task.title,
+        rewardXp: task.rewardXp,
+        listName: list?.name,
+        ...extra,
+      },
+    });
+  }
+
+  async function notify(
+    userId: string | null,
+    actor: MockProfile,
+    type: string,
+    task: MockTask,
+    title: string,
+    message: string,
+    payload: Record<string, unknown> = {},
+  ) {
+    if (!userId || userId === actor.userId) return;
+    await storage.createNotification({
+      userId,
+      type,
+      title,
+      message,
+      taskId: task.id,
+      payload: { taskId: task.id, listId: task.listId, actorName: actor.name, taskTitle: task.title, ...payload },
+    });
+  }
+
+  async function loadList(listId: string, userId: string): Promise<{ list: MockList; membership: MockMembership }> {
+    const list = await storage.getList(listId);
+    if (!list) fail(404, "NOT_FOUND", "List not found");
+    const membership = await storage.getMembership(listId, userId);
+    if (!membership) fail(403, "FORBIDDEN", "You are not a member of this list");
+    return { list, membership };
+  }
+
+  async function loadTask(taskId: string, userId: string) {
+    const task = await storage.getTask(taskId);
+    if (!task) fail(404, "NOT_FOUND", "Task not found");
+    const { list, membership } = await loadList(task.listId, userId);
+    return { task, list, membership };
+  }
+
+  function isManager(membership: MockMembership): boolean {
+    return membership.role === "owner" || membership.role === "admin";
+  }
+
+  function requireManager(membership: MockMembership) {
+    if (!isManager(membership)) {
+      fail(403, "FORBIDDEN", "Only list owners and admins can do this");
+    }
+  }
+
+  function canManageTask(task: MockTask, membership: MockMembership): boolean {
+    return task.creatorUserId === membership.userId || isManager(membership);
+  }
+
+  function canReview(task: MockTask, membership: MockMembership): boolean {
+    return task.approverUserId === membership.userId || canManageTask(task, membership);
+  }
+
+  async function requireMember(listId: string, userId: string, field: string) {
+    if (!(await storage.getMembership(listId, userId))) {
+      fail(400, "BAD_REQUEST", `${field} must be a member of the list`, { field });
+    }
+  }
+
+  async function awardTaskXp(task: MockTask, executorId: string) {
+    await creditXp(executorId, task.rewardXp, "task_completed", task.id, { taskTitle: task.title });
+    if (task.creatorUserId !== executorId) {
+      await creditXp(task.creatorUserId, creatorXpReward(task.rewardXp), "task_creator_bonus", task.id, {
+        taskTitle: task.title,
+      });
+    }
+  }
+
+  const sessionTtl = { accessMs: ACCESS_TOKEN_TTL_SECONDS * 1000, refreshMs: REFRESH_TOKEN_TTL_MS };
+
+  function toAuthResponse(session: MockSession, profile: MockProfile) {
+    return {
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      user: toUserProfile(profile),
+    };
+  }
+
+  async function authenticate(req: Request, res: Response, next: NextFunction) {
+    const match = /^Bearer\s+(\S+)/i.exec(req.headers.authorization || "");
+    const userId = match ? await storage.getSessionUserId(match[1]) : undefined;
+    const profile = userId ? await storage.getProfile(userId) : undefined;
+    if (!profile) {
+      return res.status(401).json({ error: { code: "UNAUTHORIZED", message: "Invalid or missing access token" } });
+    }
+
+    await rechargeEnergy(profile);
+    res.locals.mockProfile = profile;
+    return next();
+  }
+
+  router.post("/auth/register", async (req, res) => {
+    const body = req.body || {};
+    const name = readString(body, "name", { required: true, min: 2, max: 80 })!;
+    const email = readEmail(body);
+    const password = typeof body.password === "string" ? body.password : "";
+    if (password.length < 8) {
+      fail(400, "BAD_REQUEST", "password must have at least 8 characters", { field: "password" });
+    }
+    if (await storage.getUserByUsername(email)) {
+      fail(409, "CONFLICT", "An account with this email already exists");
+    }
+
+    const profile = await registerMockUser(storage, { name, email, password });
+    res.status(201).json(toAuthResponse(await storage.createSession(profile.userId, sessionTtl), profile));
+  });
+
+  router.post("/auth/login", async (req, res) => {
+    const body = req.body || {};
+    const email = readEmail(body);
+    const password = readString(body, "password", { required: true })!;
+    const user = await storage.getUserByUsername(email);
+    const profile = user ? await storage.getProfile(user.id) : undefined;
+    if (!user || !profile || !(await verifyPassword(password, user.password))) {
+      fail(401, "UNAUTHORIZED", "Invalid email or password");
+    }
+
+    await rechargeEnergy(profile);
+    res.json(toAuthResponse(await storage.createSession(user.id, sessionTtl), profile));
+  });
+
+  router.post("/auth/refresh", async (req, res) => {
+    const refreshToken = readString(req.body || {}, "refreshToken", { required: true })!;
+    const session = await storage.rotateSession(refreshToken, sessionTtl);
+    const profile = session ? await storage.getProfile(session.userId) : undefined;
+    if (!session || !profile) fail(401, "UNAUTHORIZED", "Invalid or expired refresh token");
+
+    await rechargeEnergy(profile);
+    res.json(toAuthResponse(session, profile));
+  });
+
+  // Works with an expired access token, so signing out always revokes the refresh token
+  router.post("/auth/logout", async (req, res) => {
+    const refreshToken = readString(req.body || {}, "refreshToken", { required: true })!;
+    await storage.deleteSession(refreshToken);
+    res.status(204).end();
+  });
+
+  router.use(authenticate);
+
+  router.get("/auth/me", (_req, res) => {
+    res.json(toUserProfile(currentProfile(res)));
+  });
+
+  router.get("/lists", async (req, res) => {
+    const me = currentProfile(res);
+    const memberships = await storage.getMembershipsByUser(me.userId);
+    const lists: MockList[] = [];
+    for (const membership of memberships) {
+      const list = await storage.getList(membership.listId);
+      if (list && matchesSearch(req, list.name, list.description)) lists.push(list);
+    }
+    const page = paginate(lists, req);
+    res.json({ data: page.data.map(toTaskList), nextCursor: page.nextCursor });
+  });
+
+  router.post("/lists", async (req, res) => {
+    const me = currentProfile(res);
+    const body = req.body || {};
+    const list = await storage.createList({
+      ownerUserId: me.userId,
+      name: readString(body, "name", { required: true, min: 2, max: 80 })!,
+      description: readString(body, "description", { max: 500 }),
+      isShared: true,
+    });
+    await storage.addMembership(list.id, me.userId, "owner");
+    res.status(201).json(toTaskList(list));
+  });
+
+  router.get("/lists/:listId", async (req, res) => {
+    const { list } = await loadList(req.params.listId, currentProfile(res).userId);
+    res.json(toTaskList(list));
+  });
+
+  router.delete("/lists/:listId", async (req, res) => {
+    const { list, membership } = await loadList(req.params.listId, currentProfile(res).userId);
+    if (membership.role !== "owner") fail(403, "FORBIDDEN", "Only the owner can delete this list");
+    await storage.deleteList(list.id);
+    res.status(204).end();
+  });
+
+  router.get("/lists/:listId/members", async (req, res) => {
+    const { list } = await loadList(req.params.listId, currentProfile(res).userId);
+    const members = [];
+    for (const membership of await storage.getMembershipsByList(list.id)) {
+      const profile = await profileOf(membership.userId);
+      members.push({
+        id: membership.id,
+        userId: membership.userId,
+        role: membership.role,
+        status: "active",
+        name: profile.name,
+        email: profile.email,
+        avatarUrl: profile.avatarUrl,
+        createdAt: membership.createdAt,
+      });
+    }
+    for (const invite of await storage.getInvitesByList(list.id)) {
+      if (!isInviteOpen(invite)) continue;
+      const invitee = await storage.getProfileByEmail(invite.email);
+      members.push({
+        id: invite.id,
+        userId: invitee?.userId || "",
+        role: invite.role,
+        status: "pending",
+        name: invitee?.name || invite.email,
+        email: invite.email,
+        avatarUrl: invitee?.avatarUrl || null,
+        invitePath: invitePath(invite),
+        createdAt: invite.createdAt,
+      });
+    }
+    res.json({ data: members });
+  });
+
+  router.post("/lists/:listId/members", async (req, res) => {
+    const { list, membership } = await loadList(req.params.listId, currentProfile(res).userId);
+    requireManager(membership);
+    const body = req.body || {};
+    const role = body.role;
+    if (role !== "admin" && role !== "member") {
+      fail(400, "BAD_REQUEST", "role must be admin or member", { field: "role" });
+    }
+
+    const userId = readString(body, "userId");
+    const target = userId ? await storage.getProfile(userId) : await storage.getProfileByEmail(readEmail(body));
+    if (!target) fail(404, "NOT_FOUND", "User not found");
+    if (await storage.getMembership(list.id, target.userId)) {
+      fail(409, "CONFLICT", "User is already a member of this list");
+    }
+
+    await storage.addMembership(list.id, target.userId, role);
+    res.status(201).end();
+  });
+
+  router.delete("/lists/:listId/members/:userId", async (req, res) => {
+    const me = currentProfile(res);
+    const { list, membership } = await loadList(req.params.listId, me.userId);
+    const target = await storage.getMembership(list.id, req.params.userId);
+    if (!target) fail(404, "NOT_FOUND", "Member not found");
+    if (target.role === "owner") fail(403, "FORBIDDEN", "The list owner cannot be removed");
+    if (target.userId !== me.userId) requireManager(membership);
+
+    await storage.removeMembership(list.id, target.userId);
+    res.status(204).end();
+  });
+
+  router.patch("/lists/:listId/members/:userId", async (req, res) => {
+    const { list, membership } = await loadList(req.params.listId, currentProfile(res).userId);
+    requireManager(membership);
+    const role = (req.body || {}).role;
+    if (role !== "admin" && role !== "member") {
+      fail(400, "BAD_REQUEST", "role must be admin or member", { field: "role" });
+    }
+    const target = await storage.getMembership(list.id, req.params.userId);
+    if (!target) fail(404, "NOT_FOUND", "Member not found");
+    if (target.role === "owner") fail(403, "FORBIDDEN", "The owner role cannot be changed");
+
+    await storage.saveMembership({ ...target, role });
+    res.status(204).end();
+  });
+
+  router.post("/lists/:listId/invites", async (req, res) => {
+    const me = currentProfile(res);
+    const { list, membership } = await loadList(req.params.listId, me.userId);
+    requireManager(membership);
+    const email = readEmail(req.body || {});
+    const invitee = await storage.getProfileByEmail(email);
+    if (invitee && (await storage.getMembership(list.id, invitee.userId))) {
+      fail(409, "CONFLICT", "This person is already a member of the list");
+    }
+
+    const invite = await storage.createInvite({
+      listId: list.id,
+      email,
+      role: "member",
+      invitedByUserId: me.userId,
+      expiresAt: new Date(Date.now() + INVITE_TTL_MS).toISOString(),
+    });
+    await storage.saveList({ ...list, isShared: true });
+    await storage.createFeedItem({
+      type: "list_invite_created",
+      actorUserId: me.userId,
+      targetUserId: invitee?.userId || null,
+      taskId: null,
+      listId: list.id,
+      payload: { actorName: me.name, listName: list.name },
+    });
+    if (invitee) {
+      await storage.createNotification({
+        userId: invitee.userId,
+        type: "list_invite_received",
+        title: "Novo convite",
+        message: `${me.name} convidou você para a lista ${list.name}.`,
+        taskId: null,
+        payload: { listId: list.id, listName: list.name, token: invite.token, invitePath: invitePath(invite) },
+      });
+    }
+
+    res.status(201).json({
+      token: invite.token,
+      invitePath: invitePath(invite),
+      email: invite.email,
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+    });
+  });
+
+  router.delete("/lists/:listId/invites/:inviteId", async (req, res) => {
+    const { list, membership } = await loadList(req.params.listId, currentProfile(res).userId);
+    requireManager(membership);
+    const invite = (await storage.getInvitesByList(list.id)).find(({ id }) => id === req.params.inviteId);
+    if (!invite) fail(404, "NOT_FOUND", "Invite not found");
+
+    await storage.saveInvite({ ...invite, revokedAt: invite.revokedAt || new Date().toISOString() });
+    res.status(204).end();
+  });
+
+  router.get("/invites/:token", async (req, res) => {
+    const invite = await storage.getInviteByToken(req.params.token);
+    const list = invite ? await storage.getList(invite.listId) : undefined;
+    if (!invite || !list) fail(404, "NOT_FOUND", "Invite not found");
+    if (invite.revokedAt || (!invite.acceptedAt && !isInviteOpen(invite))) {
+      fail(410, "INVITE_EXPIRED", "This invite is no longer valid");
+    }
+
+    const inviter = await storage.getProfile(invite.invitedByUserId);
+    res.json({
+      listId: list.id,
+      listName: list.name,
+      role: invite.role,
+      invitedByName: inviter?.name || "TaskQuest",
+      expiresAt: invite.expiresAt,
+      acceptedAt: invite.acceptedAt,
+      revokedAt: invite.revokedAt,
+    });
+  });
+
+  async function loadOpenInvite(token: string, me: MockProfile) {
+    const invite = await storage.getInviteByToken(token);
+    if (!invite || !(await storage.getList(invite.listId))) fail(404, "NOT_FOUND", "Invite not found");
+    if (!isInviteOpen(invite)) fail(410, "INVITE_EXPIRED", "This invite is no longer valid");
+    if (invite.email !== me.email) {
+      fail(400, "BAD_REQUEST", "This invite was sent to a different email address");
+    }
+    return invite;
+  }
+
+  router.post("/invites/:token/accept", async (req, res) => {
+    const me = currentProfile(res);
+    const invite = await loadOpenInvite(req.params.token, me);
+    if (!(await storage.getMembership(invite.listId, me.userId))) {
+      await storage.addMembership(invite.listId, me.userId, invite.role);
+    }
+    await storage.saveInvite({ ...invite, acceptedAt: new Date().toISOString() });
+    res.json({ listId: invite.listId });
+  });
+
+  router.post("/invites/:token/reject", async (req, res) => {
+    const invite = await loadOpenInvite(req.params.token, currentProfile(res));
+    await storage.saveInvite({ ...invite, revokedAt: new Date().toISOString() });
+    res.json({ listId: invite.listId });
+  });
+
+  router.get("/lists/:listId/join-codes", async (req, res) => {
+    const { list, membership } = await loadList(req.params.listId, currentProfile(res).userId);
+    requireManager(membership);
+    const joinCodes = (await storage.getJoinCodesByList(list.id)).filter(isJoinCodeOpen);
+    res.json({ data: await Promise.all(joinCodes.map(toJoinCode)) });
+  });
+
+  router.post("/lists/:listId/join-codes", async (req, res) => {
+    const me = currentProfile(res);
+    const { list, membership } = await loadList(req.params.listId, me.userId);
+    requireManager(membership);
+    const body = req.body || {};
+    const expiresInHours = readInteger(body, "expiresInHours", 1, MAX_JOIN_CODE_TTL_HOURS) ?? DEFAULT_JOIN_CODE_TTL_HOURS;
+    const maxUses = readInteger(body, "maxUses", 1, MAX_JOIN_CODE_USES);
+    const role = body.role ?? "member";
+    if (role !== "admin" && role !== "member") {
+      fail(400, "BAD_REQUEST", "role must be admin or member", { field: "role" });
+    }
+
+    const joinCode = await storage.createJoinCode({
+      listId: list.id,
+      role,
+      maxUses,
+      createdByUserId: me.userId,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString(),
+    });
+    await storage.saveList({ ...list, isShared: true });
+    res.status(201).json(await toJoinCode(joinCode));
+  });
+
+  router.delete("/lists/:listId/join-codes/:joinCodeId", async (req, res) => {
+    const { list, membership } = await loadList(req.params.listId, currentProfile(res).userId);
+    requireManager(membership);
+    const joinCode = (await storage.getJoinCodesByList(list.id)).find(({ id }) => id === req.params.joinCodeId);
+    if (!joinCode) fail(404, "NOT_FOUND", "Join code not found");
+
+    await storage.saveJoinCode({ ...joinCode, revokedAt: joinCode.revokedAt || new Date().toISOString() });
+    res.status(204).end();
+  });
+
+  async function loadOpenJoinCode(code: string) {
+    const joinCode = await storage.getJoinCodeByCode(code.toUpperCase());
+    const list = joinCode ? await storage.getList(joinCode.listId) : undefined;
+    if (!joinCode || !list) fail(404, "NOT_FOUND", "No list uses this code");
+    if (!isJoinCodeOpen(joinCode)) fail(410, "JOIN_CODE_EXPIRED", "This code has expired or was used up");
+    return { joinCode, list };
+  }
+
+  router.get("/join-codes/:code", async (req, res) => {
+    const { joinCode, list } = await loadOpenJoinCode(req.params.code);
+    const creator = await storage.getProfile(joinCode.createdByUserId);
+    res.json({
+      listId: list.id,
+      listName: list.name,
+      role: joinCode.role,
+      createdByName: creator?.name || "TaskQuest",
+      expiresAt: joinCode.expiresAt,
+      isMember: !!(await storage.getMembership(list.id, currentProfile(res).userId)),
+    });
+  });
+
+  router.post("/join-codes/:code/redeem", async (req, res) => {
+    const me = currentProfile(res);
+    const { joinCode, list } = await loadOpenJoinCode(req.params.code);
+    // Scanning twice must not burn a second use or demote an existing member
+    if (!(await storage.getMembership(list.id, me.userId))) {
+      await storage.addMembership(list.id, me.userId, joinCode.role);
+      await storage.saveJoinCode({ ...joinCode, uses: joinCode.uses + 1 });
+    }
+    res.json({ listId: list.id });
+  });
+
+  router.get("/lists/:listId/tasks", async (req, res) => {
+    const { list } = await loadList(req.params.listId, currentProfile(res).userId);
+    const tasks = (await storage.getTasksByList(list.id)).filter((task) =>
+      matchesSearch(req, task.title, task.description),
+    );
+    const page = paginate(tasks, req);
+    res.json({ data: await Promise.all(page.data.map(toTask)), nextCursor: page.nextCursor });
+  });
+
+  router.post("/lists/:listId/tasks", async (req, res) => {
+    const me = currentProfile(res);
+    const { list } = await loadList(req.params.listId, me.userId);
+    const body = req.body || {};
+    const title = readString(body, "title", { required: true, min: 2, max: 120 })!;
+    const rewardXp = body.rewardXp;
+    if (!Number.isInteger(rewardXp) || rewardXp < MIN_REWARD_XP || rewardXp > MAX_REWARD_XP) {
+      fail(400, "BAD_REQUEST", `rewardXp must be an integer between ${MIN_REWARD_XP} and ${MAX_REWARD_XP}`, {
+        field: "rewardXp",
+      });
+    }
+    const needsApproval = body.needsApproval === true;
+    const assigneeUserId = readString(body, "assigneeUserId");
+    const approverUserId = readString(body, "approverUserId");
+    if (assigneeUserId) await requireMember(list.id, assigneeUserId, "assigneeUserId");
+    if (approverUserId) await requireMember(list.id, approverUserId, "approverUserId");
+
+    const cost = taskEnergyCost(rewardXp);
+    requireEnergy(me, cost);
+    const task = await storage.createTask({
+      listId: list.id,
+      creatorUserId: me.userId,
+      assigneeUserId,
+      approverUserId: needsApproval ? approverUserId || me.userId : null,
+      title,
+      description: readString(body, "description", { max: 1000 }),
+      dueAt: readDate(body, "dueAt"),
+      rewardXp,
+      needsApproval,
+    });
+
+    await adjustEnergy(me, "debit", cost, "task_created", task.id);
+    await recordTaskEvent("task_created", task, me, { energyCost: cost, dueAt: task.dueAt });
+    await notify(assigneeUserId, me, "task_assigned", task, "Nova tarefa", `${me.name} atribuiu "${title}" a você.`);
+    res.status(201).json(await toTask(task));
+  });
+
+  router.get("/tasks/:taskId", async (req, res) => {
+    const { task } = await loadTask(req.params.taskId, currentProfile(res).userId);
+    res.json(await toTask(task));
+  });
+
+  router.delete("/tasks/:taskId", async (req, res) => {
+    const { task, membership } = await loadTask(req.params.taskId, currentProfile(res).userId);
+    if (!canManageTask(task, membership)) fail(403, "FORBIDDEN", "Only the creator or list admins can delete this task");
+    await storage.deleteTask(task.id);
+    res.status(204).end();
+  });
+
+  router.get("/tasks/:taskId/details", async (req, res) => {
+    const { task, list, membership } = await loadTask(req.params.taskId, currentProfile(res).userId);
+    const members = await storage.getMembershipsByList(list.id);
+    const assignableUsers = await Promise.all(members.map(async ({ userId }) => toUserSummary(await profileOf(userId))));
+    res.json({
+      task: await toTask(task),
+      creator: toUserSummary(await profileOf(task.creatorUserId)),
+      assignee: task.assigneeUserId ? toUserSummary(await profileOf(task.assigneeUserId)) : null,
+      assignableUsers,
+      canManageAssignee: canManageTask(task, membership),
+    });
+  });
+
+  function requireEditable(task: MockTask) {
+    if (task.status === "completed" || task.status === "pending_approval") {
+      fail(409, "CONFLICT", "Completed or pending tasks cannot be changed", { status: task.status });
+    }
+  }
+
+  router.patch("/tasks/:taskId/status", async (req, res) => {
+    const me = currentProfile(res);
+    const { task, membership } = await loadTask(req.params.taskId, me.userId);
+    const status = (req.body || {}).status;
+    if (status !== "open" && status !== "in_progress" && status !== "cancelled") {
+      fail(400, "BAD_REQUEST", "status must be open, in_progress or cancelled", { field: "status" });
+    }
+    requireEditable(task);
+    if (!canManageTask(task, membership) && task.assigneeUserId !== me.userId) {
+      fail(403, "FORBIDDEN", "You cannot change the status of this task");
+    }
+
+    const previousAssignee = task.assigneeUserId;
+    task.status = status;
+    if (status === "in_progress" && !task.assigneeUserId) task.assigneeUserId = me.userId;
+    // Executors giving a task back free it up for someone else
+    if (status === "open" && previousAssignee === me.userId) task.assigneeUserId = null;
+    await storage.saveTask(task);
+    if (status === "open" && previousAssignee === me.userId) {
+      await recordTaskEvent("task_started", task, me, { action: "released" });
+    }
+    res.json(await toTask(task));
+  });
+
+  router.patch("/tasks/:taskId/assignee", async (req, res) => {
+    const me = currentProfile(res);
+    const { task, membership } = await loadTask(req.params.taskId, me.userId);
+    const body = req.body || {};
+    if (!("assigneeUserId" in body)) {
+      fail(400, "BAD_REQUEST", "assigneeUserId is required", { field: "assigneeUserId" });
+    }
+    const assigneeUserId = readString(body, "assigneeUserId");
+    requireEditable(task);
+    const selfAssign = assigneeUserId === me.userId && !task.assigneeUserId;
+    if (!canManageTask(task, membership) && !selfAssign) {
+      fail(403, "FORBIDDEN", "You cannot change the assignee of this task");
+    }
+    if (assigneeUserId) await requireMember(task.listId, assigneeUserId, "assigneeUserId");
+
+    task.assigneeUserId = assigneeUserId;
+    await storage.saveTask(task);
+    await notify(assigneeUserId, me, "task_assigned", task, "Nova tarefa", `${me.name} atribuiu "${task.title}" a você.`);
+    res.json(await toTask(task));
+  });
+
+  // Changing the approver sends a pending task back to the executor
+  router.patch("/tasks/:taskId/approver", async (req, res) => {
+    const me = currentProfile(res);
+    const { task, membership } = await loadTask(req.params.taskId, me.userId);
+    const approverUserId = readString(req.body || {}, "approverUserId", { required: true })!;
+    if (!canManageTask(task, membership)) fail(403, "FORBIDDEN", "You cannot change the approver of this task");
+    if (task.status === "completed" || task.status === "cancelled") {
+      fail(409, "CONFLICT", "The approver of a closed task cannot be changed", { status: task.status });
+    }
+    await requireMember(task.listId, approverUserId, "approverUserId");
+
+    task.approverUserId = approverUserId;
+    task.needsApproval = true;
+    if (task.status === "pending_approval") task.status = "in_progress";
+    await storage.saveTask(task);
+    res.json(await toTask(task));
+  });
+
+  router.post("/tasks/:taskId/subtasks", async (req, res) => {
+    const { task } = await loadTask(req.params.taskId, currentProfile(res).userId);
+    requireEditable(task);
+    const subtask = await storage.createSubtask(
+      task.id,
+      readString(req.body || {}, "title", { required: true, min: 1, max: 120 })!,
+    );
+    res.status(201).json({ id: subtask.id, taskId: subtask.taskId, title: subtask.title, isDone: subtask.isDone });
+  });
+
+  async function loadSubtask(subtaskId: string, userId: string) {
+    const subtask = await storage.getSubtask(subtaskId);
+    if (!subtask) fail(404, "NOT_FOUND", "Subtask not found");
+    const { task } = await loadTask(subtask.taskId, userId);
+    requireEditable(task);
+    return subtask;
+  }
+
+  router.patch("/subtasks/:subtaskId", async (req, res) => {
+    const subtask = await loadSubtask(req.params.subtaskId, currentProfile(res).userId);
+    const body = req.body || {};
+    const title = readString(body, "title", { min: 1, max: 120 });
+    if (body.isDone !== undefined && typeof body.isDone !== "boolean") {
+      fail(400, "BAD_REQUEST", "isDone must be a boolean", { field: "isDone" });
+    }
+
+    const updated = await storage.saveSubtask({
+      ...subtask,
+      title: title ?? subtask.title,
+      isDone: body.isDone ?? subtask.isDone,
+    });
+    res.json({ id: updated.id, taskId: updated.taskId, title: updated.title, isDone: updated.isDone });
+  });
+
+  router.delete("/subtasks/:subtaskId", async (req, res) => {
+    const subtask = await loadSubtask(req.params.subtaskId, currentProfile(res).userId);
+    await storage.deleteSubtask(subtask.id);
+    res.status(204).end();
+  });
+
+  router.post("/tasks/:taskId/start", async (req, res) => {
+    const me = currentProfile(res);
+    const { task } = await loadTask(req.params.taskId, me.userId);
+    if (task.status !== "open") fail(409, "CONFLICT", "Only open tasks can be started", { status: task.status });
+    if (task.assigneeUserId && task.assigneeUserId !== me.userId) {
+      fail(403, "FORBIDDEN", "This task is assigned to someone else");
+    }
+
+    task.assigneeUserId = me.userId;
+    task.status = "in_progress";
+    await storage.saveTask(task);
+    await recordTaskEvent("task_started", task, me);
+    res.json(await toTask(task));
+  });
+
+  router.post("/tasks/:taskId/complete", async (req, res) => {
+    const me = currentProfile(res);
+    const { task } = await loadTask(req.params.taskId, me.userId);
+    if (task.status !== "open" && task.status !== "in_progress") {
+      fail(409, "CONFLICT", "This task cannot be completed in its current state", { status: task.status });
+    }
+    if (task.assigneeUserId && task.assigneeUserId !== me.userId) {
+      fail(403, "FORBIDDEN", "Only the assignee can complete this task");
+    }
+    const pending = (await storage.getSubtasksByTask(task.id)).filter((subtask) => !subtask.isDone);
+    if (pending.length > 0) {
+      fail(422, "SUBTASKS_INCOMPLETE", "Finish all subtasks before completing the task", {
+        pendingSubtasks: pending.length,
+      });
+    }
+
+    task.assigneeUserId = me.userId;
+    if (task.needsApproval) {
+      task.status = "pending_approval";
+      await storage.saveTask(task);
+      await recordTaskEvent("task_pending_approval", task, me, {}, task.approverUserId);
+      await notify(
+        task.approverUserId || task.creatorUserId,
+        me,
+        "task_pending_approval",
+        task,
+        "Aprovação pendente",
+        `${me.name} concluiu "${task.title}" e aguarda sua aprovação.`,
+      );
+    } else {
+      task.status = "completed";
+      task.completedAt = new Date().toISOString();
+      await storage.saveTask(task);
+      await awardTaskXp(task, me.userId);
+      await recordTaskEvent("task_completed", task, me, { xpGained: task.rewardXp });
+    }
+    res.json(await toTask(task));
+  });
+
+  router.post("/tasks/:taskId/approve", async (req, res) => {
+    const me = currentProfile(res);
+    const { task, membership } = await loadTask(req.params.taskId, me.userId);
+    if (task.status !== "pending_approval") {
+      fail(409, "CONFLICT", "Only tasks pending approval can be approved", { status: task.status });
+    }
+    if (!canReview(task, membership)) fail(403, "FORBIDDEN", "You cannot approve this task");
+
+    task.status = "completed";
+    task.completedAt = new Date().toISOString();
+    await storage.saveTask(task);
+    if (task.assigneeUserId) await awardTaskXp(task, task.assigneeUserId);
+    await recordTaskEvent("task_approved", task, me, { xpGained: task.rewardXp }, task.assigneeUserId);
+    await notify(
+      task.assigneeUserId,
+      me,
+      "task_approved",
+      task,
+      "Tarefa aprovada",
+      `${me.name} aprovou "${task.title}". +${task.rewardXp} XP!`,
+      { xpGained: task.rewardXp },
+    );
+    res.json(await toTask(task));
+  });
+
+  router.post("/tasks/:taskId/reject", async (req, res) => {
+    const me = currentProfile(res);
+    const { task, membership } = await loadTask(req.params.taskId, me.userId);
+    const reason = readString(req.body || {}, "reason", { required: true, min: 5, max: 500 })!;
+    if (task.status !== "pending_approval") {
+      fail(409, "CONFLICT", "Only tasks pending approval can be rejected", { status: task.status });
+    }
+    if (!canReview(task, membership)) fail(403, "FORBIDDEN", "You cannot reject this task");
+
+    task.status = task.assigneeUserId ? "in_progress" : "open";
+    await storage.saveTask(task);
+    await recordTaskEvent("task_rejected", task, me, { reason }, task.assigneeUserId);
+    await notify(
+      task.assigneeUserId,
+      me,
+      "task_rejected",
+      task,
+      "Tarefa rejeitada",
+      `${me.name} rejeitou "${task.title}": ${reason}`,
+      { reason },
+    );
+    res.json(await toTask(task));
+  });
+
+  router.get("/tasks/:taskId/activity", async (req, res) => {
+    const { task } = await loadTask(req.params.taskId, currentProfile(res).userId);
+    const items = (await storage.listFeedItems()).filter((item) => item.taskId === task.id);
+    res.json(paginate(items, req));
+  });
+
+  router.get("/tasks/:taskId/comments", async (req, res) => {
+    const me = currentProfile(res);
+    const { task } = await loadTask(req.params.taskId, me.userId);
+    const comments = await storage.getCommentsByTask(task.id);
+    res.json({ data: await Promise.all(comments.map((comment) => toComment(comment, me.userId))) });
+  });
+
+  router.post("/tasks/:taskId/comments", async (req, res) => {
+    const me = currentProfile(res);
+    const { task } = await loadTask(req.params.taskId, me.userId);
+    const body = req.body || {};
+    const content = readString(body, "content", { required: true, min: 1, max: 2000 })!;
+    const parentCommentId = readString(body, "parentCommentId");
+    if (parentCommentId && (await storage.getComment(parentCommentId))?.taskId !== task.id) {
+      fail(400, "BAD_REQUEST", "parentCommentId must belong to the same task", { field: "parentCommentId" });
+    }
+
+    await adjustEnergy(me, "debit", COMMENT_ENERGY_COST, "comment_created", task.id);
+    const comment = await storage.createComment({ taskId: task.id, parentCommentId, authorUserId: me.userId, content });
+    res.status(201).json(await toComment(comment, me.userId));
+  });
+
+  router.post("/comments/:commentId/vote", async (req, res) => {
+    const me = currentProfile(res);
+    const comment = await storage.getComment(req.params.commentId);
+    if (!comment) fail(404, "NOT_FOUND", "Comment not found");
+    await loadTask(comment.taskId, me.userId);
+    const value = (req.body || {}).value;
+    if (value !== -1 && value !== 0 && value !== 1) {
+      fail(400, "BAD_REQUEST", "value must be -1, 0 or 1", { field: "value" });
+    }
+
+    const previous = (await storage.getCommentVotes(comment.id)).get(me.userId) || 0;
+    if (value !== 0 && value !== previous) {
+      await adjustEnergy(me, "debit", VOTE_ENERGY_COST, "comment_vote", comment.id);
+    }
+    await storage.setCommentVote(comment.id, me.userId, value);
+    res.json(await toComment(comment, me.userId));
+  });
+
+  router.get("/feed", async (req, res) => {
+    const me = currentProfile(res);
+    const listIds = new Set((await storage.getMembershipsByUser(me.userId)).map(({ listId }) => listId));
+    const includeDismissed = req.query.includeDismissed === "1";
+    const items = [];
+    for (const item of await storage.listFeedItems()) {
+      const visible =
+        (item.listId && listIds.has(item.listId)) || item.actorUserId === me.userId || item.targetUserId === me.userId;
+      if (!visible) continue;
+      if (!includeDismissed && (await storage.isFeedItemDismissed(me.userId, item.id))) continue;
+      if (!matchesSearch(req, item.payload.taskTitle as string, item.payload.actorName as string)) continue;
+      items.push(item);
+    }
+    res.json(paginate(items, req));
+  });
+
+  async function setDismissed(req: Request, res: Response, dismissed: boolean) {
+    const item = await storage.getFeedItem(String(req.params.feedItemId));
+    if (!item) fail(400, "BAD_REQUEST", "Unknown feed item");
+    await storage.setFeedItemDismissed(currentProfile(res).userId, item.id, dismissed);
+    res.status(204).end();
+  }
+
+  router.post("/feed/:feedItemId/dismiss", (req, res) => setDismissed(req, res, true));
+  router.delete("/feed/:feedItemId/dismiss", (req, res) => setDismissed(req, res, false));
+  router.post("/feed/:feedItemId/restore", (req, res) => setDismissed(req, res, false));
+
+  router.get("/notifications", async (req, res) => {
+    const notifications = await inboxOf(currentProfile(res).userId);
+    const page = paginate(notifications, req);
+    res.json({
+      data: page.data.map(toNotification),
+      unreadCount: countUnread(notifications),
+      nextCursor: page.nextCursor,
+    });
+  });
+
+  router.post("/notifications/read-all", async (_req, res) => {
+    const notifications = await inboxOf(currentProfile(res).userId);
+    const readAt = new Date().toISOString();
+    const unread = notifications.filter((notification) => !notification.isRead);
+    for (const notification of unread) {
+      await storage.saveNotification({ ...notification, isRead: true, readAt });
+    }
+    res.json({ updated: unread.length, unreadCount: 0 });
+  });
+
+  router.post("/notifications/archive", async (req, res) => {
+    const ids = readNotificationIds(req.body || {});
+    const userId = currentProfile(res).userId;
+    const archivedAt = new Date().toISOString();
+    const archived = (await inboxOf(userId)).filter(({ id }) => ids.has(id));
+    for (const notification of archived) {
+      await storage.saveNotification({ ...notification, archivedAt });
+    }
+    res.json({ updated: archived.length, unreadCount: countUnread(await inboxOf(userId)) });
+  });
+
+  router.post("/notifications/delete", async (req, res) => {
+    const ids = readNotificationIds(req.body || {});
+    const userId = currentProfile(res).userId;
+    const deleted = (await storage.getNotificationsByUser(userId)).filter(({ id }) => ids.has(id));
+    for (const notification of deleted) {
+      await storage.deleteNotification(notification.id);
+    }
+    res.json({ updated: deleted.length, unreadCount: countUnread(await inboxOf(userId)) });
+  });
+
+  router.post("/notifications/:notificationId/read", async (req, res) => {
+    const notifications = await storage.getNotificationsByUser(currentProfile(res).userId);
+    const notification = notifications.find(({ id }) => id === req.params.notificationId);
+    if (!notification) fail(404, "NOT_FOUND", "Notification not found");
+
+    if (!notification.isRead) {
+      notification.isRead = true;
+      notification.readAt = new Date().toISOString();
+      await storage.saveNotification(notification);
+    }
+    res.json(toNotification(notification));
+  });
+
+  router.get("/me/ledger", async (req, res) => {
+    const resourceType = String(req.query.resourceType || "all");
+    if (resourceType !== "all" && resourceType !== "xp" && resourceType !== "energy") {
+      fail(400, "BAD_REQUEST", "resourceType must be all, xp or energy", { field: "resourceType" });
+    }
+    const limit = Number.parseInt(String(req.query.limit || "10"), 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+      fail(400, "BAD_REQUEST", "limit must be between 1 and 50", { field: "limit" });
+    }
+
+    const entries = (await storage.getLedgerByUser(currentProfile(res).userId))
+      .filter((entry) => resourceType === "all" || entry.resourceType === resourceType)
+      .slice(0, limit)
+      .map(({ userId: _userId, ...entry }) => entry);
+    res.json({ data: entries });
+  });
+
+  router.post("/gamification/xp-suggestions", (req, res) => {
+    const body = req.body || {};
+    const title = readString(body, "title", { required: true })!;
+    res.json(suggestRewardXp(title, readString(body, "description") || ""));
+  });
+
+  async function sendLeaderboard(req: Request, res: Response, userIds: string[]) {
+    const entries = [];
+    const completedByUser = new Map<string, number>();
+    for (const profile of await storage.listProfiles()) {
+      if (!userIds.includes(profile.userId)) continue;
+      entries.push({
+        userId: profile.userId,
+        name: profile.name,
+        avatarUrl: profile.avatarUrl,
+        totalXp: profile.totalXp,
+        level: levelForXp(profile.totalXp).level,
+        completedTasks: 0,
+      });
+    }
+    for (const membership of await storage.getMembershipsByUser(currentProfile(res).userId)) {
+      for (const task of await storage.getTasksByList(membership.listId)) {
+        if (task.status === "completed" && task.assigneeUserId) {
+          completedByUser.set(task.assigneeUserId, (completedByUser.get(task.assigneeUserId) || 0) + 1);
+        }
+      }
+    }
+
+    entries.forEach((entry) => (entry.completedTasks = completedByUser.get(entry.userId) || 0));
+    entries.sort((a, b) => b.totalXp - a.totalXp || a.name.localeCompare(b.name));
+    res.json(paginate(entries, req));
+  }
+
+  router.get("/gamification/leaderboard/global", async (req, res) => {
+    const profiles = await storage.listProfiles();
+    await sendLeaderboard(req, res, profiles.map(({ userId }) => userId));
+  });
+
+  async function sendListLeaderboard(req: Request, res: Response) {
+    const { list } = await loadList(String(req.params.listId), currentProfile(res).userId);
+    const members = await storage.getMembershipsByList(list.id);
+    await sendLeaderboard(req, res, members.map(({ userId }) => userId));
+  }
+
+  router.get("/gamification/leaderboard/lists/:listId", sendListLeaderboard);
+
+  router.use((_req, res) => {
+    res.status(404).json({ error: { code: "NOT_FOUND", message: "Route not found" } });
+  });
+
+  router.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof MockApiError) {
+      return res.status(err.status).json({
+        error: { code: err.code, message: err.message, ...(err.details ? { details: err.details } : {}) },
+      });
+    }
+
+    logger.error("Mock API error", { error: err });
+    return res.status(500).json({ error: { code: "INTERNAL_ERROR", message: "Mock API failure" } });
+  });
+
+  return router;
+}
+
+export async function registerMockUser(
+  storage: IMockApiStorage,
+  { name, email, password, avatarUrl = null }: { name: string; email: string; password: string; avatarUrl?: string | null },
+): Promise<MockProfile> {
+  const user = await storage.createUser({ username: email.toLowerCase(), password: await hashPassword(password) });
+  const profile = await storage.saveProfile({
+    userId: user.id,
+    name,
+    email: email.toLowerCase(),
+    avatarUrl,
+    totalXp: 0,
+    creationXpBalance: INITIAL_ENERGY,
+    energyRefilledOn: today(),
+  });
+  await storage.createLedgerEntry({
+    userId: user.id,
+    resourceType: "energy",
+    direction: "credit",
+    amount: INITIAL_ENERGY,
+    sourceType: "initial_balance",
+    sourceId: null,
+    balanceAfter: INITIAL_ENERGY,
+    metadata: {},
+  });
+
+  const personal = await storage.createList({
+    ownerUserId: user.id,
+    name: "Minhas tarefas",
+    description: null,
+    isShared: false,
+  });
+  await storage.addMembership(personal.id, user.id, "owner");
+  return profile;
+}
@@ -0,0 +1,65 @@
+function readNumber(envName: string, fallback: number): number {
+  const value = Number(process.env[envName]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export const MIN_REWARD_XP = 5;
+export const MAX_REWARD_XP = 50;
+export const INITIAL_ENERGY = readNumber("MOCK_API_INITIAL_ENERGY", 100);
+export const DAILY_ENERGY_RECHARGE = readNumber("MOCK_API_DAILY_ENERGY", 100);
+export const ENERGY_CAP = readNumber("MOCK_API_ENERGY_CAP", 200);
+export const TASK_COST_MULTIPLIER = readNumber("MOCK_API_TASK_COST_MULTIPLIER", 0.5);
+export const TASK_COST_FEE = readNumber("MOCK_API_TASK_COST_FEE", 0.1);
+export const COMMENT_ENERGY_COST = readNumber("MOCK_API_COMMENT_COST", 2);
+export const VOTE_ENERGY_COST = readNumber("MOCK_API_VOTE_COST", 1);
+export const CREATOR_XP_SHARE = readNumber("MOCK_API_CREATOR_XP_SHARE", 0.1);
+export const ACCESS_TOKEN_TTL_SECONDS = readNumber("MOCK_API_ACCESS_TOKEN_TTL_SECONDS", 60 * 60);
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const DEFAULT_JOIN_CODE_TTL_HOURS = 24;
+export const MAX_JOIN_CODE_TTL_HOURS = 30 * 24;
+export const MAX_JOIN_CODE_USES = 50;
+
+// reward / 2 + 10% fee, so a 50 XP task costs 30 energy
+export function taskEnergyCost(rewardXp: number): number {
+  return Math.ceil(rewardXp * TASK_COST_MULTIPLIER + rewardXp * TASK_COST_FEE);
+}
+
+export function creatorXpReward(rewardXp: number): number {
+  return Math.max(1, Math.round(rewardXp * CREATOR_XP_SHARE));
+}
+
+// Level 1 starts at 0 XP and each level needs 100 * level more
+export function levelForXp(totalXp: number): { level: number; xpToNextLevel: number } {
+  let level = 1;
+  let threshold = 100;
+  while (totalXp >= threshold) {
+    level += 1;
+    threshold += 100 * level;
+  }
+  return { level, xpToNextLevel: threshold - totalXp };
+}
+
+const XP_KEYWORDS: { pattern: RegExp; weight: number }[] = [
+  { pattern: /limp|faxin|clean|lav|wash/i, weight: 10 },
+  { pattern: /organiz|arrum|tidy|sort/i, weight: 8 },
+  { pattern: /compra|mercado|shop|grocer/i, weight: 6 },
+  { pattern: /estud|study|dever|homework|prova|exam/i, weight: 12 },
+  { pattern: /consert|repar|fix|instal/i, weight: 15 },
+  { pattern: /jardim|garden|quintal|yard/i, weight: 12 },
+];
+
+export function suggestRewardXp(title: string, description = ""): { suggestedXp: number; justification: string } {
+  const text = `${title} ${description}`;
+  const matched = XP_KEYWORDS.filter(({ pattern }) => pattern.test(text));
+  const keywordXp = matched.reduce((sum, { weight }) => sum + weight, 0);
+  const lengthXp = Math.min(15, Math.floor(description.length / 40));
+  const suggestedXp = Math.min(MAX_REWARD_XP, Math.max(MIN_REWARD_XP, 10 + keywordXp + lengthXp));
+
+  const justification =
+    matched.length > 0
+      ? `Sugestão heurística: tarefa com ${matched.length} indicador(es) de esforço e descrição de ${description.length} caracteres.`
+      : "Sugestão heurística: tarefa simples sem indicadores de esforço adicionais.";
+
+  return { suggestedXp, justification };
+}
@@ -0,0 +1,216 @@
+import { INVITE_TTL_MS, creatorXpReward, levelForXp, taskEnergyCost } from "./rules";
+import { registerMockUser } from "./routes";
+import type { IMockApiStorage, MockProfile, MockTask, TaskStatus } from "./storage";
+
+export const DEMO_PASSWORD = "taskquest123";
+
+type SeedTask = {
+  title: string;
+  description?: string;
+  rewardXp: number;
+  creator: MockProfile;
+  assignee?: MockProfile;
+  approver?: MockProfile;
+  status?: TaskStatus;
+  dueInDays?: number;
+  subtasks?: [title: string, isDone: boolean][];
+};
+
+async function creditSeedXp(storage: IMockApiStorage, profile: MockProfile, amount: number, sourceType: string, task: MockTask) {
+  profile.totalXp += amount;
+  await storage.saveProfile(profile);
+  await storage.createLedgerEntry({
+    userId: profile.userId,
+    resourceType: "xp",
+    direction: "credit",
+    amount,
+    sourceType,
+    sourceId: task.id,
+    balanceAfter: profile.totalXp,
+    metadata: { taskTitle: task.title },
+  });
+}
+
+async function seedTask(storage: IMockApiStorage, listId: string, listName: string, seed: SeedTask) {
+  const { creator, assignee, approver, status = "open" } = seed;
+  const task = await storage.createTask({
+    listId,
+    creatorUserId: creator.userId,
+    assigneeUserId: assignee?.userId || null,
+    approverUserId: approver?.userId || null,
+    title: seed.title,
+    description: seed.description || null,
+    dueAt: seed.dueInDays === undefined ? null : new Date(Date.now() + seed.dueInDays * 86_400_000).toISOString(),
+    rewardXp: seed.rewardXp,
+    needsApproval: Boolean(approver),
+  });
+  for (const [title, isDone] of seed.subtasks || []) {
+    const subtask = await storage.createSubtask(task.id, title);
+    if (isDone) await storage.saveSubtask({ ...subtask, isDone });
+  }
+
+  const cost = taskEnergyCost(task.rewardXp);
+  creator.creationXpBalance -= cost;
+  await storage.saveProfile(creator);
+  await storage.createLedgerEntry({
+    userId: creator.userId,
+    resourceType: "energy",
+    direction: "debit",
+    amount: cost,
+    sourceType: "task_created",
+    sourceId: task.id,
+    balanceAfter: creator.creationXpBalance,
+    metadata: {},
+  });
+
+  const payload = { actorName: creator.name, taskTitle: task.title, rewardXp: task.rewardXp, listName };
+  await storage.createFeedItem({ type: "task_created", actorUserId: creator.userId, targetUserId: null, taskId: task.id, listId, payload });
+
+  if (status === "open" || !assignee) return task;
+  task.status = status;
+  if (status === "completed") {
+    task.completedAt = new Date().toISOString();
+    await creditSeedXp(storage, assignee, task.rewardXp, "task_completed", task);
+    if (creator.userId !== assignee.userId) {
+      await creditSeedXp(storage, creator, creatorXpReward(task.rewardXp), "task_creator_bonus", task);
+    }
+  }
+  await storage.saveTask(task);
+
+  const type = status === "in_progress" ? "task_started" : status === "completed" ? "task_completed" : "task_pending_approval";
+  await storage.createFeedItem({
+    type,
+    actorUserId: assignee.userId,
+    targetUserId: approver?.userId || null,
+    taskId: task.id,
+    listId,
+    payload: { ...payload, actorName: assignee.name },
+  });
+  if (status === "pending_approval" && approver) {
+    await storage.createNotification({
+      userId: approver.userId,
+      type: "task_pending_approval",
+      title: "Aprovação pendente",
+      message: `${assignee.name} concluiu "${task.title}" e aguarda sua aprovação.`,
+      taskId: task.id,
+      payload: { taskId: task.id, listId, actorName: assignee.name, taskTitle: task.title },
+    });
+  }
+  return task;
+}
+
+/** Demo families for local development; every account uses DEMO_PASSWORD */
+export async function seedMockApi(storage: IMockApiStorage): Promise<string[]> {
+  const register = (name: string, email: string) => registerMockUser(storage, { name, email, password: DEMO_PASSWORD });
+
+  const paula = await register("Paula Silva", "paula@silva.demo");
+  const carlos = await register("Carlos Silva", "carlos@silva.demo");
+  const leo = await register("Leo Silva", "leo@silva.demo");
+  const rafa = await register("Rafa Costa", "rafa@republica.demo");
+  const sofia = await register("Sofia Lima", "sofia@republica.demo");
+
+  const casa = await storage.createList({
+    ownerUserId: paula.userId,
+    name: "Casa da Família Silva",
+    description: "Tarefas domésticas da semana",
+    isShared: true,
+  });
+  await storage.addMembership(casa.id, paula.userId, "owner");
+  await storage.addMembership(casa.id, carlos.userId, "admin");
+  await storage.addMembership(casa.id, leo.userId, "member");
+
+  await seedTask(storage, casa.id, casa.name, {
+    title: "Lavar a louça do jantar",
+    rewardXp: 10,
+    creator: paula,
+    assignee: leo,
+    status: "completed",
+  });
+  await seedTask(storage, casa.id, casa.name, {
+    title: "Organizar o quarto",
+    description: "Guardar roupas, arrumar a cama e tirar o lixo",
+    rewardXp: 20,
+    creator: paula,
+    assignee: leo,
+    approver: paula,
+    status: "pending_approval",
+    subtasks: [
+      ["Guardar roupas", true],
+      ["Arrumar a cama", true],
+    ],
+  });
+  await seedTask(storage, casa.id, casa.name, {
+    title: "Estudar para a prova de matemática",
+    rewardXp: 30,
+    creator: carlos,
+    assignee: leo,
+    approver: carlos,
+    status: "in_progress",
+    dueInDays: 2,
+    subtasks: [
+      ["Revisar frações", true],
+      ["Fazer lista de exercícios", false],
+    ],
+  });
+  await seedTask(storage, casa.id, casa.name, {
+    title: "Cortar a grama do quintal",
+    rewardXp: 25,
+    creator: carlos,
+    dueInDays: 5,
+  });
+  await seedTask(storage, casa.id, casa.name, {
+    title: "Fazer compras do mercado",
+    rewardXp: 15,
+    creator: paula,
+    assignee: carlos,
+    status: "completed",
+  });
+
+  const apartamento = await storage.createList({
+    ownerUserId: rafa.userId,
+    name: "Apartamento 42",
+    description: "Divisão de tarefas da república",
+    isShared: true,
+  });
+  await storage.addMembership(apartamento.id, rafa.userId, "owner");
+  await storage.addMembership(apartamento.id, sofia.userId, "member");
+
+  await seedTask(storage, apartamento.id, apartamento.name, {
+    title: "Limpar o banheiro",
+    rewardXp: 20,
+    creator: rafa,
+    assignee: sofia,
+    status: "in_progress",
+    dueInDays: 1,
+  });
+  await seedTask(storage, apartamento.id, apartamento.name, {
+    title: "Pagar a conta de luz",
+    rewardXp: 5,
+    creator: sofia,
+    dueInDays: 3,
+  });
+
+  const invite = await storage.createInvite({
+    listId: apartamento.id,
+    email: leo.email,
+    role: "member",
+    invitedByUserId: rafa.userId,
+    expiresAt: new Date(Date.now() + INVITE_TTL_MS).toISOString(),
+  });
+  await storage.createNotification({
+    userId: leo.userId,
+    type: "list_invite_received",
+    title: "Novo convite",
+    message: `${rafa.name} convidou você para a lista ${apartamento.name}.`,
+    taskId: null,
+    payload: {
+      listId: apartamento.id,
+      listName: apartamento.name,
+      token: invite.token,
+      invitePath: `/invites/${invite.token}`,
+    },
+  });
+
+  const profiles = [paula, carlos, leo, rafa, sofia];
+  return profiles.map((profile) => `${profile.email} (nível ${levelForXp(profile.totalXp).level})`);
+}
@@ -0,0 +1,585 @@
+import { randomBytes, randomInt, randomUUID } from "crypto";
+import { JOIN_CODE_ALPHABET, JOIN_CODE_LENGTH } from "@shared/join-codes";
+import { MemStorage, type IStorage } from "../storage";
+
+export type MemberRole = "owner" | "admin" | "member";
+export type TaskStatus = "open" | "in_progress" | "pending_approval" | "completed" | "cancelled";
+
+export interface MockProfile {
+  userId: string;
+  name: string;
+  email: string;
+  avatarUrl: string | null;
+  totalXp: number;
+  creationXpBalance: number;
+  energyRefilledOn: string;
+}
+
+export interface MockList {
+  id: string;
+  ownerUserId: string;
+  name: string;
+  description: string | null;
+  isShared: boolean;
+  createdAt: string;
+}
+
+export interface MockMembership {
+  id: string;
+  listId: string;
+  userId: string;
+  role: MemberRole;
+  createdAt: string;
+}
+
+// Access and refresh tokens are issued together; refreshing replaces both
+export interface MockSession {
+  accessToken: string;
+  refreshToken: string;
+  userId: string;
+  accessExpiresAt: number;
+  refreshExpiresAt: number;
+}
+
+export interface MockInvite {
+  id: string;
+  token: string;
+  listId: string;
+  email: string;
+  role: MemberRole;
+  invitedByUserId: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface MockJoinCode {
+  id: string;
+  code: string;
+  listId: string;
+  role: Exclude<MemberRole, "owner">;
+  maxUses: number | null;
+  uses: number;
+  createdByUserId: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface MockTask {
+  id: string;
+  listId: string;
+  creatorUserId: string;
+  assigneeUserId: string | null;
+  approverUserId: string | null;
+  title: string;
+  description: string | null;
+  dueAt: string | null;
+  rewardXp: number;
+  needsApproval: boolean;
+  status: TaskStatus;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface MockSubtask {
+  id: string;
+  taskId: string;
+  title: string;
+  isDone: boolean;
+  createdAt: string;
+}
+
+export interface MockComment {
+  id: string;
+  taskId: string;
+  parentCommentId: string | null;
+  authorUserId: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockFeedItem {
+  id: string;
+  type: string;
+  actorUserId: string | null;
+  targetUserId: string | null;
+  taskId: string | null;
+  listId: string | null;
+  payload: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface MockNotification {
+  id: string;
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  taskId: string | null;
+  isRead: boolean;
+  readAt: string | null;
+  archivedAt: string | null;
+  payload: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface MockLedgerEntry {
+  id: string;
+  userId: string;
+  resourceType: "xp" | "energy";
+  direction: "credit" | "debit";
+  amount: number;
+  sourceType: string;
+  sourceId: string | null;
+  balanceAfter: number;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type NewTask = Omit<MockTask, "id" | "createdAt" | "status" | "completedAt">;
+
+export type SessionTtl = { accessMs: number; refreshMs: number };
+
+export interface IMockApiStorage extends IStorage {
+  createSession(userId: string, ttl: SessionTtl): Promise<MockSession>;
+  getSessionUserId(accessToken: string): Promise<string | undefined>;
+  rotateSession(refreshToken: string, ttl: SessionTtl): Promise<MockSession | undefined>;
+  deleteSession(refreshToken: string): Promise<void>;
+
+  getProfile(userId: string): Promise<MockProfile | undefined>;
+  getProfileByEmail(email: string): Promise<MockProfile | undefined>;
+  saveProfile(profile: MockProfile): Promise<MockProfile>;
+  listProfiles(): Promise<MockProfile[]>;
+
+  createList(list: Omit<MockList, "id" | "createdAt">): Promise<MockList>;
+  getList(id: string): Promise<MockList | undefined>;
+  saveList(list: MockList): Promise<MockList>;
+  deleteList(id: string): Promise<void>;
+
+  addMembership(listId: string, userId: string, role: MemberRole): Promise<MockMembership>;
+  getMembership(listId: string, userId: string): Promise<MockMembership | undefined>;
+  getMembershipsByList(listId: string): Promise<MockMembership[]>;
+  getMembershipsByUser(userId: string): Promise<MockMembership[]>;
+  saveMembership(membership: MockMembership): Promise<MockMembership>;
+  removeMembership(listId: string, userId: string): Promise<void>;
+
+  createInvite(invite: Omit<MockInvite, "id" | "token" | "createdAt" | "acceptedAt" | "revokedAt">): Promise<MockInvite>;
+  getInviteByToken(token: string): Promise<MockInvite | undefined>;
+  getInvitesByList(listId: string): Promise<MockInvite[]>;
+  saveInvite(invite: MockInvite): Promise<MockInvite>;
+
+  createJoinCode(joinCode: Omit<MockJoinCode, "id" | "code" | "uses" | "revokedAt" | "createdAt">): Promise<MockJoinCode>;
+  getJoinCodeByCode(code: string): Promise<MockJoinCode | undefined>;
+  getJoinCodesByList(listId: string): Promise<MockJoinCode[]>;
+  saveJoinCode(joinCode: MockJoinCode): Promise<MockJoinCode>;
+
+  createTask(task: NewTask): Promise<MockTask>;
+  getTask(id: string): Promise<MockTask | undefined>;
+  getTasksByList(listId: string): Promise<MockTask[]>;
+  saveTask(task: MockTask): Promise<MockTask>;
+  deleteTask(id: string): Promise<void>;
+
+  createSubtask(taskId: string, title: string): Promise<MockSubtask>;
+  getSubtask(id: string): Promise<MockSubtask | undefined>;
+  getSubtasksByTask(taskId: string): Promise<MockSubtask[]>;
+  saveSubtask(subtask: MockSubtask): Promise<MockSubtask>;
+  deleteSubtask(id: string): Promise<void>;
+
+  createComment(comment: Omit<MockComment, "id" | "createdAt" | "updatedAt">): Promise<MockComment>;
+  getComment(id: string): Promise<MockComment | undefined>;
+  getCommentsByTask(taskId: string): Promise<MockComment[]>;
+  getCommentVotes(commentId: string): Promise<Map<string, number>>;
+  setCommentVote(commentId: string, userId: string, value: number): Promise<void>;
+
+  createFeedItem(item: Omit<MockFeedItem, "id" | "createdAt">): Promise<MockFeedItem>;
+  listFeedItems(): Promise<MockFeedItem[]>;
+  getFeedItem(id: string): Promise<MockFeedItem | undefined>;
+  setFeedItemDismissed(userId: string, feedItemId: string, dismissed: boolean): Promise<void>;
+  isFeedItemDismissed(userId: string, feedItemId: string): Promise<boolean>;
+
+  createNotification(
+    notification: Omit<MockNotification, "id" | "createdAt" | "isRead" | "readAt" | "archivedAt">,
+  ): Promise<MockNotification>;
+  getNotificationsByUser(userId: string): Promise<MockNotification[]>;
+  saveNotification(notification: MockNotification): Promise<MockNotification>;
+  deleteNotification(id: string): Promise<void>;
+
+  createLedgerEntry(entry: Omit<MockLedgerEntry, "id" | "createdAt">): Promise<MockLedgerEntry>;
+  getLedgerByUser(userId: string): Promise<MockLedgerEntry[]>;
+}
+
+function newestFirst<T extends { createdAt: string }>(a: T, b: T) {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+function oldestFirst<T extends { createdAt: string }>(a: T, b: T) {
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+export class MemMockApiStorage extends MemStorage implements IMockApiStorage {
+  private sessions = new Map<string, MockSession>();
+  private sessionsByRefreshToken = new Map<string, string>();
+  private profiles = new Map<string, MockProfile>();
+  private lists = new Map<string, MockList>();
+  private memberships = new Map<string, MockMembership>();
+  private invites = new Map<string, MockInvite>();
+  private joinCodes = new Map<string, MockJoinCode>();
+  private tasks = new Map<string, MockTask>();
+  private subtasks = new Map<string, MockSubtask>();
+  private comments = new Map<string, MockComment>();
+  private commentVotes = new Map<string, Map<string, number>>();
+  private feedItems = new Map<string, MockFeedItem>();
+  private dismissedFeedItems = new Set<string>();
+  private notifications = new Map<string, MockNotification>();
+  private ledger = new Map<string, MockLedgerEntry>();
+  private clock = 0;
+
+  // Monotonic timestamps keep ordering stable when several records are created in the same millisecond
+  private now(): string {
+    this.clock = Math.max(this.clock + 1, Date.now());
+    return new Date(this.clock).toISOString();
+  }
+
+  async createSession(userId: string, ttl: SessionTtl): Promise<MockSession> {
+    const now = Date.now();
+    const session: MockSession = {
+      accessToken: randomBytes(24).toString("base64url"),
+      refreshToken: randomBytes(32).toString("base64url"),
+      userId,
+      accessExpiresAt: now + ttl.accessMs,
+      refreshExpiresAt: now + ttl.refreshMs,
+    };
+    this.sessions.set(session.accessToken, session);
+    this.sessionsByRefreshToken.set(session.refreshToken, session.accessToken);
+    return session;
+  }
+
+  async getSessionUserId(accessToken: string): Promise<string | undefined> {
+    const session = this.sessions.get(accessToken);
+    return session && session.accessExpiresAt > Date.now() ? session.userId : undefined;
+  }
+
+  // Refresh tokens are single use: a replayed one finds nothing, since its session was already replaced
+  async rotateSession(refreshToken: string, ttl: SessionTtl): Promise<MockSession | undefined> {
+    const session = this.sessions.get(this.sessionsByRefreshToken.get(refreshToken) ?? "");
+    await this.deleteSession(refreshToken);
+    if (!session || session.refreshExpiresAt <= Date.now()) return undefined;
+    return this.createSession(session.userId, ttl);
+  }
+
+  async deleteSession(refreshToken: string): Promise<void> {
+    const accessToken = this.sessionsByRefreshToken.get(refreshToken);
+    this.sessionsByRefreshToken.delete(refreshToken);
+    if (accessToken) this.sessions.delete(accessToken);
+  }
+
+  async getProfile(userId: string): Promise<MockProfile | undefined> {
+    return this.profiles.get(userId);
+  }
+
+  async getProfileByEmail(email: string): Promise<MockProfile | undefined> {
+    const normalized = email.toLowerCase();
+    return Array.from(this.profiles.values()).find((profile) => profile.email === normalized);
+  }
+
+  async saveProfile(profile: MockProfile): Promise<MockProfile> {
+    this.profiles.set(profile.userId, profile);
+    return profile;
+  }
+
+  async listProfiles(): Promise<MockProfile[]> {
+    return Array.from(this.profiles.values());
+  }
+
+  async createList(list: Omit<MockList, "id" | "createdAt">): Promise<MockList> {
+    const created: MockList = { ...list, id: randomUUID(), createdAt: this.now() };
+    this.lists.set(created.id, created);
+    return created;
+  }
+
+  async getList(id: string): Promise<MockList | undefined> {
+    return this.lists.get(id);
+  }
+
+  async saveList(list: MockList): Promise<MockList> {
+    this.lists.set(list.id, list);
+    return list;
+  }
+
+  async deleteList(id: string): Promise<void> {
+    this.lists.delete(id);
+    for (const [key, membership] of this.memberships) {
+      if (membership.listId === id) this.memberships.delete(key);
+    }
+    for (const task of await this.getTasksByList(id)) {
+      await this.deleteTask(task.id);
+    }
+  }
+
+  async addMembership(listId: string, userId: string, role: MemberRole): Promise<MockMembership> {
+    const membership: MockMembership = { id: randomUUID(), listId, userId, role, createdAt: this.now() };
+    this.memberships.set(`${listId}:${userId}`, membership);
+    return membership;
+  }
+
+  async getMembership(listId: string, userId: string): Promise<MockMembership | undefined> {
+    return this.memberships.get(`${listId}:${userId}`);
+  }
+
+  async getMembershipsByList(listId: string): Promise<MockMembership[]> {
+    return Array.from(this.memberships.values())
+      .filter((membership) => membership.listId === listId)
+      .sort(oldestFirst);
+  }
+
+  async getMembershipsByUser(userId: string): Promise<MockMembership[]> {
+    return Array.from(this.memberships.values())
+      .filter((membership) => membership.userId === userId)
+      .sort(oldestFirst);
+  }
+
+  async saveMembership(membership: MockMembership): Promise<MockMembership> {
+    this.memberships.set(`${membership.listId}:${membership.userId}`, membership);
+    return membership;
+  }
+
+  async removeMembership(listId: string, userId: string): Promise<void> {
+    this.memberships.delete(`${listId}:${userId}`);
+  }
+
+  async createInvite(
+    invite: Omit<MockInvite, "id" | "token" | "createdAt" | "acceptedAt" | "revokedAt">,
+  ): Promise<MockInvite> {
+    const created: MockInvite = {
+      ...invite,
+      id: randomUUID(),
+      token: randomBytes(18).toString("base64url"),
+      acceptedAt: null,
+      revokedAt: null,
+      createdAt: this.now(),
+    };
+    this.invites.set(created.id, created);
+    return created;
+  }
+
+  async getInviteByToken(token: string): Promise<MockInvite | undefined> {
+    return Array.from(this.invites.values()).find((invite) => invite.token === token);
+  }
+
+  async getInvitesByList(listId: string): Promise<MockInvite[]> {
+    return Array.from(this.invites.values())
+      .filter((invite) => invite.listId === listId)
+      .sort(oldestFirst);
+  }
+
+  async saveInvite(invite: MockInvite): Promise<MockInvite> {
+    this.invites.set(invite.id, invite);
+    return invite;
+  }
+
+  private generateJoinCode(): string {
+    let code: string;
+    do {
+      code = Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)])
+        .join("");
+    } while (Array.from(this.joinCodes.values()).some((joinCode) => joinCode.code === code));
+    return code;
+  }
+
+  async createJoinCode(
+    joinCode: Omit<MockJoinCode, "id" | "code" | "uses" | "revokedAt" | "createdAt">,
+  ): Promise<MockJoinCode> {
+    const created: MockJoinCode = {
+      ...joinCode,
+      id: randomUUID(),
+      code: this.generateJoinCode(),
+      uses: 0,
+      revokedAt: null,
+      createdAt: this.now(),
+    };
+    this.joinCodes.set(created.id, created);
+    return created;
+  }
+
+  async getJoinCodeByCode(code: string): Promise<MockJoinCode | undefined> {
+    return Array.from(this.joinCodes.values()).find((joinCode) => joinCode.code === code);
+  }
+
+  async getJoinCodesByList(listId: string): Promise<MockJoinCode[]> {
+    return Array.from(this.joinCodes.values())
+      .filter((joinCode) => joinCode.listId === listId)
+      .sort(newestFirst);
+  }
+
+  async saveJoinCode(joinCode: MockJoinCode): Promise<MockJoinCode> {
+    this.joinCodes.set(joinCode.id, joinCode);
+    return joinCode;
+  }
+
+  async createTask(task: NewTask): Promise<MockTask> {
+    const created: MockTask = {
+      ...task,
+      id: randomUUID(),
+      status: "open",
+      completedAt: null,
+      createdAt: this.now(),
+    };
+    this.tasks.set(created.id, created);
+    return created;
+  }
+
+  async getTask(id: string): Promise<MockTask | undefined> {
+    return this.tasks.get(id);
+  }
+
+  async getTasksByList(listId: string): Promise<MockTask[]> {
+    return Array.from(this.tasks.values())
+      .filter((task) => task.listId === listId)
+      .sort(newestFirst);
+  }
+
+  async saveTask(task: MockTask): Promise<MockTask> {
+    this.tasks.set(task.id, task);
+    return task;
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    this.tasks.delete(id);
+    for (const [key, subtask] of this.subtasks) {
+      if (subtask.taskId === id) this.subtasks.delete(key);
+    }
+    for (const [key, comment] of this.comments) {
+      if (comment.taskId === id) this.comments.delete(key);
+    }
+  }
+
+  async createSubtask(taskId: string, title: string): Promise<MockSubtask> {
+    const created: MockSubtask = { id: randomUUID(), taskId, title, isDone: false, createdAt: this.now() };
+    this.subtasks.set(created.id, created);
+    return created;
+  }
+
+  async getSubtask(id: string): Promise<MockSubtask | undefined> {
+    return this.subtasks.get(id);
+  }
+
+  async getSubtasksByTask(taskId: string): Promise<MockSubtask[]> {
+    return Array.from(this.subtasks.values())
+      .filter((subtask) => subtask.taskId === taskId)
+      .sort(oldestFirst);
+  }
+
+  async saveSubtask(subtask: MockSubtask): Promise<MockSubtask> {
+    this.subtasks.set(subtask.id, subtask);
+    return subtask;
+  }
+
+  async deleteSubtask(id: string): Promise<void> {
+    this.subtasks.delete(id);
+  }
+
+  async createComment(comment: Omit<MockComment, "id" | "createdAt" | "updatedAt">): Promise<MockComment> {
+    const now = this.now();
+    const created: MockComment = { ...comment, id: randomUUID(), createdAt: now, updatedAt: now };
+    this.comments.set(created.id, created);
+    return created;
+  }
+
+  async getComment(id: string): Promise<MockComment | undefined> {
+    return this.comments.get(id);
+  }
+
+  async getCommentsByTask(taskId: string): Promise<MockComment[]> {
+    return Array.from(this.comments.values())
+      .filter((comment) => comment.taskId === taskId)
+      .sort(oldestFirst);
+  }
+
+  async getCommentVotes(commentId: string): Promise<Map<string, number>> {
+    return this.commentVotes.get(commentId) || new Map();
+  }
+
+  async setCommentVote(commentId: string, userId: string, value: number): Promise<void> {
+    const votes = this.commentVotes.get(commentId) || new Map<string, number>();
+    if (value === 0) {
+      votes.delete(userId);
+    } else {
+      votes.set(userId, value);
+    }
+    this.commentVotes.set(commentId, votes);
+  }
+
+  async createFeedItem(item: Omit<MockFeedItem, "id" | "createdAt">): Promise<MockFeedItem> {
+    const created: MockFeedItem = { ...item, id: randomUUID(), createdAt: this.now() };
+    this.feedItems.set(created.id, created);
+    return created;
+  }
+
+  async listFeedItems(): Promise<MockFeedItem[]> {
+    return Array.from(this.feedItems.values()).sort(newestFirst);
+  }
+
+  async getFeedItem(id: string): Promise<MockFeedItem | undefined> {
+    return this.feedItems.get(id);
+  }
+
+  async setFeedItemDismissed(userId: string, feedItemId: string, dismissed: boolean): Promise<void> {
+    const key = `${userId}:${feedItemId}`;
+    if (dismissed) {
+      this.dismissedFeedItems.add(key);
+    } else {
+      this.dismissedFeedItems.delete(key);
+    }
+  }
+
+  async isFeedItemDismissed(userId: string, feedItemId: string): Promise<boolean> {
+    return this.dismissedFeedItems.has(`${userId}:${feedItemId}`);
+  }
+
+  async createNotification(
+    notification: Omit<MockNotification, "id" | "createdAt" | "isRead" | "readAt" | "archivedAt">,
+  ): Promise<MockNotification> {
+    const created: MockNotification = {
+      ...notification,
+      id: randomUUID(),
+      isRead: false,
+      readAt: null,
+      archivedAt: null,
+      createdAt: this.now(),
+    };
+    this.notifications.set(created.id, created);
+    return created;
+  }
+
+  async getNotificationsByUser(userId: string): Promise<MockNotification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .sort(newestFirst);
+  }
+
+  async saveNotification(notification: MockNotification): Promise<MockNotification> {
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async deleteNotification(id: string): Promise<void> {
+    this.notifications.delete(id);
+  }
+
+  async createLedgerEntry(entry: Omit<MockLedgerEntry, "id" | "createdAt">): Promise<MockLedgerEntry> {
+    const created: MockLedgerEntry = { ...entry, id: randomUUID(), createdAt: this.now() };
+    this.ledger.set(created.id, created);
+    return created;
+  }
+
+  async getLedgerByUser(userId: string): Promise<MockLedgerEntry[]> {
+    return Array.from(this.ledger.values())
+      .filter((entry) => entry.userId === userId)
+      .sort(newestFirst);
+  }
+}
+
+export const mockApiStorage = new MemMockApiStorage();
@@ -0,0 +1,331 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import YAML from "yaml";
+import { logger, redactPath } from "./logger";
+
+export type ContractMode = "off" | "report" | "enforce";
+
+export type ContractViolation = {
+  location: "route" | "query" | "body" | "response";
+  message: string;
+  pointer?: string;
+};
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  staticSegments: number;
+};
+
+type Operation = Route & {
+  template: string;
+  validateQuery: ValidateFunction | null;
+  validateBody: ValidateFunction | null;
+  bodyRequired: boolean;
+  responses: Map<string, ValidateFunction | null>;
+};
+
+// Just the parts of the OpenAPI 3.0 document the validator reads
+type ReferenceObject = { $ref: string };
+type SchemaObject = Record<string, unknown>;
+type MediaTypes = { content?: Record<string, { schema?: SchemaObject }> };
+type ParameterObject = { name: string; in: string; required?: boolean; schema?: SchemaObject };
+type RequestBodyObject = MediaTypes & { required?: boolean };
+type OperationObject = {
+  "x-upstream-status"?: string;
+  parameters?: (ParameterObject | ReferenceObject)[];
+  requestBody?: RequestBodyObject | ReferenceObject;
+  responses?: Record<string, MediaTypes | ReferenceObject>;
+};
+type HttpMethod = (typeof HTTP_METHODS)[number];
+type PathItemObject = Partial<Record<HttpMethod, OperationObject>> & {
+  parameters?: (ParameterObject | ReferenceObject)[];
+};
+type OpenApiDocument = {
+  servers?: { url: string }[];
+  paths?: Record<string, PathItemObject>;
+  components?: Record<string, unknown>;
+};
+
+const SPEC_ID = "taskquest-openapi";
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+const OPENAPI_SPEC_PATH = process.env.OPENAPI_SPEC_PATH || path.resolve(process.cwd(), ".local", "openapi.yaml");
+const MAX_REPORTED_VIOLATIONS = 10;
+
+function readMode(): ContractMode {
+  const value = process.env.OPENAPI_VALIDATION;
+  if (value === "off" || value === "report" || value === "enforce") {
+    return value;
+  }
+  return process.env.NODE_ENV === "production" ? "off" : "report";
+}
+
+export const OPENAPI_VALIDATION: ContractMode = readMode();
+
+// The spec uses OpenAPI 3.0 `nullable` and local refs; turn both into plain JSON Schema for Ajv
+function toJsonSchema(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(toJsonSchema);
+  }
+  if (!node || typeof node !== "object") {
+    return node;
+  }
+
+  const { nullable, ...rest } = node as Record<string, unknown>;
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    converted[key] =
+      key === "$ref" && typeof value === "string" && value.startsWith("#/") ? `${SPEC_ID}${value}` : toJsonSchema(value);
+  }
+
+  return nullable === true ? { anyOf: [converted, { type: "null" }] } : converted;
+}
+
+function isReference(node: object): node is ReferenceObject {
+  return typeof (node as ReferenceObject).$ref === "string";
+}
+
+function resolveRef<T extends object>(spec: OpenApiDocument, node: T | ReferenceObject | undefined): T | undefined {
+  if (!node || !isReference(node) || !node.$ref.startsWith("#/")) {
+    return node as T | undefined;
+  }
+  return node.$ref
+    .slice(2)
+    .split("/")
+    .reduce<unknown>((current, key) => (current as Record<string, unknown> | undefined)?.[key], spec) as T | undefined;
+}
+
+function jsonSchemaOf(spec: OpenApiDocument, node: MediaTypes | ReferenceObject | undefined): SchemaObject | undefined {
+  return resolveRef(spec, node)?.content?.["application/json"]?.schema;
+}
+
+function basePathOf(spec: OpenApiDocument): string {
+  return new URL(spec.servers?.[0]?.url || "http://localhost/v1").pathname.replace(/\/$/, "");
+}
+
+function toRoute(method: HttpMethod, template: string): Route {
+  return {
+    method: method.toUpperCase(),
+    pattern: new RegExp(`^${template.replace(/\{[^}]+\}/g, "[^/]+")}/?$`),
+    staticSegments: template.split("/").filter((segment) => segment && !segment.startsWith("{")).length,
+  };
+}
+
+// Prefer literal segments so `/leaderboard/global` wins over a `{listId}` template
+function byStaticSegments(a: Route, b: Route): number {
+  return b.staticSegments - a.staticSegments;
+}
+
+function compileOperations(spec: OpenApiDocument): Operation[] {
+  const ajv = new Ajv({ strict: false, allErrors: true });
+  const queryAjv = new Ajv({ strict: false, allErrors: true, coerceTypes: true });
+  for (const instance of [ajv, queryAjv]) {
+    addFormats(instance);
+    instance.addSchema({ $id: SPEC_ID, components: toJsonSchema(spec.components || {}) });
+  }
+
+  const basePath = basePathOf(spec);
+  const operations: Operation[] = [];
+
+  for (const [route, pathItem] of Object.entries(spec.paths || {})) {
+    const template = `${basePath}${route}`;
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      const queryParams = [...(pathItem.parameters || []), ...(operation.parameters || [])]
+        .map((param) => resolveRef(spec, param))
+        .filter((param): param is ParameterObject => param?.in === "query");
+      const validateQuery =
+        queryParams.length > 0
+          ? queryAjv.compile({
+              type: "object",
+              properties: Object.fromEntries(queryParams.map((param) => [param.name, toJsonSchema(param.schema)])),
+              required: queryParams.filter((param) => param.required).map((param) => param.name),
+            })
+          : null;
+
+      const requestBody = resolveRef(spec, operation.requestBody);
+      const bodySchema = jsonSchemaOf(spec, requestBody);
+
+      const responses = new Map<string, ValidateFunction | null>();
+      for (const [status, response] of Object.entries(operation.responses || {})) {
+        const schema = jsonSchemaOf(spec, response);
+        responses.set(status, schema ? ajv.compile(toJsonSchema(schema) as object) : null);
+      }
+
+      operations.push({
+        ...toRoute(method, template),
+        template,
+        validateQuery,
+        validateBody: bodySchema ? ajv.compile(toJsonSchema(bodySchema) as object) : null,
+        bodyRequired: Boolean(requestBody?.required),
+        responses,
+      });
+    }
+  }
+
+  return operations.sort(byStaticSegments);
+}
+
+function loadOperations(): Operation[] {
+  if (OPENAPI_VALIDATION === "off") {
+    return [];
+  }
+  if (!existsSync(OPENAPI_SPEC_PATH)) {
+    logger.warn("OpenAPI spec not found, contract validation disabled", { specPath: OPENAPI_SPEC_PATH });
+    return [];
+  }
+
+  try {
+    return compileOperations(YAML.parse(readFileSync(OPENAPI_SPEC_PATH, "utf8")) as OpenApiDocument);
+  } catch (error) {
+    logger.error("Failed to load OpenAPI spec, contract validation disabled", { specPath: OPENAPI_SPEC_PATH, error });
+    return [];
+  }
+}
+
+const operations = loadOperations();
+
+/**
+ * Every route in the spec, with whether it is marked `x-upstream-status: proposed`: served by the mock
+ * API but not offered by the upstream yet. Read even with validation off, since the proxy gates on it.
+ */
+function loadRoutes(): (Route & { proposed: boolean })[] {
+  try {
+    const spec = YAML.parse(readFileSync(OPENAPI_SPEC_PATH, "utf8")) as OpenApiDocument;
+    const basePath = basePathOf(spec);
+    return Object.entries(spec.paths || {})
+      .flatMap(([route, pathItem]) =>
+        HTTP_METHODS.filter((method) => pathItem[method]).map((method) => ({
+          ...toRoute(method, `${basePath}${route}`),
+          proposed: pathItem[method]?.["x-upstream-status"] === "proposed",
+        })),
+      )
+      .sort(byStaticSegments);
+  } catch (error) {
+    logger.warn("OpenAPI spec unreadable, proposed operations are forwarded upstream", {
+      specPath: OPENAPI_SPEC_PATH,
+      error,
+    });
+    return [];
+  }
+}
+
+const routes = loadRoutes();
+
+/** Whether the upstream path belongs to an operation the upstream doesn't offer yet; see loadRoutes */
+export function isProposedOperation(method: string, requestPath: string): boolean {
+  return routes.find((route) => route.method === method && route.pattern.test(requestPath))?.proposed ?? false;
+}
+
+export function isContractValidationEnabled(): boolean {
+  return operations.length > 0;
+}
+
+function findOperation(method: string, requestPath: string): Operation | undefined {
+  return operations.find((operation) => operation.method === method && operation.pattern.test(requestPath));
+}
+
+function toViolations(location: ContractViolation["location"], errors: ErrorObject[] | null | undefined) {
+  return (errors || []).map(
+    (error): ContractViolation => ({
+      location,
+      pointer: error.instancePath || "/",
+      message: error.message || error.keyword,
+    }),
+  );
+}
+
+export function validateContractRequest(
+  method: string,
+  requestPath: string,
+  query: Record<string, unknown>,
+  body: unknown,
+): ContractViolation[] {
+  if (!isContractValidationEnabled()) {
+    return [];
+  }
+
+  const operation = findOperation(method, requestPath);
+  if (!operation) {
+    return [{ location: "route", message: `${method} ${requestPath} is not defined in the OpenAPI spec` }];
+  }
+
+  const violations: ContractViolation[] = [];
+  if (operation.validateQuery && !operation.validateQuery({ ...query })) {
+    violations.push(...toViolations("query", operation.validateQuery.errors));
+  }
+
+  const hasBody = body !== undefined && body !== null && !(typeof body === "object" && Object.keys(body).length === 0);
+  if (operation.validateBody) {
+    if (!hasBody && operation.bodyRequired) {
+      violations.push({ location: "body", message: "request body is required" });
+    } else if (hasBody && !operation.validateBody(body)) {
+      violations.push(...toViolations("body", operation.validateBody.errors));
+    }
+  }
+  return violations;
+}
+
+export function validateContractResponse(
+  method: string,
+  requestPath: string,
+  status: number,
+  body: unknown,
+): ContractViolation[] {
+  if (!isContractValidationEnabled()) {
+    return [];
+  }
+
+  const operation = findOperation(method, requestPath);
+  if (!operation) {
+    return [];
+  }
+
+  if (!operation.responses.has(String(status)) && !operation.responses.has("default")) {
+    return [{ location: "response", message: `status ${status} is not documented for ${operation.template}` }];
+  }
+
+  const validate = operation.responses.get(String(status)) ?? operation.responses.get("default");
+  if (validate && !validate(body)) {
+    return toViolations("response", validate.errors);
+  }
+  return [];
+}
+
+/** Logs violations and tells the caller whether to reject (only in enforce mode) */
+export function reportContractViolations(
+  kind: "request" | "response",
+  method: string,
+  requestPath: string,
+  violations: ContractViolation[],
+): boolean {
+  if (violations.length === 0) {
+    return false;
+  }
+
+  logger.warn(`OpenAPI ${kind} contract violation`, {
+    method,
+    path: redactPath(requestPath),
+    violations: violations.slice(0, MAX_REPORTED_VIOLATIONS),
+    totalViolations: violations.length,
+  });
+  return OPENAPI_VALIDATION === "enforce";
+}
+
+export function contractViolationResponse(kind: "request" | "response", violations: ContractViolation[]) {
+  return {
+    error: {
+      code: "CONTRACT_VIOLATION",
+      message:
+        kind === "request"
+          ? "Request does not match the TaskQuest API contract"
+          : "TaskQuest API response does not match its contract",
+      details: { violations: violations.slice(0, MAX_REPORTED_VIOLATIONS) },
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+
+export type UpstreamSnapshot = {
+  status: number;
+  contentType: string | null;
+  body: string;
+};
+
+type CacheEntry = {
+  snapshot: UpstreamSnapshot;
+  expiresAt: number;
+};
+
+type InFlight = {
+  promise: Promise<UpstreamSnapshot>;
+  epoch: number;
+};
+
+const CACHEABLE_GET_PATHS: RegExp[] = [
+  /^\/v1\/lists$/,
+  /^\/v1\/lists\/[^/]+$/,
+  /^\/v1\/lists\/[^/]+\/members$/,
+  /^\/v1\/gamification\/leaderboard\/.+$/,
+];
+
+// Mutations under a resource also change these derived resources
+const DEPENDENT_PREFIXES: Record<string, string[]> = {
+  "/v1/tasks": ["/v1/gamification/leaderboard"],
+  "/v1/subtasks": ["/v1/gamification/leaderboard"],
+  "/v1/invites": ["/v1/lists"],
+};
+
+export function isCacheableGet(path: string): boolean {
+  return CACHEABLE_GET_PATHS.some((pattern) => pattern.test(path));
+}
+
+function getResourcePrefix(path: string): string {
+  const [, version, resource] = path.split("/");
+  return `/${version}/${resource}`;
+}
+
+function getUserScope(authorization: string | null): string {
+  if (!authorization) {
+    return "anonymous";
+  }
+
+  // Keys are logged and kept in memory, so never use the raw bearer token
+  return createHash("sha256").update(authorization).digest("hex").slice(0, 32);
+}
+
+export class ProxyResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, InFlight>();
+  private epoch = 0;
+
+  constructor(
+    private ttlMs: number,
+    private maxEntries: number,
+  ) {}
+
+  buildKey(authorization: string | null, pathWithQuery: string): string {
+    return `${getUserScope(authorization)} ${pathWithQuery}`;
+  }
+
+  async get(
+    key: string,
+    load: () => Promise<UpstreamSnapshot>,
+  ): Promise<{ snapshot: UpstreamSnapshot; status: "HIT" | "MISS" | "COALESCED" }> {
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { snapshot: cached.snapshot, status: "HIT" };
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return { snapshot: await pending.promise, status: "COALESCED" };
+    }
+
+    const flight: InFlight = { promise: load(), epoch: this.epoch };
+    this.inFlight.set(key, flight);
+
+    try {
+      const snapshot = await flight.promise;
+      // A mutation that passed through while we were loading makes this response stale
+      if (snapshot.status === 200 && flight.epoch === this.epoch) {
+        this.set(key, snapshot);
+      }
+      return { snapshot, status: "MISS" };
+    } finally {
+      if (this.inFlight.get(key) === flight) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  invalidateForMutation(path: string) {
+    const resourcePrefix = getResourcePrefix(path);
+    const prefixes = [resourcePrefix, ...(DEPENDENT_PREFIXES[resourcePrefix] || [])];
+
+    this.epoch += 1;
+    for (const key of this.entries.keys()) {
+      const cachedPath = key.slice(key.indexOf(" ") + 1);
+      if (prefixes.some((prefix) => cachedPath.startsWith(prefix))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private set(key: string, snapshot: UpstreamSnapshot) {
+    const now = Date.now();
+    if (this.entries.size >= this.maxEntries) {
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(entryKey);
+        }
+      }
+    }
+
+    while (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { snapshot, expiresAt: now + this.ttlMs });
+  }
+}
+
+export const proxyCache = new ProxyResponseCache(
+  Number.parseInt(process.env.PROXY_CACHE_TTL_MS || "5000", 10),
+  Number.parseInt(process.env.PROXY_CACHE_MAX_ENTRIES || "1000", 10),
+);
@@ -0,0 +1,94 @@
+import type { Request, Response } from "express";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "accept-language",
+  "content-type",
+  "if-match",
+  "if-modified-since",
+  "if-none-match",
+  "range",
+];
+
+const FORWARDED_RESPONSE_HEADERS = [
+  "accept-ranges",
+  "cache-control",
+  "content-disposition",
+  "content-range",
+  "content-type",
+  "etag",
+  "last-modified",
+  "location",
+];
+
+export type ProxyRequestBody = {
+  body: BodyInit | undefined;
+  /** True when the body is piped from the client and can't be replayed on retry */
+  streamed: boolean;
+};
+
+export function buildProxyRequestHeaders(req: Request): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === "string") {
+      headers[name] = value;
+    }
+  }
+  if (req.headers.authorization) {
+    headers.authorization = req.headers.authorization;
+  }
+  return headers;
+}
+
+function hasRequestBody(req: Request): boolean {
+  return req.headers["transfer-encoding"] !== undefined || Number(req.headers["content-length"] || 0) > 0;
+}
+
+/**
+ * JSON and form bodies were already read by the body parsers, so their raw bytes are replayed as-is;
+ * anything else (multipart uploads, binary files) is still unread and gets piped straight through.
+ */
+export function readProxyRequestBody(req: Request): ProxyRequestBody {
+  if (["GET", "HEAD"].includes(req.method) || !hasRequestBody(req)) {
+    return { body: undefined, streamed: false };
+  }
+
+  if (Buffer.isBuffer(req.rawBody)) {
+    return { body: new Uint8Array(req.rawBody), streamed: false };
+  }
+
+  return { body: Readable.toWeb(req) as ReadableStream<Uint8Array>, streamed: true };
+}
+
+export function copyProxyResponseHeaders(upstream: globalThis.Response, res: Response) {
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value !== null) {
+      res.setHeader(name, value);
+    }
+  }
+
+  // fetch() has already decoded compressed bodies, so only an identity length is still accurate
+  const contentLength = upstream.headers.get("content-length");
+  if (contentLength !== null && !upstream.headers.has("content-encoding")) {
+    res.setHeader("content-length", contentLength);
+  }
+}
+
+/** Streams a non-JSON upstream body (files, CSV exports, chunked responses) without buffering it */
+export async function pipeProxyResponse(upstream: globalThis.Response, res: Response) {
+  res.status(upstream.status);
+  copyProxyResponseHeaders(upstream, res);
+
+  if (!upstream.body || upstream.status === 204 || upstream.status === 304) {
+    res.end();
+    return;
+  }
+
+  res.flushHeaders();
+  await pipeline(Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>), res);
+}
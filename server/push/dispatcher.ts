@@ -0,0 +1,329 @@
+import pLimit from "p-limit";
+import type { Notification, NotificationResponse } from "@/lib/api/types.gen";
+import { shouldAlertNotification } from "@shared/notification-preferences";
+import { getDeepLinkPath, getNotificationLinkTarget } from "@shared/deep-links";
+import { getPushCategoryId, getPushChannelId } from "@shared/push";
+import { logger } from "../logger";
+import { UpstreamError, fetchUpstreamJson } from "../upstream";
+import { EXPO_STAND_IN_ENABLED, getExpoPushReceipts, isDeviceNotRegistered, sendExpoPushMessages, type ExpoPushMessage } from "./expo";
+import { notificationPreferencesStore } from "./preferences";
+import { pushTokenStore, type PushTokenRecord } from "./tokens";
+import { sendWebPushMessage, type WebPushMessage } from "./webpush";
+
+export type PushDispatchSource = "off" | "poll" | "webhook";
+
+// Polling rides on each user's short-lived access token, so it only fits development and small single-instance
+// setups; production expects the upstream to post new notifications to the webhook
+function readSource(): PushDispatchSource {
+  const value = process.env.PUSH_DISPATCH_SOURCE;
+  if (value === "off" || value === "poll" || value === "webhook") {
+    return value;
+  }
+  return process.env.NODE_ENV === "production" ? "webhook" : "poll";
+}
+
+function readMs(envName: string, fallback: number): number {
+  const value = Number.parseInt(process.env[envName] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const PUSH_DISPATCH_SOURCE = readSource();
+const PUSH_POLL_INTERVAL_MS = readMs("PUSH_POLL_INTERVAL_MS", 15_000);
+const PUSH_POLL_CONCURRENCY = 4;
+const PUSH_POLL_PAGE_SIZE = 20;
+const WEB_PUSH_CONCURRENCY = 8;
+// Expo asks senders to wait before fetching receipts; the stand-in answers immediately
+const PUSH_RECEIPT_DELAY_MS = readMs("PUSH_RECEIPT_DELAY_MS", EXPO_STAND_IN_ENABLED ? 5_000 : 15 * 60_000);
+const PUSH_RECEIPT_INTERVAL_MS = readMs("PUSH_RECEIPT_INTERVAL_MS", 60_000);
+const MAX_REMEMBERED_NOTIFICATIONS = 5000;
+
+type PushSession = {
+  /** Null once the upstream turned the token down; polling resumes when the app calls the BFF with a new one */
+  authorization: string | null;
+  /** Newest notification seen so far; null until the first poll sets the baseline */
+  lastCreatedAt: string | null;
+};
+
+type PendingReceipt = {
+  token: string;
+  userId: string;
+  sentAt: number;
+};
+
+// Bearer tokens are kept in memory only; after a restart or once a token expires, a user is polled again
+// when the app next calls the BFF
+const sessions = new Map<string, PushSession>();
+const pendingReceipts = new Map<string, PendingReceipt>();
+const pushedNotificationIds = new Set<string>();
+
+/**
+ * Lets the poller read this user's notifications while the app is closed, as long as the session stays valid.
+ * Re-arming a suspended session keeps its cursor, so what arrived meanwhile is pushed then instead of lost.
+ */
+export function rememberPushSession(userId: string, authorization: string) {
+  if (PUSH_DISPATCH_SOURCE !== "poll" || !pushTokenStore.hasTokens(userId)) {
+    return;
+  }
+
+  const existing = sessions.get(userId);
+  if (existing) {
+    existing.authorization = authorization;
+  } else {
+    sessions.set(userId, { authorization, lastCreatedAt: null });
+  }
+}
+
+export function forgetPushSession(userId: string) {
+  sessions.delete(userId);
+}
+
+/** Whether the poller holds a token the upstream still accepts for this user */
+export function isPushSessionLive(userId: string): boolean {
+  return Boolean(sessions.get(userId)?.authorization);
+}
+
+function markPushed(notificationId: string) {
+  pushedNotificationIds.add(notificationId);
+  if (pushedNotificationIds.size > MAX_REMEMBERED_NOTIFICATIONS) {
+    const oldest = pushedNotificationIds.values().next().value;
+    if (oldest !== undefined) pushedNotificationIds.delete(oldest);
+  }
+}
+
+function buildData(userId: string, notification: Notification): Record<string, unknown> {
+  const data = { ...notification.payload, type: notification.type, taskId: notification.taskId ?? null };
+  return {
+    ...data,
+    notificationId: notification.id,
+    // Same path a universal link would use, so the app routes taps through one table
+    url: getDeepLinkPath(getNotificationLinkTarget(data)),
+    // Lets the app drop a push for another account that arrives while it's open; background pushes are
+    // shown by the OS unfiltered, which is why signing out unregisters the device
+    recipientId: userId,
+  };
+}
+
+function buildMessage(
+  token: string,
+  userId: string,
+  notification: Notification,
+  badge: number | undefined,
+): ExpoPushMessage {
+  return {
+    to: token,
+    title: notification.title,
+    body: notification.message,
+    data: buildData(userId, notification),
+    sound: "default",
+    badge,
+    priority: "high",
+    channelId: getPushChannelId(notification.type),
+    categoryId: getPushCategoryId(notification.type),
+  };
+}
+
+function buildWebMessage(userId: string, notification: Notification, badge: number | undefined): WebPushMessage {
+  return {
+    title: notification.title,
+    body: notification.message,
+    data: buildData(userId, notification),
+    badge,
+    tag: notification.id,
+  };
+}
+
+async function pruneToken(token: string, userId: string, reason: string) {
+  if (await pushTokenStore.remove(token)) {
+    logger.info("Pruned push token", { userId, reason });
+  }
+  if (!pushTokenStore.hasTokens(userId)) {
+    forgetPushSession(userId);
+  }
+}
+
+async function dispatchToExpo(
+  userId: string,
+  notifications: Notification[],
+  devices: PushTokenRecord[],
+  unreadCount: number | undefined,
+): Promise<number> {
+  const messages = notifications.flatMap((notification) =>
+    devices.map((record) => buildMessage(record.token, userId, notification, unreadCount)),
+  );
+  const tickets = await sendExpoPushMessages(messages);
+
+  const sentAt = Date.now();
+  await Promise.all(
+    tickets.map(async (ticket, index) => {
+      const { to } = messages[index];
+      if (ticket.status === "ok") {
+        pendingReceipts.set(ticket.id, { token: to, userId, sentAt });
+      } else if (isDeviceNotRegistered(ticket)) {
+        await pruneToken(to, userId, "ticket");
+      } else {
+        logger.warn("Push ticket error", { userId, message: ticket.message, error: ticket.details?.error });
+      }
+    }),
+  );
+  return messages.length;
+}
+
+// Web Push has no tickets or receipts: the push service answers each request directly
+async function dispatchToWeb(
+  userId: string,
+  notifications: Notification[],
+  devices: PushTokenRecord[],
+  unreadCount: number | undefined,
+): Promise<number> {
+  const limit = pLimit(WEB_PUSH_CONCURRENCY);
+  const sends = devices.flatMap((record) =>
+    notifications.map((notification) =>
+      limit(async () => {
+        if (!record.webPushKeys) return;
+        const result = await sendWebPushMessage(
+          record.token,
+          record.webPushKeys,
+          buildWebMessage(userId, notification, unreadCount),
+        );
+        if (result.status === "gone") {
+          await pruneToken(record.token, userId, "webpush");
+        } else if (result.status === "error") {
+          logger.warn("Web push error", { userId, message: result.message });
+        }
+      }),
+    ),
+  );
+  await Promise.all(sends);
+  return sends.length;
+}
+
+/**
+ * Sends each unread, not yet pushed notification to every device the user registered,
+ * unless the user's preferences keep it in the app (type, muted list or quiet hours)
+ */
+export async function dispatchNotifications(
+  userId: string,
+  notifications: Notification[],
+  unreadCount?: number,
+): Promise<number> {
+  const unpushed = notifications.filter((notification) => !notification.isRead && !pushedNotificationIds.has(notification.id));
+  const preferences = notificationPreferencesStore.get(userId);
+  const fresh = unpushed.filter((notification) => shouldAlertNotification(preferences, notification));
+  // Held back notifications are not pushed later either: a 7am burst of last night's approvals is worse than none
+  unpushed.forEach((notification) => markPushed(notification.id));
+
+  const devices = await pushTokenStore.listForUser(userId);
+  if (fresh.length === 0 || devices.length === 0) {
+    return 0;
+  }
+
+  const expoDevices = devices.filter((record) => record.provider === "expo");
+  const webDevices = devices.filter((record) => record.provider === "webpush");
+  const sent =
+    (expoDevices.length > 0 ? await dispatchToExpo(userId, fresh, expoDevices, unreadCount) : 0) +
+    (webDevices.length > 0 ? await dispatchToWeb(userId, fresh, webDevices, unreadCount) : 0);
+
+  logger.info("Dispatched push notifications", {
+    userId,
+    notifications: fresh.length,
+    expo: expoDevices.length,
+    webpush: webDevices.length,
+    messages: sent,
+  });
+  return sent;
+}
+
+export async function checkPushReceipts() {
+  const due = [...pendingReceipts.entries()].filter(([, pending]) => Date.now() - pending.sentAt >= PUSH_RECEIPT_DELAY_MS);
+  if (due.length === 0) {
+    return;
+  }
+
+  const receipts = await getExpoPushReceipts(due.map(([ticketId]) => ticketId));
+  for (const [ticketId, pending] of due) {
+    const receipt = receipts[ticketId];
+    if (!receipt) {
+      // Expo drops receipts after a day; stop asking once it has clearly forgotten the ticket
+      if (Date.now() - pending.sentAt > 24 * 60 * 60_000) pendingReceipts.delete(ticketId);
+      continue;
+    }
+
+    pendingReceipts.delete(ticketId);
+    if (isDeviceNotRegistered(receipt)) {
+      await pruneToken(pending.token, pending.userId, "receipt");
+    } else if (receipt.status === "error") {
+      logger.warn("Push receipt error", { userId: pending.userId, message: receipt.message, error: receipt.details?.error });
+    }
+  }
+}
+
+async function pollUser(userId: string, session: PushSession, authorization: string) {
+  try {
+    const page = await fetchUpstreamJson<NotificationResponse>(
+      `/v1/notifications?limit=${PUSH_POLL_PAGE_SIZE}`,
+      authorization,
+    );
+    const newest = page.data.reduce<string | null>(
+      (latest, notification) => (!latest || notification.createdAt > latest ? notification.createdAt : latest),
+      session.lastCreatedAt,
+    );
+
+    // The first poll only records where we are, so a fresh session doesn't replay the backlog
+    if (session.lastCreatedAt !== null) {
+      const since = session.lastCreatedAt;
+      const fresh = page.data.filter((notification) => notification.createdAt > since);
+      await dispatchNotifications(userId, fresh, page.unreadCount);
+    }
+    session.lastCreatedAt = newest ?? new Date(0).toISOString();
+  } catch (error) {
+    if (error instanceof UpstreamError && (error.status === 401 || error.status === 403)) {
+      // Only if no newer token arrived while this poll was in flight
+      if (session.authorization === authorization) session.authorization = null;
+      logger.info("Push poll session expired", { userId });
+      return;
+    }
+    logger.warn("Push poll failed", { userId, error });
+  }
+}
+
+export async function pollPushNotifications() {
+  const limit = pLimit(PUSH_POLL_CONCURRENCY);
+  await Promise.all(
+    [...sessions.entries()].map(([userId, session]) => {
+      const { authorization } = session;
+      return authorization ? limit(() => pollUser(userId, session, authorization)) : null;
+    }),
+  );
+}
+
+function every(intervalMs: number, task: () => Promise<void>, name: string) {
+  let running = false;
+  const timer = setInterval(async () => {
+    // A slow upstream must not stack up overlapping runs
+    if (running) return;
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      logger.error(`${name} failed`, { error });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+}
+
+export function startPushDispatcher() {
+  if (PUSH_DISPATCH_SOURCE === "off") {
+    return;
+  }
+
+  if (PUSH_DISPATCH_SOURCE === "poll") {
+    if (process.env.NODE_ENV === "production") {
+      logger.warn("PUSH_DISPATCH_SOURCE=poll stops pushing once a user's access token expires; use webhook in production");
+    }
+    every(PUSH_POLL_INTERVAL_MS, pollPushNotifications, "Push notification poll");
+  }
+  every(PUSH_RECEIPT_INTERVAL_MS, checkPushReceipts, "Push receipt check");
+  logger.info("Push dispatcher started", { source: PUSH_DISPATCH_SOURCE, expoStandIn: EXPO_STAND_IN_ENABLED });
+}
@@ -0,0 +1,101 @@
+import { MOCK_API_BASE_PATH, MOCK_API_ENABLED } from "../mock-api";
+
+export type ExpoPushMessage = {
+  to: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  sound?: "default";
+  badge?: number;
+  priority?: "default" | "normal" | "high";
+  /** Android notification channel, see PUSH_CHANNELS in shared/push.ts */
+  channelId?: string;
+  /** Action buttons, see PUSH_CATEGORIES in shared/push.ts */
+  categoryId?: string;
+};
+
+export type ExpoPushTicket =
+  | { status: "ok"; id: string }
+  | { status: "error"; message: string; details?: { error?: string } };
+
+export type ExpoPushReceipt =
+  | { status: "ok" }
+  | { status: "error"; message: string; details?: { error?: string } };
+
+/** Path the local stand-in is mounted on; see ./stand-in.ts */
+export const EXPO_STAND_IN_PATH = `${MOCK_API_BASE_PATH}/expo`;
+export const EXPO_STAND_IN_ENABLED =
+  process.env.NODE_ENV !== "production" && (process.env.EXPO_PUSH_STAND_IN === "1" || MOCK_API_ENABLED);
+
+const EXPO_PUSH_API_URL = EXPO_STAND_IN_ENABLED
+  ? `http://127.0.0.1:${process.env.PORT || "5000"}${EXPO_STAND_IN_PATH}`
+  : process.env.EXPO_PUSH_API_URL || "https://exp.host/--/api/v2";
+const EXPO_TOKEN_PATTERN = /^(Exponent|Expo)PushToken\[.+\]$/;
+const EXPO_REQUEST_TIMEOUT_MS = 10_000;
+// Limits documented by Expo for a single request
+const SEND_CHUNK_SIZE = 100;
+const RECEIPT_CHUNK_SIZE = 1000;
+
+export class ExpoPushError extends Error {
+  constructor(
+    public status: number,
+    public payload: unknown,
+  ) {
+    super(`Expo push API request failed with status ${status}`);
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function postToExpo<T>(path: string, body: unknown): Promise<T> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+  if (process.env.EXPO_ACCESS_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.EXPO_ACCESS_TOKEN}`;
+  }
+
+  const response = await fetch(`${EXPO_PUSH_API_URL}${path}`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(EXPO_REQUEST_TIMEOUT_MS),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ExpoPushError(response.status, payload);
+  }
+  return (payload as { data: T }).data;
+}
+
+/** Sends messages in Expo-sized batches; tickets come back in the same order as the messages */
+export async function sendExpoPushMessages(messages: ExpoPushMessage[]): Promise<ExpoPushTicket[]> {
+  const tickets: ExpoPushTicket[] = [];
+  for (const batch of chunk(messages, SEND_CHUNK_SIZE)) {
+    tickets.push(...(await postToExpo<ExpoPushTicket[]>("/push/send", batch)));
+  }
+  return tickets;
+}
+
+export async function getExpoPushReceipts(ticketIds: string[]): Promise<Record<string, ExpoPushReceipt>> {
+  const receipts: Record<string, ExpoPushReceipt> = {};
+  for (const batch of chunk(ticketIds, RECEIPT_CHUNK_SIZE)) {
+    Object.assign(receipts, await postToExpo<Record<string, ExpoPushReceipt>>("/push/getReceipts", { ids: batch }));
+  }
+  return receipts;
+}
+
+export function isExpoPushToken(token: unknown): token is string {
+  return typeof token === "string" && EXPO_TOKEN_PATTERN.test(token);
+}
+
+export function isDeviceNotRegistered(result: ExpoPushTicket | ExpoPushReceipt): boolean {
+  return result.status === "error" && result.details?.error === "DeviceNotRegistered";
+}
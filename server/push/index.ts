@@ -0,0 +1,236 @@
+import { timingSafeEqual } from "crypto";
+import type { Express, Request, Response } from "express";
+import type { Notification } from "@/lib/api/types.gen";
+import { notificationPreferencesSchema } from "@shared/notification-preferences";
+import { PUSH_PROVIDERS, type PushProvider } from "@shared/push";
+import { findSessionUser, getBearerAuthorization, getSessionUser } from "../auth";
+import { logger } from "../logger";
+import {
+  PUSH_DISPATCH_SOURCE,
+  dispatchNotifications,
+  forgetPushSession,
+  isPushSessionLive,
+  rememberPushSession,
+  startPushDispatcher,
+} from "./dispatcher";
+import { EXPO_STAND_IN_ENABLED, EXPO_STAND_IN_PATH, isExpoPushToken } from "./expo";
+import { createExpoStandInRouter } from "./stand-in";
+import { notificationPreferencesStore } from "./preferences";
+import { pushTokenStore, type PushTokenRecord, type WebPushKeys } from "./tokens";
+import { getVapidPublicKey, isWebPushEnabled, isWebPushSubscription } from "./webpush";
+
+const PUSH_WEBHOOK_SECRET = process.env.PUSH_WEBHOOK_SECRET || "";
+export const PUSH_WEBHOOK_PATH = "/api/push/webhook/notifications";
+const MAX_DEVICE_NAME_LENGTH = 80;
+
+type WebhookEvent = {
+  userId?: unknown;
+  notification?: Notification;
+  unreadCount?: unknown;
+};
+
+export function isServerPushEnabled(): boolean {
+  return PUSH_DISPATCH_SOURCE !== "off";
+}
+
+/**
+ * Whether the dispatcher will actually push this user's new notifications. The app raises them locally
+ * otherwise, so this must not claim more than the webhook or a live poll session delivers.
+ */
+function isServerDispatchLive(userId: string): boolean {
+  if (PUSH_DISPATCH_SOURCE === "webhook") {
+    return Boolean(PUSH_WEBHOOK_SECRET);
+  }
+  return PUSH_DISPATCH_SOURCE === "poll" && isPushSessionLive(userId);
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function toDevice(record: PushTokenRecord) {
+  return {
+    id: record.id,
+    deviceName: record.deviceName,
+    provider: record.provider,
+    platform: record.platform,
+    appVersion: record.appVersion,
+    registeredAt: record.registeredAt,
+    lastSeenAt: record.lastSeenAt,
+  };
+}
+
+function hasValidSecret(req: Request): boolean {
+  const provided = Buffer.from(String(req.headers["x-webhook-secret"] || ""));
+  const expected = Buffer.from(PUSH_WEBHOOK_SECRET);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function badRequest(res: Response, message: string, field: string) {
+  return res.status(400).json({ error: { code: "BAD_REQUEST", message, details: { field } } });
+}
+
+/** Stores the device token, or the Web Push subscription, for the BFF dispatcher (requires requireAuth) */
+export async function registerPushToken(req: Request, res: Response) {
+  const user = getSessionUser(res);
+  const provider = (readString(req.body?.provider) || "expo") as PushProvider;
+  if (!PUSH_PROVIDERS.includes(provider)) {
+    return badRequest(res, `provider must be one of ${PUSH_PROVIDERS.join(", ")}`, "provider");
+  }
+
+  let token: string | null;
+  let webPushKeys: WebPushKeys | null = null;
+  if (provider === "webpush") {
+    if (!isWebPushEnabled()) {
+      return res.status(503).json({ error: { code: "WEB_PUSH_DISABLED", message: "Web Push is not configured" } });
+    }
+    const subscription = req.body?.subscription;
+    if (!isWebPushSubscription(subscription?.endpoint, subscription?.keys)) {
+      return badRequest(res, "subscription must be a PushSubscription with endpoint and keys", "subscription");
+    }
+    token = subscription.endpoint as string;
+    webPushKeys = { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth };
+  } else {
+    token = readString(req.body?.token);
+    if (!isExpoPushToken(token)) {
+      return badRequest(res, "token must be an Expo push token", "token");
+    }
+  }
+
+  const record = await pushTokenStore.register({
+    token,
+    userId: user.id,
+    provider,
+    webPushKeys,
+    platform: readString(req.body?.platform),
+    deviceName: readString(req.body?.deviceName)?.slice(0, MAX_DEVICE_NAME_LENGTH) ?? null,
+    appVersion: readString(req.body?.appVersion),
+  });
+  const authorization = getBearerAuthorization(req);
+  if (authorization) {
+    rememberPushSession(user.id, authorization);
+  }
+
+  return res.status(201).json({ ...toDevice(record), token: record.token, serverDispatch: isServerDispatchLive(user.id) });
+}
+
+/** VAPID public key the web app subscribes with; 404 while Web Push is not configured */
+export function getWebPushConfig(_req: Request, res: Response) {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    return res.status(404).json({ error: { code: "WEB_PUSH_DISABLED", message: "Web Push is not configured" } });
+  }
+  return res.json({ publicKey });
+}
+
+/**
+ * Removes a device token (behind optionalAuth). A device whose session already expired can't sign the
+ * request, so holding the raw token is the proof there; the app names the account it registered the
+ * token for, so one that has since moved to another account is left alone.
+ */
+export async function unregisterPushToken(req: Request, res: Response) {
+  const token = readString(req.body?.token) || readString(req.body?.subscription?.endpoint);
+  if (!token) {
+    return badRequest(res, "token is required", "token");
+  }
+  const ownerId = findSessionUser(res)?.id ?? readString(req.body?.userId);
+  if (!ownerId) {
+    return badRequest(res, "userId is required without a session", "userId");
+  }
+
+  await pushTokenStore.remove(token, ownerId);
+  if (!pushTokenStore.hasTokens(ownerId)) {
+    forgetPushSession(ownerId);
+  }
+  return res.status(204).send();
+}
+
+export async function listPushDevices(_req: Request, res: Response) {
+  const user = getSessionUser(res);
+  const records = await pushTokenStore.listForUser(user.id);
+  const devices = records.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt)).map(toDevice);
+  return res.json({ data: devices });
+}
+
+/** Stops pushes to one of the user's devices, e.g. a tablet they no longer use */
+export async function revokePushDevice(req: Request, res: Response) {
+  const user = getSessionUser(res);
+  const revoked = await pushTokenStore.revoke(String(req.params.id), user.id);
+  if (!revoked) {
+    return res.status(404).json({ error: { code: "NOT_FOUND", message: "Device not found" } });
+  }
+
+  logger.info("Revoked push device", { userId: user.id, deviceId: revoked.id });
+  if (!pushTokenStore.hasTokens(user.id)) {
+    forgetPushSession(user.id);
+  }
+  return res.status(204).send();
+}
+
+export function getNotificationPreferences(_req: Request, res: Response) {
+  const user = getSessionUser(res);
+  return res.json(notificationPreferencesStore.get(user.id));
+}
+
+/** Replaces the user's preferences; the app always sends the whole document */
+export async function updateNotificationPreferences(req: Request, res: Response) {
+  const user = getSessionUser(res);
+  const result = notificationPreferencesSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({
+      error: {
+        code: "BAD_REQUEST",
+        message: "Invalid notification preferences",
+        details: { issues: result.error.issues.map(({ path, message }) => ({ path: path.join("."), message })) },
+      },
+    });
+  }
+
+  return res.json(await notificationPreferencesStore.set(user.id, result.data));
+}
+
+async function handleNotificationWebhook(req: Request, res: Response) {
+  if (!hasValidSecret(req)) {
+    return res.status(401).json({ error: { code: "UNAUTHORIZED", message: "Invalid webhook secret" } });
+  }
+
+  const events: WebhookEvent[] = Array.isArray(req.body?.events) ? req.body.events : [req.body];
+  const byUser = new Map<string, { notifications: Notification[]; unreadCount?: number }>();
+  for (const event of events) {
+    const userId = readString(event?.userId);
+    if (!userId || !event.notification?.id) {
+      return res.status(400).json({
+        error: { code: "BAD_REQUEST", message: "Each event needs a userId and a notification with an id" },
+      });
+    }
+
+    const entry = byUser.get(userId) || { notifications: [] };
+    entry.notifications.push(event.notification);
+    if (typeof event.unreadCount === "number") entry.unreadCount = event.unreadCount;
+    byUser.set(userId, entry);
+  }
+
+  // Acknowledge first so the upstream isn't held up by Expo; failures are logged
+  res.status(202).json({ accepted: events.length });
+  for (const [userId, { notifications, unreadCount }] of byUser) {
+    dispatchNotifications(userId, notifications, unreadCount).catch((error) => {
+      logger.error("Webhook push dispatch failed", { userId, error });
+    });
+  }
+}
+
+export function registerPushDispatcher(app: Express) {
+  if (EXPO_STAND_IN_ENABLED) {
+    app.use(EXPO_STAND_IN_PATH, createExpoStandInRouter());
+  }
+
+  if (PUSH_DISPATCH_SOURCE === "webhook") {
+    if (PUSH_WEBHOOK_SECRET) {
+      app.post(PUSH_WEBHOOK_PATH, handleNotificationWebhook);
+    } else {
+      logger.warn("PUSH_DISPATCH_SOURCE=webhook needs PUSH_WEBHOOK_SECRET; webhook disabled");
+    }
+  }
+
+  startPushDispatcher();
+}
@@ -0,0 +1,41 @@
+import { existsSync, readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import path from "path";
+import { logger } from "../logger";
+
+/** Directory for the BFF's own state (push devices, notification preferences) */
+export const DATA_DIR = path.resolve(process.cwd(), ".data");
+
+export function readJsonFile<T>(filePath: string, label: string): T | null {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(filePath, "utf8")) as T;
+  } catch (error) {
+    logger.error(`Failed to load ${label}`, { filePath, error });
+    return null;
+  }
+}
+
+/**
+ * Returns a writer that persists snapshots in order. Writes go through a temp file
+ * so a crash never leaves half a JSON document behind.
+ */
+export function createJsonFileWriter(filePath: string, label: string) {
+  let writing: Promise<void> = Promise.resolve();
+
+  return (value: unknown): Promise<void> => {
+    const snapshot = JSON.stringify(value, null, 2);
+    writing = writing.then(async () => {
+      try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(`${filePath}.tmp`, snapshot);
+        await rename(`${filePath}.tmp`, filePath);
+      } catch (error) {
+        logger.error(`Failed to persist ${label}`, { filePath, error });
+      }
+    });
+    return writing;
+  };
+}
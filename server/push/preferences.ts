@@ -0,0 +1,51 @@
+import path from "path";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationPreferences,
+  type StoredNotificationPreferences,
+} from "@shared/notification-preferences";
+import { DATA_DIR, createJsonFileWriter, readJsonFile } from "./json-file";
+
+export interface INotificationPreferencesStore {
+  get(userId: string): StoredNotificationPreferences;
+  set(userId: string, preferences: NotificationPreferences): Promise<StoredNotificationPreferences>;
+}
+
+const NOTIFICATION_PREFERENCES_PATH =
+  process.env.NOTIFICATION_PREFERENCES_PATH || path.join(DATA_DIR, "notification-preferences.json");
+
+// Fills in types added after the user last saved, so a new notification type defaults to push
+function withDefaults(stored: StoredNotificationPreferences): StoredNotificationPreferences {
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...stored,
+    types: { ...DEFAULT_NOTIFICATION_PREFERENCES.types, ...stored.types },
+    quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...stored.quietHours },
+  };
+}
+
+export class FileNotificationPreferencesStore implements INotificationPreferencesStore {
+  private preferences = new Map<string, StoredNotificationPreferences>();
+  private write: (value: Record<string, StoredNotificationPreferences>) => Promise<void>;
+
+  constructor(filePath: string) {
+    this.write = createJsonFileWriter(filePath, "notification preferences");
+    const stored = readJsonFile<Record<string, StoredNotificationPreferences>>(filePath, "notification preferences");
+    for (const [userId, preferences] of Object.entries(stored || {})) {
+      this.preferences.set(userId, withDefaults(preferences));
+    }
+  }
+
+  get(userId: string): StoredNotificationPreferences {
+    return this.preferences.get(userId) || { ...DEFAULT_NOTIFICATION_PREFERENCES, updatedAt: null };
+  }
+
+  async set(userId: string, preferences: NotificationPreferences): Promise<StoredNotificationPreferences> {
+    const stored = { ...preferences, updatedAt: new Date().toISOString() };
+    this.preferences.set(userId, stored);
+    await this.write(Object.fromEntries(this.preferences));
+    return stored;
+  }
+}
+
+export const notificationPreferencesStore = new FileNotificationPreferencesStore(NOTIFICATION_PREFERENCES_PATH);
@@ -0,0 +1,64 @@
+import { randomUUID } from "crypto";
+import express, { type Request, type Response } from "express";
+import { logger } from "../logger";
+import { isExpoPushToken, type ExpoPushMessage, type ExpoPushReceipt, type ExpoPushTicket } from "./expo";
+
+const MAX_KEPT_MESSAGES = 200;
+
+type DeliveredMessage = ExpoPushMessage & { ticketId: string; deliveredAt: string };
+
+/**
+ * Local stand-in for the Expo push API, used with the mock API and in tests.
+ * Malformed tokens are rejected at send time, and tokens containing "unregistered"
+ * are accepted but report DeviceNotRegistered in their receipt, like an uninstalled app.
+ */
+export function createExpoStandInRouter() {
+  const router = express.Router();
+  const delivered: DeliveredMessage[] = [];
+  const receipts = new Map<string, ExpoPushReceipt>();
+
+  router.use(express.json());
+
+  router.post("/push/send", (req: Request, res: Response) => {
+    const messages = (Array.isArray(req.body) ? req.body : [req.body]) as ExpoPushMessage[];
+    const tickets = messages.map((message): ExpoPushTicket => {
+      if (!isExpoPushToken(message?.to)) {
+        return {
+          status: "error",
+          message: `"${message?.to}" is not a registered push notification recipient`,
+          details: { error: "DeviceNotRegistered" },
+        };
+      }
+
+      const ticketId = randomUUID();
+      receipts.set(
+        ticketId,
+        /unregistered/i.test(message.to)
+          ? { status: "error", message: "The device is not registered", details: { error: "DeviceNotRegistered" } }
+          : { status: "ok" },
+      );
+      delivered.unshift({ ...message, ticketId, deliveredAt: new Date().toISOString() });
+      delivered.splice(MAX_KEPT_MESSAGES);
+      logger.info("Expo stand-in received push", { title: message.title, ticketId });
+      return { status: "ok", id: ticketId };
+    });
+    res.json({ data: tickets });
+  });
+
+  router.post("/push/getReceipts", (req: Request, res: Response) => {
+    const ids: unknown[] = Array.isArray(req.body?.ids) ? req.body.ids : [];
+    const data: Record<string, ExpoPushReceipt> = {};
+    for (const id of ids) {
+      const receipt = typeof id === "string" ? receipts.get(id) : undefined;
+      if (receipt) data[id as string] = receipt;
+    }
+    res.json({ data });
+  });
+
+  // Lets developers see what would have reached the phone
+  router.get("/messages", (_req: Request, res: Response) => {
+    res.json({ data: delivered });
+  });
+
+  return router;
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import type { PushProvider } from "@shared/push";
+import { DATA_DIR, createJsonFileWriter, readJsonFile } from "./json-file";
+
+export type WebPushKeys = { p256dh: string; auth: string };
+
+export type PushTokenRecord = {
+  /** Stable device id exposed to the app; the raw token never leaves the BFF after registration */
+  id: string;
+  /** Expo push token, or the subscription endpoint for Web Push */
+  token: string;
+  userId: string;
+  provider: PushProvider;
+  webPushKeys: WebPushKeys | null;
+  platform: string | null;
+  deviceName: string | null;
+  appVersion: string | null;
+  registeredAt: string;
+  lastSeenAt: string;
+};
+
+export type NewPushToken = Pick<PushTokenRecord, "token" | "userId" | "provider" | "webPushKeys" | "platform" | "deviceName" | "appVersion">;
+
+export interface IPushTokenStore {
+  register(token: NewPushToken): Promise<PushTokenRecord>;
+  /** Removes a token; when userId is given, only if it belongs to that user */
+  remove(token: string, userId?: string): Promise<boolean>;
+  /** Removes a device by id, only if it belongs to the user; returns the removed record */
+  revoke(id: string, userId: string): Promise<PushTokenRecord | null>;
+  listForUser(userId: string): Promise<PushTokenRecord[]>;
+  hasTokens(userId: string): boolean;
+}
+
+const PUSH_TOKEN_STORE_PATH = process.env.PUSH_TOKEN_STORE_PATH || path.join(DATA_DIR, "push-tokens.json");
+
+export class FilePushTokenStore implements IPushTokenStore {
+  private tokens = new Map<string, PushTokenRecord>();
+  private write: (records: PushTokenRecord[]) => Promise<void>;
+
+  constructor(private filePath: string) {
+    this.write = createJsonFileWriter(filePath, "push token store");
+    this.load();
+  }
+
+  async register(input: NewPushToken): Promise<PushTokenRecord> {
+    const now = new Date().toISOString();
+    const existing = this.tokens.get(input.token);
+    // A token moves with the device, so re-registering under another account transfers it
+    // as a new device: the previous owner loses it and never sees it in their device list again
+    const sameOwner = existing?.userId === input.userId;
+    const record: PushTokenRecord = {
+      ...input,
+      id: sameOwner ? existing.id : randomUUID(),
+      registeredAt: sameOwner ? existing.registeredAt : now,
+      lastSeenAt: now,
+    };
+    this.tokens.set(input.token, record);
+    await this.persist();
+    return record;
+  }
+
+  async remove(token: string, userId?: string): Promise<boolean> {
+    const existing = this.tokens.get(token);
+    if (!existing || (userId && existing.userId !== userId)) {
+      return false;
+    }
+    this.tokens.delete(token);
+    await this.persist();
+    return true;
+  }
+
+  async revoke(id: string, userId: string): Promise<PushTokenRecord | null> {
+    for (const record of this.tokens.values()) {
+      if (record.id === id && record.userId === userId) {
+        this.tokens.delete(record.token);
+        await this.persist();
+        return record;
+      }
+    }
+    return null;
+  }
+
+  async listForUser(userId: string): Promise<PushTokenRecord[]> {
+    return [...this.tokens.values()].filter((record) => record.userId === userId);
+  }
+
+  hasTokens(userId: string): boolean {
+    for (const record of this.tokens.values()) {
+      if (record.userId === userId) return true;
+    }
+    return false;
+  }
+
+  private load() {
+    const records = readJsonFile<PushTokenRecord[]>(this.filePath, "push token store") || [];
+    for (const record of records) {
+      // Records written before devices had ids, names or Web Push support
+      this.tokens.set(record.token, {
+        ...record,
+        id: record.id || randomUUID(),
+        provider: record.provider || "expo",
+        webPushKeys: record.webPushKeys ?? null,
+        deviceName: record.deviceName ?? null,
+      });
+    }
+  }
+
+  private persist(): Promise<void> {
+    return this.write([...this.tokens.values()]);
+  }
+}
+
+export const pushTokenStore = new FilePushTokenStore(PUSH_TOKEN_STORE_PATH);
@@ -0,0 +1,57 @@
+import webPush, { WebPushError } from "web-push";
+import type { WebPushKeys } from "./tokens";
+
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || "";
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY || "";
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || "mailto:push@taskquest.app";
+// Push services drop the message if the browser stays offline longer than this
+const WEB_PUSH_TTL_SECONDS = 24 * 60 * 60;
+const WEB_PUSH_TIMEOUT_MS = 10_000;
+
+export type WebPushMessage = {
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  badge?: number;
+  tag?: string;
+};
+
+export type WebPushResult = { status: "ok" } | { status: "gone" } | { status: "error"; message: string };
+
+export function isWebPushEnabled(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+}
+
+export function getVapidPublicKey(): string | null {
+  return isWebPushEnabled() ? VAPID_PUBLIC_KEY : null;
+}
+
+export function isWebPushSubscription(endpoint: unknown, keys: unknown): keys is WebPushKeys {
+  if (typeof endpoint !== "string" || !keys || typeof keys !== "object") {
+    return false;
+  }
+  const { p256dh, auth } = keys as Record<string, unknown>;
+  return /^https:\/\//.test(endpoint) && typeof p256dh === "string" && typeof auth === "string";
+}
+
+/** Sends one encrypted message; a 404/410 from the push service means the subscription is gone for good */
+export async function sendWebPushMessage(
+  endpoint: string,
+  keys: WebPushKeys,
+  message: WebPushMessage,
+): Promise<WebPushResult> {
+  try {
+    await webPush.sendNotification({ endpoint, keys }, JSON.stringify(message), {
+      vapidDetails: { subject: VAPID_SUBJECT, publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY },
+      TTL: WEB_PUSH_TTL_SECONDS,
+      timeout: WEB_PUSH_TIMEOUT_MS,
+      urgency: "high",
+    });
+    return { status: "ok" };
+  } catch (error) {
+    if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+      return { status: "gone" };
+    }
+    return { status: "error", message: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,75 @@
+import type { NextFunction, Request, Response } from "express";
+import { getSessionUser } from "./auth";
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export type RateLimitOptions = {
+  name: string;
+  /** Sustained requests per minute; also the burst size */
+  perMinute: number;
+  key: (req: Request, res: Response) => string;
+};
+
+const MAX_BUCKETS_PER_LIMITER = 10_000;
+
+export function readRateLimit(envName: string, fallback: number): number {
+  const value = Number.parseInt(process.env[envName] || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function createRateLimiter({ name, perMinute, key }: RateLimitOptions) {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60_000;
+
+  function sweep(now: number) {
+    for (const [bucketKey, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= perMinute) {
+        buckets.delete(bucketKey);
+      }
+    }
+  }
+
+  return function rateLimit(req: Request, res: Response, next: NextFunction) {
+    // 0 disables the limiter
+    if (perMinute === 0) {
+      return next();
+    }
+
+    const now = Date.now();
+    const bucketKey = key(req, res);
+    const bucket = buckets.get(bucketKey) || { tokens: perMinute, updatedAt: now };
+    bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens < 1) {
+      const retryAfterSeconds = Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+      buckets.set(bucketKey, bucket);
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      return res.status(429).json({
+        error: {
+          code: "RATE_LIMITED",
+          message: "Too many requests, please try again later",
+          details: { limit: name, retryAfterSeconds },
+        },
+      });
+    }
+
+    bucket.tokens -= 1;
+    if (buckets.size >= MAX_BUCKETS_PER_LIMITER) {
+      sweep(now);
+    }
+    buckets.set(bucketKey, bucket);
+    return next();
+  };
+}
+
+export function byIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+export function byUser(_req: Request, res: Response): string {
+  return getSessionUser(res).id;
+}
@@ -0,0 +1,259 @@
+import type { Request, Response } from "express";
+import { logger, redactPath } from "./logger";
+import { resolveSessionUser } from "./auth";
+import { rememberPushSession } from "./push/dispatcher";
+import { UpstreamError, fetchUpstreamJson, sendUpstreamFailure } from "./upstream";
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export type RealtimeEventType =
+  | "task.updated"
+  | "comment.created"
+  | "list.updated"
+  | "notifications.changed"
+  | "ledger.changed";
+
+export type RealtimeEvent = {
+  type: RealtimeEventType;
+  taskId?: string;
+  listId?: string;
+  action?: string;
+};
+
+export type TaskSnapshot = {
+  id: string;
+  listId: string;
+  creatorUserId?: string;
+  assigneeUserId?: string | null;
+  approverUserId?: string | null;
+};
+
+type MutationContext = {
+  method: string;
+  path: string;
+  authorization: string | null;
+  body?: unknown;
+  /** The task as it was before the mutation, for deletions that leave nothing to read afterwards */
+  previous?: TaskSnapshot | null;
+};
+
+const clientsByUser = new Map<string, Set<Response>>();
+
+// Task actions that move XP or energy for the people involved in the task
+const LEDGER_ACTIONS = new Set(["created", "start", "complete", "approve", "reject"]);
+
+async function resolveUserId(authorization: string): Promise<string> {
+  return (await resolveSessionUser(authorization)).id;
+}
+
+function writeEvent(res: Response, event: RealtimeEvent) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+function publishToUsers(userIds: Iterable<string>, event: RealtimeEvent) {
+  for (const userId of new Set(userIds)) {
+    const clients = clientsByUser.get(userId);
+    if (!clients) continue;
+
+    for (const res of clients) {
+      writeEvent(res, event);
+    }
+  }
+}
+
+async function getListMemberIds(listId: string, authorization: string): Promise<string[]> {
+  const members = await fetchUpstreamJson<{ data?: { userId: string; status: string }[] }>(
+    `/v1/lists/${listId}/members`,
+    authorization,
+  );
+  return (members.data || []).filter((member) => member.status === "active").map((member) => member.userId);
+}
+
+function readTaskSnapshot(body: unknown): TaskSnapshot | null {
+  if (!body || typeof body !== "object") return null;
+  const task = body as Partial<TaskSnapshot>;
+  return typeof task.id === "string" && typeof task.listId === "string" ? (task as TaskSnapshot) : null;
+}
+
+function readTaskId(body: unknown): string | null {
+  if (!body || typeof body !== "object") return null;
+  const taskId = (body as { taskId?: unknown }).taskId;
+  return typeof taskId === "string" ? taskId : null;
+}
+
+async function publishTaskEvent(
+  ctx: MutationContext & { authorization: string },
+  type: "task.updated" | "comment.created",
+  taskId: string,
+  action: string,
+  knownTask: TaskSnapshot | null,
+) {
+  const task = knownTask || (await fetchUpstreamJson<TaskSnapshot>(`/v1/tasks/${taskId}`, ctx.authorization));
+  const [actorId, memberIds] = await Promise.all([
+    resolveUserId(ctx.authorization),
+    getListMemberIds(task.listId, ctx.authorization),
+  ]);
+
+  publishToUsers(memberIds, { type, taskId: task.id, listId: task.listId, action });
+  publishToUsers(
+    memberIds.filter((id) => id !== actorId),
+    { type: "notifications.changed", taskId: task.id, listId: task.listId },
+  );
+
+  if (type === "task.updated" && LEDGER_ACTIONS.has(action)) {
+    const involved = [actorId, task.creatorUserId, task.assigneeUserId, task.approverUserId].filter(
+      (id): id is string => !!id && memberIds.includes(id),
+    );
+    publishToUsers(involved, { type: "ledger.changed", taskId: task.id, listId: task.listId, action });
+  }
+}
+
+async function publishListEvent(ctx: MutationContext & { authorization: string }, listId: string, action: string) {
+  const memberIds = await getListMemberIds(listId, ctx.authorization);
+  const actorId = await resolveUserId(ctx.authorization);
+  // The actor may just have left or been removed, so make sure they still hear about it
+  publishToUsers([...memberIds, actorId], { type: "list.updated", listId, action });
+  publishToUsers(
+    memberIds.filter((id) => id !== actorId),
+    { type: "notifications.changed", listId },
+  );
+}
+
+async function dispatchMutation(ctx: MutationContext & { authorization: string }) {
+  const segments = ctx.path.split("/").filter(Boolean).slice(1);
+  const [resource, id, action] = segments;
+
+  if (resource === "tasks" && id) {
+    if (action === "comments") {
+      return publishTaskEvent(ctx, "comment.created", id, "comment", null);
+    }
+
+    if (!action && ctx.method === "DELETE") {
+      if (!ctx.previous) {
+        logger.warn("Realtime: deleted task was not read beforehand, members not told", { taskId: id });
+        return;
+      }
+      return publishTaskEvent(ctx, "task.updated", id, "deleted", ctx.previous);
+    }
+    return publishTaskEvent(ctx, "task.updated", id, action || "updated", readTaskSnapshot(ctx.body));
+  }
+
+  if (resource === "subtasks") {
+    const taskId = readTaskId(ctx.body);
+    if (taskId) {
+      return publishTaskEvent(ctx, "task.updated", taskId, "subtasks", null);
+    }
+    return;
+  }
+
+  if (resource === "lists" && id) {
+    if (action === "tasks" && ctx.method === "POST") {
+      const task = readTaskSnapshot(ctx.body);
+      if (task) {
+        return publishTaskEvent(ctx, "task.updated", task.id, "created", task);
+      }
+    }
+
+    return publishListEvent(ctx, id, action || "updated");
+  }
+
+  if ((resource === "invites" && action === "accept") || (resource === "join-codes" && action === "redeem")) {
+    const listId = (ctx.body as { listId?: unknown } | undefined)?.listId;
+    if (typeof listId === "string") {
+      return publishListEvent(ctx, listId, "member_joined");
+    }
+  }
+
+  // Reading or clearing the inbox on one device updates the badge on the user's other devices
+  if (resource === "notifications") {
+    publishToUsers([await resolveUserId(ctx.authorization)], { type: "notifications.changed" });
+  }
+}
+
+export function hasRealtimeClients(): boolean {
+  return clientsByUser.size > 0;
+}
+
+/**
+ * Reads what a mutation's event will need but the mutation itself destroys: a deleted task answers 204,
+ * and re-reading it afterwards gives a 404. Null when nobody is listening or the read fails; the
+ * mutation goes ahead either way.
+ */
+export async function snapshotBeforeMutation(
+  method: string,
+  path: string,
+  authorization: string | null,
+): Promise<TaskSnapshot | null> {
+  const [resource, id, action] = path.split("/").filter(Boolean).slice(1);
+  if (method !== "DELETE" || resource !== "tasks" || !id || action || !authorization || !hasRealtimeClients()) {
+    return null;
+  }
+
+  try {
+    return await fetchUpstreamJson<TaskSnapshot>(`/v1/tasks/${id}`, authorization);
+  } catch (error) {
+    logger.warn("Realtime: failed to read task before deleting it", { taskId: id, error });
+    return null;
+  }
+}
+
+export function publishMutationEvents(ctx: MutationContext) {
+  const authorization = ctx.authorization;
+  if (!authorization || !hasRealtimeClients()) {
+    return;
+  }
+
+  void dispatchMutation({ ...ctx, authorization }).catch((error) => {
+    logger.warn("Realtime: failed to publish events", { method: ctx.method, path: redactPath(ctx.path), error });
+  });
+}
+
+export async function streamRealtimeEvents(req: Request, res: Response) {
+  const authorization = typeof req.headers.authorization === "string" ? req.headers.authorization : null;
+  if (!authorization) {
+    return res.status(401).json({
+      error: { code: "UNAUTHORIZED", message: "Authentication required" },
+    });
+  }
+
+  let userId: string;
+  try {
+    userId = await resolveUserId(authorization);
+  } catch (error) {
+    if (error instanceof UpstreamError) {
+      return res.status(error.status).json(
+        error.payload || { error: { code: "UNAUTHORIZED", message: "Invalid session" } },
+      );
+    }
+
+    logger.error("Realtime auth error", { error });
+    return sendUpstreamFailure(res, error, "Failed to reach TaskQuest API");
+  }
+  // An open app re-arms background pushes after a BFF restart
+  rememberPushSession(userId, authorization);
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Disable response buffering in nginx-style reverse proxies
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+
+  const clients = clientsByUser.get(userId) || new Set<Response>();
+  clients.add(res);
+  clientsByUser.set(userId, clients);
+
+  const heartbeat = setInterval(() => {
+    res.write(": ping\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+    if (clients.size === 0 && clientsByUser.get(userId) === clients) {
+      clientsByUser.delete(userId);
+    }
+  });
+}
@@ -1,12 +1,101 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "node:http";
 import OpenAI from "openai";
+import pLimit from "p-limit";
+import { logger } from "./logger";
+import {
+  contractViolationResponse,
+  isContractValidationEnabled,
+  isProposedOperation,
+  reportContractViolations,
+  validateContractRequest,
+  validateContractResponse,
+} from "./openapi";
+import { FEED_FORMAT_VERSION } from "@shared/feed";
+import { FEED_VERSION_HEADER, normalizeFeedPage } from "./feed";
+import { registerHealthRoutes } from "./health";
+import { getInvitePreview } from "./invite-page";
+import { MOCK_API_ENABLED, registerMockApi } from "./mock-api";
+import {
+  getNotificationPreferences,
+  getWebPushConfig,
+  isServerPushEnabled,
+  listPushDevices,
+  registerPushDispatcher,
+  registerPushToken,
+  revokePushDevice,
+  unregisterPushToken,
+  updateNotificationPreferences,
+} from "./push";
+import { sendExpoPushMessages } from "./push/expo";
+import { isCacheableGet, proxyCache, type UpstreamSnapshot } from "./proxy-cache";
+import {
+  buildProxyRequestHeaders,
+  copyProxyResponseHeaders,
+  pipeProxyResponse,
+  readProxyRequestBody,
+} from "./proxy-stream";
+import { optionalAuth, requireAdmin, requireAuth } from "./auth";
+import { byIp, byUser, createRateLimiter, readRateLimit } from "./rate-limit";
+import { publishMutationEvents, snapshotBeforeMutation, streamRealtimeEvents } from "./realtime";
+import {
+  STREAMED_BODY_POLICY,
+  TASKQUEST_API_URL,
+  UpstreamError,
+  fetchAllUpstreamPages,
+  fetchUpstreamJson,
+  fetchUpstreamSnapshot,
+  sendUpstreamFailure,
+  upstreamFetch,
+} from "./upstream";
 
-const TASKQUEST_API_URL = process.env.TASKQUEST_API_URL || "http://localhost:3000";
 const TASKQUEST_PUSH_REGISTER_PATH = process.env.TASKQUEST_PUSH_REGISTER_PATH || "/v1/push-tokens";
 const TASKQUEST_PUSH_UNREGISTER_PATH = process.env.TASKQUEST_PUSH_UNREGISTER_PATH || "/v1/push-tokens/revoke";
 const TASKQUEST_PUSH_SEND_PATH = process.env.TASKQUEST_PUSH_SEND_PATH || "";
-const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+// Operations the spec marks as proposed only exist in the mock API until the upstream ships them
+const PROPOSED_API_ENABLED = MOCK_API_ENABLED || process.env.TASKQUEST_PROPOSED_API === "1";
+const ACTIVE_TASKS_LIST_CONCURRENCY = 4;
+const ACTIVE_TASKS_DEFAULT_LIMIT = 20;
+const ACTIVE_TASKS_MAX_LIMIT = 50;
+
+const aiIpLimit = createRateLimiter({
+  name: "ai:ip",
+  perMinute: readRateLimit("RATE_LIMIT_AI_PER_IP", 30),
+  key: byIp,
+});
+const aiUserLimit = createRateLimiter({
+  name: "ai:user",
+  perMinute: readRateLimit("RATE_LIMIT_AI_PER_USER", 10),
+  key: byUser,
+});
+const pushIpLimit = createRateLimiter({
+  name: "push:ip",
+  perMinute: readRateLimit("RATE_LIMIT_PUSH_PER_IP", 60),
+  key: byIp,
+});
+const pushUserLimit = createRateLimiter({
+  name: "push:user",
+  perMinute: readRateLimit("RATE_LIMIT_PUSH_PER_USER", 20),
+  key: byUser,
+});
+// Invite tokens are long and random; this only keeps the preview credential from being leaned on. The
+// invite page (server/index.ts) reads with the same credential, so it shares this limiter
+export const invitePreviewIpLimit = createRateLimiter({
+  name: "invite-preview:ip",
+  perMinute: readRateLimit("RATE_LIMIT_INVITE_PREVIEW_PER_IP", 30),
+  key: byIp,
+});
+// Join codes are short enough to guess, so lookups and redemptions are throttled hard
+const joinCodeIpLimit = createRateLimiter({
+  name: "join-code:ip",
+  perMinute: readRateLimit("RATE_LIMIT_JOIN_CODE_PER_IP", 30),
+  key: byIp,
+});
+const joinCodeUserLimit = createRateLimiter({
+  name: "join-code:user",
+  perMinute: readRateLimit("RATE_LIMIT_JOIN_CODE_PER_USER", 10),
+  key: byUser,
+});
 
 type PushTestBody = {
   token?: string;
@@ -37,7 +126,7 @@ async function forwardPushTokenRequest(req: Request, res: Response, upstreamPath
   }
 
   try {
-    const response = await fetch(url, {
+    const response = await upstreamFetch(url, {
       method: "POST",
       headers,
       body: JSON.stringify(req.body || {}),
@@ -56,10 +145,25 @@ async function forwardPushTokenRequest(req: Request, res: Response, upstreamPath
     const text = await response.text();
     return res.status(response.status).send(text);
   } catch (error) {
-    console.error("Push token proxy error:", error);
-    return res.status(502).json({
-      error: { code: "PROXY_ERROR", message: "Failed to register push token" },
+    logger.error("Push token proxy error", { error });
+    return sendUpstreamFailure(res, error, "Failed to register push token");
+  }
+}
+
+// With the BFF dispatcher on, the upstream copy of the registry is informational, so failures are only logged
+async function mirrorPushTokenRequest(req: Request, upstreamPath: string) {
+  try {
+    const response = await upstreamFetch(`${TASKQUEST_API_URL}${upstreamPath}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: req.headers.authorization as string },
+      body: JSON.stringify(req.body || {}),
     });
+    await response.body?.cancel();
+    if (!response.ok) {
+      logger.debug("Upstream push token mirror rejected", { path: upstreamPath, status: response.status });
+    }
+  } catch (error) {
+    logger.debug("Upstream push token mirror failed", { path: upstreamPath, error });
   }
 }
 
@@ -75,7 +179,7 @@ async function forwardPushSendRequest(req: Request, res: Response) {
   }
 
   try {
-    const response = await fetch(url, {
+    const response = await upstreamFetch(url, {
       method: "POST",
       headers,
       body: JSON.stringify(req.body || {}),
@@ -94,10 +198,8 @@ async function forwardPushSendRequest(req: Request, res: Response) {
     const text = await response.text();
     return res.status(response.status).send(text);
   } catch (error) {
-    console.error("Push send proxy error:", error);
-    return res.status(502).json({
-      error: { code: "PROXY_ERROR", message: "Failed to send push notification" },
-    });
+    logger.error("Push send proxy error", { error });
+    return sendUpstreamFailure(res, error, "Failed to send push notification");
   }
 }
 
@@ -121,31 +223,197 @@ async function sendPushWithExpoService(req: Request, res: Response) {
     priority: "high" as const,
   };
 
-  const expoHeaders: Record<string, string> = {
-    "Content-Type": "application/json",
-    Accept: "application/json",
-  };
+  try {
+    const tickets = await sendExpoPushMessages([message]);
+    return res.json({ data: tickets[0] });
+  } catch (error) {
+    logger.error("Expo push send error", { error });
+    return res.status(502).json({
+      error: { code: "PUSH_SEND_ERROR", message: "Failed to send push via Expo service" },
+    });
+  }
+}
+
+type UpstreamTask = {
+  id: string;
+  status: string;
+  assigneeUserId?: string | null;
+  approverUserId?: string | null;
+  dueAt?: string | null;
+  [key: string]: unknown;
+};
 
-  const accessToken = process.env.EXPO_ACCESS_TOKEN;
-  if (accessToken) {
-    expoHeaders.Authorization = `Bearer ${accessToken}`;
+function isActiveTaskForUser(task: UpstreamTask, userId: string): boolean {
+  if (task.status === "in_progress") {
+    return task.assigneeUserId === userId;
   }
 
-  try {
-    const response = await fetch(EXPO_PUSH_URL, {
-      method: "POST",
-      headers: expoHeaders,
-      body: JSON.stringify(message),
+  if (task.status === "pending_approval") {
+    return task.approverUserId === userId;
+  }
+
+  return false;
+}
+
+function compareActiveTasks(a: UpstreamTask, b: UpstreamTask): number {
+  // Approvals waiting on me first, then by due date (undated last)
+  if (a.status !== b.status) {
+    return a.status === "pending_approval" ? -1 : 1;
+  }
+
+  const aDue = a.dueAt ? new Date(a.dueAt).getTime() : Number.POSITIVE_INFINITY;
+  const bDue = b.dueAt ? new Date(b.dueAt).getTime() : Number.POSITIVE_INFINITY;
+  if (aDue !== bDue) {
+    return aDue - bDue;
+  }
+
+  return a.id.localeCompare(b.id);
+}
+
+function parseOffsetCursor(value: unknown): number {
+  const offset = typeof value === "string" ? Number.parseInt(value, 10) : 0;
+  return Number.isFinite(offset) && offset > 0 ? offset : 0;
+}
+
+function parseLimit(value: unknown): number {
+  const limit = typeof value === "string" ? Number.parseInt(value, 10) : ACTIVE_TASKS_DEFAULT_LIMIT;
+  if (!Number.isFinite(limit) || limit < 1) {
+    return ACTIVE_TASKS_DEFAULT_LIMIT;
+  }
+
+  return Math.min(limit, ACTIVE_TASKS_MAX_LIMIT);
+}
+
+// Only what the assignee still has to do; completed or cancelled tasks never need a reminder
+function isDueTaskForUser(task: UpstreamTask, userId: string): boolean {
+  return (
+    task.assigneeUserId === userId && !!task.dueAt && (task.status === "open" || task.status === "in_progress")
+  );
+}
+
+/**
+ * Walks every list the user belongs to and keeps the tasks `include` accepts, tagged with their list name.
+ * `complete` is false when a list was skipped, so callers can tell a missing task from a gone one.
+ */
+async function collectTasksForUser(
+  authorization: string,
+  include: (task: UpstreamTask, userId: string) => boolean,
+): Promise<{ tasks: (UpstreamTask & { listName: string })[]; complete: boolean }> {
+  const me = await fetchUpstreamJson<{ id: string }>("/v1/auth/me", authorization);
+  const lists = await fetchAllUpstreamPages<{ id: string; name: string }>("/v1/lists", authorization);
+
+  const limit = pLimit(ACTIVE_TASKS_LIST_CONCURRENCY);
+  let complete = true;
+  const tasksPerList = await Promise.all(
+    lists.map((list) =>
+      limit(async () => {
+        try {
+          const tasks = await fetchAllUpstreamPages<UpstreamTask>(`/v1/lists/${list.id}/tasks`, authorization);
+          return tasks.filter((task) => include(task, me.id)).map((task) => ({ ...task, listName: list.name }));
+        } catch (error) {
+          // A list the user just lost access to (membership revoked, list deleted mid-request) must not hide
+          // the rest; anything else means the answer would be incomplete, so the whole request fails
+          if (error instanceof UpstreamError && (error.status === 403 || error.status === 404)) {
+            logger.warn("User tasks: skipping list", { listId: list.id, status: error.status });
+            complete = false;
+            return [];
+          }
+          throw error;
+        }
+      }),
+    ),
+  );
+  return { tasks: tasksPerList.flat(), complete };
+}
+
+function sendTaskCollectionFailure(res: Response, error: unknown, label: string) {
+  if (error instanceof UpstreamError) {
+    return res.status(error.status).json(
+      error.payload || { error: { code: "UPSTREAM_ERROR", message: "TaskQuest API request failed" } },
+    );
+  }
+
+  logger.error(`${label} error`, { error });
+  return sendUpstreamFailure(res, error, "Failed to reach TaskQuest API");
+}
+
+async function listActiveTasks(req: Request, res: Response) {
+  const authorization = getAuthorizationHeader(req);
+  if (!authorization) {
+    return res.status(401).json({
+      error: { code: "UNAUTHORIZED", message: "Authentication required" },
     });
+  }
 
-    const data = await response.json().catch(() => ({}));
-    return res.status(response.status).json(data);
+  try {
+    const { tasks } = await collectTasksForUser(authorization, isActiveTaskForUser);
+    const activeTasks = tasks.sort(compareActiveTasks);
+    const offset = parseOffsetCursor(req.query.cursor);
+    const pageSize = parseLimit(req.query.limit);
+    const page = activeTasks.slice(offset, offset + pageSize);
+    const nextOffset = offset + page.length;
+
+    return res.json({
+      data: page,
+      total: activeTasks.length,
+      nextCursor: nextOffset < activeTasks.length ? String(nextOffset) : null,
+    });
   } catch (error) {
-    console.error("Expo push send error:", error);
-    return res.status(502).json({
-      error: { code: "PUSH_SEND_ERROR", message: "Failed to send push via Expo service" },
+    return sendTaskCollectionFailure(res, error, "Active tasks");
+  }
+}
+
+/** Every open or in-progress task assigned to the current user with a due date, unpaginated, for on-device reminders */
+async function listDueTasks(req: Request, res: Response) {
+  const authorization = getAuthorizationHeader(req);
+  if (!authorization) {
+    return res.status(401).json({
+      error: { code: "UNAUTHORIZED", message: "Authentication required" },
     });
   }
+
+  try {
+    const { tasks, complete } = await collectTasksForUser(authorization, isDueTaskForUser);
+    tasks.sort((a, b) => new Date(a.dueAt!).getTime() - new Date(b.dueAt!).getTime() || a.id.localeCompare(b.id));
+    return res.json({ data: tasks, complete });
+  } catch (error) {
+    return sendTaskCollectionFailure(res, error, "Due tasks");
+  }
+}
+
+function checkContractResponse(req: Request, res: Response, path: string, status: number, body: unknown): boolean {
+  const violations = validateContractResponse(req.method, path, status, body);
+  if (violations.length > 0) {
+    res.setHeader("X-Contract-Violations", String(violations.length));
+  }
+  if (reportContractViolations("response", req.method, path, violations)) {
+    res.status(502).json(contractViolationResponse("response", violations));
+    return false;
+  }
+  return true;
+}
+
+function parseSnapshotJson(snapshot: UpstreamSnapshot): unknown {
+  if (!isContractValidationEnabled() || !snapshot.contentType?.includes("application/json")) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(snapshot.body);
+  } catch {
+    return undefined;
+  }
+}
+
+function sendUpstreamSnapshot(res: Response, snapshot: UpstreamSnapshot) {
+  if (snapshot.status === 204) {
+    return res.status(204).send();
+  }
+
+  if (snapshot.contentType) {
+    res.setHeader("Content-Type", snapshot.contentType);
+  }
+
+  return res.status(snapshot.status).send(snapshot.body);
 }
 
 async function proxyToApi(req: Request, res: Response) {
@@ -155,85 +423,128 @@ async function proxyToApi(req: Request, res: Response) {
     : "";
   const url = `${TASKQUEST_API_URL}${path}${queryString}`;
 
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-  if (req.headers.authorization) {
-    headers["Authorization"] = req.headers.authorization as string;
+  const headers = buildProxyRequestHeaders(req);
+
+  if (!PROPOSED_API_ENABLED && isProposedOperation(req.method, path)) {
+    return res.status(501).json({
+      error: { code: "NOT_IMPLEMENTED", message: "The TaskQuest API does not offer this yet" },
+    });
+  }
+
+  const requestViolations = validateContractRequest(req.method, path, req.query, req.body);
+  if (requestViolations.length > 0) {
+    res.setHeader("X-Contract-Violations", String(requestViolations.length));
+  }
+  if (reportContractViolations("request", req.method, path, requestViolations)) {
+    return res.status(400).json(contractViolationResponse("request", requestViolations));
   }
 
   try {
-    const fetchOptions: RequestInit = {
+    if (req.method === "GET" && isCacheableGet(path)) {
+      const cacheKey = proxyCache.buildKey(getAuthorizationHeader(req), `${path}${queryString}`);
+      const { snapshot, status } = await proxyCache.get(cacheKey, () => fetchUpstreamSnapshot(url, headers));
+      res.setHeader("X-Cache", status);
+      if (!checkContractResponse(req, res, path, snapshot.status, parseSnapshotJson(snapshot))) {
+        return;
+      }
+      return sendUpstreamSnapshot(res, snapshot);
+    }
+
+    const { body, streamed } = readProxyRequestBody(req);
+    const fetchOptions: RequestInit & { duplex?: "half" } = {
       method: req.method,
       headers,
+      body,
+      duplex: streamed ? "half" : undefined,
     };
 
-    if (!["GET", "HEAD", "OPTIONS"].includes(req.method) && req.body && Object.keys(req.body).length > 0) {
-      fetchOptions.body = JSON.stringify(req.body);
-    }
-
-    const response = await fetch(url, fetchOptions);
+    const isMutation = !["GET", "HEAD", "OPTIONS"].includes(req.method);
+    const previous = isMutation ? await snapshotBeforeMutation(req.method, path, getAuthorizationHeader(req)) : null;
+    const response = await upstreamFetch(url, fetchOptions, streamed ? STREAMED_BODY_POLICY : {});
+    const mutationSucceeded = isMutation && response.status < 400;
 
-    const contentType = response.headers.get("content-type");
-    if (response.status === 204) {
-      return res.status(204).send();
+    if (mutationSucceeded) {
+      proxyCache.invalidateForMutation(path);
     }
 
-    if (contentType?.includes("application/json")) {
+    const contentType = response.headers.get("content-type");
+    if (contentType?.includes("application/json") && response.status !== 204) {
       const data = await response.json();
-      if (path.startsWith("/v1/feed") && data?.data && Array.isArray(data.data)) {
-        const needsEnrich = data.data.filter(
-          (item: any) => item.taskId && item.payload && !item.payload.taskTitle && !item.payload.title
-        );
-        if (needsEnrich.length > 0) {
-          const taskIds = [...new Set(needsEnrich.map((item: any) => item.taskId))] as string[];
-          const taskDetails: Record<string, any> = {};
-          await Promise.all(
-            taskIds.map(async (tid) => {
-              try {
-                const taskRes = await fetch(`${TASKQUEST_API_URL}/v1/tasks/${tid}`, { headers });
-                if (taskRes.ok) {
-                  taskDetails[tid] = await taskRes.json();
-                }
-              } catch {}
-            })
-          );
-          for (const item of data.data) {
-            if (item.taskId && taskDetails[item.taskId] && !item.payload?.taskTitle && !item.payload?.title) {
-              const task = taskDetails[item.taskId];
-              item.payload = {
-                ...item.payload,
-                taskTitle: task.title || "",
-                rewardXp: task.rewardXp || 0,
-                dueAt: task.dueAt || null,
-              };
-            }
-          }
-        }
+      if (mutationSucceeded) {
+        publishMutationEvents({
+          method: req.method,
+          path,
+          authorization: getAuthorizationHeader(req),
+          body: data,
+          previous,
+        });
+      }
+      if (!checkContractResponse(req, res, path, response.status, data)) {
+        return;
+      }
+      copyProxyResponseHeaders(response, res);
+      if (req.method === "GET" && path === "/v1/feed" && response.ok) {
+        // The body is rewritten, so the upstream validator no longer describes it
+        res.removeHeader("etag");
+        res.setHeader(FEED_VERSION_HEADER, String(FEED_FORMAT_VERSION));
+        return res.status(response.status).json(await normalizeFeedPage(data, getAuthorizationHeader(req)));
       }
       return res.status(response.status).json(data);
     }
 
-    const text = await response.text();
-    return res.status(response.status).send(text);
+    if (mutationSucceeded) {
+      publishMutationEvents({ method: req.method, path, authorization: getAuthorizationHeader(req), previous });
+    }
+
+    await pipeProxyResponse(response, res);
   } catch (error) {
-    console.error("Proxy error:", error);
-    return res.status(502).json({
-      error: { code: "PROXY_ERROR", message: "Failed to reach TaskQuest API" },
-    });
+    logger.error("Proxy error", { error });
+    // A stream that breaks after the headers went out can only be cut off
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    return sendUpstreamFailure(res, error, "Failed to reach TaskQuest API");
   }
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  app.post("/api/push/register", async (req: Request, res: Response) => {
+  if (MOCK_API_ENABLED) {
+    await registerMockApi(app);
+  }
+
+  registerHealthRoutes(app);
+
+  registerPushDispatcher(app);
+
+  app.post("/api/push/register", pushIpLimit, requireAuth, pushUserLimit, async (req: Request, res: Response) => {
+    if (isServerPushEnabled()) {
+      void mirrorPushTokenRequest(req, TASKQUEST_PUSH_REGISTER_PATH);
+      return registerPushToken(req, res);
+    }
+
     return forwardPushTokenRequest(req, res, TASKQUEST_PUSH_REGISTER_PATH);
   });
 
-  app.post("/api/push/unregister", async (req: Request, res: Response) => {
+  // Signed-out devices unregister too, so only the IP limit applies; see unregisterPushToken
+  app.post("/api/push/unregister", pushIpLimit, optionalAuth, async (req: Request, res: Response) => {
+    if (isServerPushEnabled()) {
+      if (req.headers.authorization) void mirrorPushTokenRequest(req, TASKQUEST_PUSH_UNREGISTER_PATH);
+      return unregisterPushToken(req, res);
+    }
+
     return forwardPushTokenRequest(req, res, TASKQUEST_PUSH_UNREGISTER_PATH);
   });
 
-  app.post("/api/push/test-send", async (req: Request, res: Response) => {
+  // Device management reads the BFF registry, which is only populated while the dispatcher is on
+  app.get("/api/push/devices", pushIpLimit, requireAuth, pushUserLimit, listPushDevices);
+  app.delete("/api/push/devices/:id", pushIpLimit, requireAuth, pushUserLimit, revokePushDevice);
+  app.get("/api/push/web/config", pushIpLimit, getWebPushConfig);
+
+  app.get("/api/notification-preferences", pushIpLimit, requireAuth, pushUserLimit, getNotificationPreferences);
+  app.put("/api/notification-preferences", pushIpLimit, requireAuth, pushUserLimit, updateNotificationPreferences);
+
+  app.post("/api/push/test-send", pushIpLimit, requireAuth, requireAdmin, pushUserLimit, async (req: Request, res: Response) => {
     if (TASKQUEST_PUSH_SEND_PATH) {
       return forwardPushSendRequest(req, res);
     }
@@ -241,7 +552,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return sendPushWithExpoService(req, res);
   });
 
-  app.post("/api/xp-suggest", async (req: Request, res: Response) => {
+  app.post("/api/xp-suggest", aiIpLimit, requireAuth, aiUserLimit, async (req: Request, res: Response) => {
     try {
       const { title, description } = req.body;
       if (!title) {
@@ -280,11 +591,18 @@ Respond ONLY with valid JSON: { "suggestedXp": number, "justification": "brief r
       const suggestedXp = Math.max(5, Math.min(50, result.suggestedXp || 10));
       return res.json({ suggestedXp, justification: result.justification || "" });
     } catch (error) {
-      console.error("XP suggestion error:", error);
+      logger.error("XP suggestion error", { error });
       return res.status(500).json({ error: { code: "AI_ERROR", message: "Failed to generate XP suggestion" } });
     }
   });
 
+  app.get("/api/realtime/events", streamRealtimeEvents);
+
+  app.get("/api/v1/active-tasks", listActiveTasks);
+  app.get("/api/v1/due-tasks", listDueTasks);
+  app.use("/api/v1/join-codes", joinCodeIpLimit, requireAuth, joinCodeUserLimit);
+  app.get("/api/preview/invites/:token", invitePreviewIpLimit, getInvitePreview);
+
   app.all("/api/v1/{*path}", proxyToApi);
 
   const httpServer = createServer(app);
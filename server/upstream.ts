@@ -0,0 +1,232 @@
+import type { Response } from "express";
+import { CircuitBreaker, CircuitOpenError } from "./circuit-breaker";
+import { logger, redactPath, requestContext } from "./logger";
+import { MOCK_API_BASE_PATH, MOCK_API_ENABLED } from "./mock-api";
+import type { UpstreamSnapshot } from "./proxy-cache";
+
+// The mock API is mounted on this same server, so the proxy path stays identical
+export const TASKQUEST_API_URL = MOCK_API_ENABLED
+  ? `http://127.0.0.1:${process.env.PORT || "5000"}${MOCK_API_BASE_PATH}`
+  : process.env.TASKQUEST_API_URL || "http://localhost:3000";
+export const REQUEST_ID_HEADER = "X-Request-Id";
+const UPSTREAM_PAGE_SIZE = 50;
+const TASKQUEST_PATH_PREFIX = new URL(TASKQUEST_API_URL).pathname.replace(/\/$/, "");
+
+function readMs(envName: string, fallback: number): number {
+  const value = Number.parseInt(process.env[envName] || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const UPSTREAM_TIMEOUT_MS = readMs("UPSTREAM_TIMEOUT_MS", 10_000);
+const UPSTREAM_RETRIES = readMs("UPSTREAM_RETRIES", 2);
+const UPSTREAM_RETRY_BASE_MS = readMs("UPSTREAM_RETRY_BASE_MS", 200);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+// Session checks and push registration sit on the app's critical path; XP suggestions wait on a model call
+const ROUTE_TIMEOUTS: [RegExp, number][] = [
+  [/^\/v1\/auth\/me$/, readMs("UPSTREAM_TIMEOUT_AUTH_MS", 5_000)],
+  [/^\/v1\/push-tokens/, readMs("UPSTREAM_TIMEOUT_PUSH_MS", 5_000)],
+  [/^\/v1\/gamification\/xp-suggestions$/, readMs("UPSTREAM_TIMEOUT_AI_MS", 30_000)],
+];
+
+/** Streamed request bodies can't be replayed, and uploads from a phone need more time than JSON calls */
+export const STREAMED_BODY_POLICY: UpstreamPolicy = {
+  timeoutMs: readMs("UPSTREAM_TIMEOUT_UPLOAD_MS", 60_000),
+  retries: 0,
+};
+
+export const upstreamBreaker = new CircuitBreaker({
+  failureThreshold: readMs("UPSTREAM_BREAKER_THRESHOLD", 5),
+  cooldownMs: readMs("UPSTREAM_BREAKER_COOLDOWN_MS", 15_000),
+});
+
+export class UpstreamError extends Error {
+  constructor(
+    public status: number,
+    public payload: unknown,
+  ) {
+    super(`Upstream request failed with status ${status}`);
+  }
+}
+
+export class UpstreamTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`Upstream request timed out after ${timeoutMs}ms`);
+  }
+}
+
+export type UpstreamPolicy = {
+  timeoutMs?: number;
+  /** Extra attempts for idempotent methods; ignored for POST/PATCH */
+  retries?: number;
+  /** Keep the timeout armed until the whole body is read, for callers that parse it right away */
+  bufferBody?: boolean;
+};
+
+function timeoutFor(url: string): number {
+  const { pathname } = new URL(url);
+  const upstreamPath = pathname.startsWith(TASKQUEST_PATH_PREFIX)
+    ? pathname.slice(TASKQUEST_PATH_PREFIX.length)
+    : pathname;
+  return ROUTE_TIMEOUTS.find(([pattern]) => pattern.test(upstreamPath))?.[1] ?? UPSTREAM_TIMEOUT_MS;
+}
+
+function recordUpstreamFailure(url: string) {
+  const wasOpen = upstreamBreaker.getState() === "open";
+  upstreamBreaker.recordFailure();
+  if (!wasOpen && upstreamBreaker.getState() === "open") {
+    logger.error("Upstream circuit opened", { url: redactPath(url), ...upstreamBreaker.snapshot() });
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  const base = UPSTREAM_RETRY_BASE_MS * 2 ** attempt;
+  return base + Math.random() * base;
+}
+
+// Only the upload and the wait for response headers are timed, so long downloads can still stream;
+// with `bufferBody` the body is read under the same timer and handed back already in memory
+async function fetchOnce(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  bufferBody = false,
+): Promise<globalThis.Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = init.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal;
+  try {
+    const response = await fetch(url, { ...init, signal });
+    if (!bufferBody) {
+      return response;
+    }
+    const body = await response.arrayBuffer();
+    const { status, statusText, headers } = response;
+    return new globalThis.Response(body.byteLength > 0 ? body : null, { status, statusText, headers });
+  } catch (error) {
+    throw controller.signal.aborted ? new UpstreamTimeoutError(timeoutMs) : error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * fetch() against the TaskQuest API, tagged with the current request id and timed for the request log.
+ * Applies the per-route timeout, retries idempotent requests on network errors and 502/503/504,
+ * and fails fast with CircuitOpenError while the upstream is unhealthy.
+ */
+export async function upstreamFetch(
+  url: string,
+  init: RequestInit = {},
+  policy: UpstreamPolicy = {},
+): Promise<globalThis.Response> {
+  const context = requestContext.getStore();
+  const headers = new Headers(init.headers);
+  if (context) {
+    headers.set(REQUEST_ID_HEADER, context.requestId);
+  }
+
+  const method = (init.method || "GET").toUpperCase();
+  const timeoutMs = policy.timeoutMs ?? timeoutFor(url);
+  const retries = IDEMPOTENT_METHODS.has(method) ? (policy.retries ?? UPSTREAM_RETRIES) : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    upstreamBreaker.acquire();
+    const start = performance.now();
+    try {
+      const response = await fetchOnce(url, { ...init, headers }, timeoutMs, policy.bufferBody);
+      if (response.status >= 500) {
+        recordUpstreamFailure(url);
+      } else {
+        upstreamBreaker.recordSuccess();
+      }
+
+      if (attempt < retries && RETRYABLE_STATUSES.has(response.status)) {
+        await response.body?.cancel();
+      } else {
+        return response;
+      }
+    } catch (error) {
+      recordUpstreamFailure(url);
+      if (attempt >= retries || init.signal?.aborted) {
+        throw error;
+      }
+    } finally {
+      if (context) {
+        context.upstreamMs += performance.now() - start;
+        context.upstreamCalls += 1;
+      }
+    }
+
+    logger.warn("Retrying upstream request", { method, url: redactPath(url), attempt: attempt + 1 });
+    await new Promise((resolve) => setTimeout(resolve, backoffDelay(attempt)));
+  }
+}
+
+/** Answers with 503 while the circuit is open, 504 on timeout and 502 PROXY_ERROR otherwise */
+export function sendUpstreamFailure(res: Response, error: unknown, message: string) {
+  if (error instanceof CircuitOpenError) {
+    res.setHeader("Retry-After", String(Math.max(1, Math.ceil(error.retryAfterMs / 1000))));
+    return res.status(503).json({
+      error: { code: "UPSTREAM_UNAVAILABLE", message: "TaskQuest API is temporarily unavailable" },
+    });
+  }
+
+  if (error instanceof UpstreamTimeoutError) {
+    return res.status(504).json({
+      error: { code: "UPSTREAM_TIMEOUT", message: "TaskQuest API did not respond in time" },
+    });
+  }
+
+  return res.status(502).json({ error: { code: "PROXY_ERROR", message } });
+}
+
+export async function fetchUpstreamSnapshot(
+  url: string,
+  headers: Record<string, string>,
+  policy: UpstreamPolicy = {},
+): Promise<UpstreamSnapshot> {
+  const response = await upstreamFetch(url, { headers }, { ...policy, bufferBody: true });
+  return {
+    status: response.status,
+    contentType: response.headers.get("content-type"),
+    body: response.status === 204 ? "" : await response.text(),
+  };
+}
+
+export async function fetchUpstreamJson<T>(upstreamPath: string, authorization: string | null): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (authorization) {
+    headers.Authorization = authorization;
+  }
+
+  const response = await upstreamFetch(`${TASKQUEST_API_URL}${upstreamPath}`, { headers }, { bufferBody: true });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new UpstreamError(response.status, payload);
+  }
+
+  return (await response.json()) as T;
+}
+
+export async function fetchAllUpstreamPages<T>(upstreamPath: string, authorization: string | null): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | null | undefined;
+
+  do {
+    const params = new URLSearchParams({ limit: String(UPSTREAM_PAGE_SIZE) });
+    if (cursor) {
+      params.set("cursor", cursor);
+    }
+
+    const page = await fetchUpstreamJson<{ data?: T[]; nextCursor?: string | null }>(
+      `${upstreamPath}?${params.toString()}`,
+      authorization,
+    );
+    items.push(...(page.data || []));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return items;
+}
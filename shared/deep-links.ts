@@ -0,0 +1,150 @@
+export type DeepLinkTarget =
+  | { type: "task"; taskId: string }
+  | { type: "list"; listId: string }
+  | { type: "members"; listId: string }
+  | { type: "invite"; token: string }
+  | { type: "join"; code: string }
+  | { type: "leaderboard" }
+  | { type: "profile" }
+  | { type: "notifications" };
+
+type DeepLinkRoute = {
+  pattern: string;
+  toTarget: (params: Record<string, string>) => DeepLinkTarget;
+};
+
+/**
+ * Every https path the app answers as a universal/app link, first match wins. Canonical paths come
+ * first; the rest are the app's own route paths and older links that are still out in the wild.
+ * The association files served by the BFF are generated from these patterns.
+ */
+export const DEEP_LINK_ROUTES: DeepLinkRoute[] = [
+  { pattern: "/tasks/:taskId", toTarget: ({ taskId }) => ({ type: "task", taskId }) },
+  { pattern: "/lists/:listId/tasks/:taskId", toTarget: ({ taskId }) => ({ type: "task", taskId }) },
+  { pattern: "/lists/:listId/members", toTarget: ({ listId }) => ({ type: "members", listId }) },
+  { pattern: "/lists/:listId", toTarget: ({ listId }) => ({ type: "list", listId }) },
+  // The API hands out invitePath as /invites/{token}
+  { pattern: "/invites/:token", toTarget: ({ token }) => ({ type: "invite", token }) },
+  // Join codes hand out /join/{code}; the QR code on the members screen encodes the same link
+  { pattern: "/join/:code", toTarget: ({ code }) => ({ type: "join", code }) },
+  { pattern: "/leaderboard", toTarget: () => ({ type: "leaderboard" }) },
+  { pattern: "/profile", toTarget: () => ({ type: "profile" }) },
+  { pattern: "/notifications", toTarget: () => ({ type: "notifications" }) },
+  { pattern: "/task/:taskId", toTarget: ({ taskId }) => ({ type: "task", taskId }) },
+  { pattern: "/list/:listId", toTarget: ({ listId }) => ({ type: "list", listId }) },
+  { pattern: "/members/:listId", toTarget: ({ listId }) => ({ type: "members", listId }) },
+  { pattern: "/invite/:token", toTarget: ({ token }) => ({ type: "invite", token }) },
+  { pattern: "/ranking", toTarget: () => ({ type: "leaderboard" }) },
+];
+
+function matchPattern(pattern: string, segments: string[]): Record<string, string> | null {
+  const parts = pattern.split("/").filter(Boolean);
+  if (parts.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < parts.length; index += 1) {
+    const part = parts[index];
+    const segment = segments[index];
+    if (part.startsWith(":")) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(segment);
+      } catch {
+        return null;
+      }
+    } else if (part !== segment.toLowerCase()) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/** Resolves a path (query string and trailing slash allowed) to what it points at, or null when it isn't a link */
+export function parseDeepLinkPath(path: string): DeepLinkTarget | null {
+  const segments = path.split(/[?#]/)[0].split("/").filter(Boolean);
+  for (const route of DEEP_LINK_ROUTES) {
+    const params = matchPattern(route.pattern, segments);
+    if (params) {
+      return route.toTarget(params);
+    }
+  }
+  return null;
+}
+
+/** The canonical https path for a target, used when sharing links and in push payloads (`url`) */
+export function getDeepLinkPath(target: DeepLinkTarget): string {
+  switch (target.type) {
+    case "task":
+      return `/tasks/${encodeURIComponent(target.taskId)}`;
+    case "list":
+      return `/lists/${encodeURIComponent(target.listId)}`;
+    case "members":
+      return `/lists/${encodeURIComponent(target.listId)}/members`;
+    case "invite":
+      return `/invites/${encodeURIComponent(target.token)}`;
+    case "join":
+      return `/join/${encodeURIComponent(target.code)}`;
+    case "leaderboard":
+      return "/leaderboard";
+    case "profile":
+      return "/profile";
+    case "notifications":
+      return "/notifications";
+  }
+}
+
+/** Path patterns in the wildcard form used by apple-app-site-association components and Android intent filters */
+export function getDeepLinkPathWildcards(): string[] {
+  return DEEP_LINK_ROUTES.map((route) => route.pattern.replace(/:[^/]+/g, "*"));
+}
+
+/**
+ * Accepts whatever the OS hands over: an https universal link, a custom-scheme URL (where the "host"
+ * is really the first path segment) or a bare path. Expo dev client URLs carry the path after `/--/`.
+ */
+export function parseDeepLinkUrl(url: string): DeepLinkTarget | null {
+  const path = url
+    .replace(/^https?:\/\/[^/?#]*/i, "")
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, "/")
+    .replace(/^.*\/--\//, "/");
+  return parseDeepLinkPath(path);
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function readInviteToken(data: Record<string, unknown>): string | null {
+  const directToken = readString(data.token) || readString(data.inviteToken) || readString(data.invite_token);
+  if (directToken) {
+    return directToken;
+  }
+
+  const invitePath = readString(data.invitePath) || readString(data.invite_path) || readString(data.path);
+  const match = invitePath?.match(/invites\/(.+)$/);
+  return match?.[1] ? match[1] : null;
+}
+
+/**
+ * Where a notification leads, from its flattened payload (`type`, `taskId` and the API payload fields).
+ * The BFF sends the result as `url` on every push; the app falls back to this for older pushes.
+ */
+export function getNotificationLinkTarget(data: Record<string, unknown>): DeepLinkTarget {
+  const taskId = readString(data.taskId) || readString(data.task_id);
+  if (taskId) {
+    return { type: "task", taskId };
+  }
+
+  const token = readInviteToken(data);
+  if (token) {
+    return { type: "invite", token };
+  }
+
+  const listId = readString(data.listId);
+  if (listId) {
+    return { type: "list", listId };
+  }
+
+  return data.type === "user_level_up" ? { type: "profile" } : { type: "notifications" };
+}
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+/** Bumped whenever a feed payload changes incompatibly; sent as `version` and the `X-Feed-Version` header */
+export const FEED_FORMAT_VERSION = 2;
+
+const taskRef = {
+  taskTitle: z.string().nullable(),
+  rewardXp: z.number().int().nullable(),
+  dueAt: z.string().nullable(),
+  listName: z.string().nullable(),
+};
+
+const actor = {
+  actorName: z.string().nullable(),
+};
+
+function feedItem<T extends string, P extends z.ZodRawShape>(type: T, payload: P) {
+  return z.object({
+    id: z.string(),
+    type: z.literal(type),
+    actorUserId: z.string().nullable(),
+    targetUserId: z.string().nullable(),
+    taskId: z.string().nullable(),
+    listId: z.string().nullable(),
+    createdAt: z.string(),
+    payload: z.object(payload),
+  });
+}
+
+export const feedItemSchema = z.discriminatedUnion("type", [
+  feedItem("task_created", { ...actor, ...taskRef, energyCost: z.number().nullable() }),
+  feedItem("task_started", { ...actor, ...taskRef }),
+  feedItem("task_completed", { ...actor, ...taskRef, xpGained: z.number().nullable() }),
+  feedItem("task_pending_approval", { ...actor, ...taskRef }),
+  feedItem("task_approved", { ...actor, ...taskRef, xpGained: z.number().nullable() }),
+  feedItem("task_rejected", { ...actor, ...taskRef, reason: z.string().nullable() }),
+  feedItem("list_invite_created", { ...actor, listName: z.string().nullable() }),
+  feedItem("user_level_up", { ...actor, fromLevel: z.number().int().nullable(), newLevel: z.number().int() }),
+  feedItem("reminder_due_today", { ...taskRef }),
+]);
+
+export const feedResponseSchema = z.object({
+  version: z.literal(FEED_FORMAT_VERSION),
+  data: z.array(feedItemSchema),
+  nextCursor: z.string().nullable(),
+});
+
+export type FeedItem = z.infer<typeof feedItemSchema>;
+export type FeedItemType = FeedItem["type"];
+export type FeedPayload<T extends FeedItemType> = Extract<FeedItem, { type: T }>["payload"];
+export type FeedResponse = z.infer<typeof feedResponseSchema>;
+
+export const FEED_ITEM_TYPES = feedItemSchema.options.map((option) => option.shape.type.value) as FeedItemType[];
@@ -0,0 +1,35 @@
+import { parseDeepLinkUrl } from "./deep-links";
+
+// No 0/O or 1/I, so a code read out across the kitchen table is typed in right the first time
+export const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const JOIN_CODE_LENGTH = 8;
+
+const JOIN_CODE_PATTERN = /^[A-Z0-9]{4,16}$/;
+
+/** Uppercases and drops separators and spaces, which is the form the API expects in paths */
+export function normalizeJoinCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/** "ABCDEFGH" becomes "ABCD-EFGH" for display */
+export function formatJoinCode(code: string): string {
+  const normalized = normalizeJoinCode(code);
+  return normalized.length > 4 ? `${normalized.slice(0, 4)}-${normalized.slice(4)}` : normalized;
+}
+
+/**
+ * Reads a code from what the user typed or the camera scanned: QR codes carry the full join link,
+ * typed codes may have the dash or spaces. Null when it can't be a code.
+ */
+export function parseJoinCodeInput(input: string): string | null {
+  const target = parseDeepLinkUrl(input.trim());
+  if (target?.type === "join") {
+    return normalizeJoinCode(target.code);
+  }
+  if (input.includes("/")) {
+    return null;
+  }
+
+  const code = normalizeJoinCode(input);
+  return JOIN_CODE_PATTERN.test(code) ? code : null;
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+export const NOTIFICATION_TYPES = [
+  "task_assigned",
+  "task_pending_approval",
+  "task_approved",
+  "task_rejected",
+  "list_invite_received",
+  "user_level_up",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/** push: alert the device; in_app: only listed in the app; off: hidden everywhere */
+export const notificationDeliverySchema = z.enum(["push", "in_app", "off"]);
+
+export type NotificationDelivery = z.infer<typeof notificationDeliverySchema>;
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24h)");
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const notificationPreferencesSchema = z.object({
+  types: z.object(
+    Object.fromEntries(NOTIFICATION_TYPES.map((type) => [type, notificationDeliverySchema])) as Record<
+      NotificationType,
+      typeof notificationDeliverySchema
+    >,
+  ),
+  /** Lists whose task notifications stay in the app instead of alerting */
+  mutedListIds: z.array(z.string()).max(500),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: clockTime,
+    end: clockTime,
+    timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+  }),
+});
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+/** What GET/PUT /api/notification-preferences return; updatedAt is null until the user first saves */
+export type StoredNotificationPreferences = NotificationPreferences & { updatedAt: string | null };
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  types: {
+    task_assigned: "push",
+    task_pending_approval: "push",
+    task_approved: "push",
+    task_rejected: "push",
+    list_invite_received: "push",
+    user_level_up: "push",
+  },
+  mutedListIds: [],
+  quietHours: { enabled: false, start: "22:00", end: "07:00", timeZone: "UTC" },
+};
+
+type NotificationLike = {
+  type: string;
+  payload?: Record<string, unknown> | null;
+};
+
+export function getNotificationDelivery(
+  preferences: NotificationPreferences,
+  notification: NotificationLike,
+): NotificationDelivery {
+  return preferences.types[notification.type as NotificationType] ?? "push";
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** True when `now` falls inside the quiet window in the user's time zone; windows may wrap past midnight */
+export function isWithinQuietHours(quietHours: NotificationPreferences["quietHours"], now: Date): boolean {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) {
+    return false;
+  }
+
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: quietHours.timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? 0);
+  const current = hour * 60 + minute;
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/** Whether a notification may alert the user (server push or local notification) right now */
+export function shouldAlertNotification(
+  preferences: NotificationPreferences,
+  notification: NotificationLike,
+  now: Date = new Date(),
+): boolean {
+  if (getNotificationDelivery(preferences, notification) !== "push") {
+    return false;
+  }
+
+  // Invites come from lists the user hasn't joined, so only task notifications follow list mutes
+  const listId = notification.payload?.listId;
+  if (notification.type.startsWith("task_") && typeof listId === "string" && preferences.mutedListIds.includes(listId)) {
+    return false;
+  }
+
+  return !isWithinQuietHours(preferences.quietHours, now);
+}
@@ -0,0 +1,95 @@
+export type PushProvider = "expo" | "webpush";
+
+export const PUSH_PROVIDERS: readonly PushProvider[] = ["expo", "webpush"];
+
+export type PushChannelImportance = "high" | "default" | "low";
+
+export type PushChannel = {
+  id: string;
+  name: string;
+  description: string;
+  importance: PushChannelImportance;
+};
+
+/**
+ * Android notification channels, one per notification type so people can mute level-ups
+ * without missing approvals. Channel ids are sent as `channelId` on every Expo push, and
+ * Android never lets an app raise a channel's importance after creation, so pick it carefully.
+ */
+export const PUSH_CHANNELS = {
+  task_assigned: {
+    id: "task_assigned",
+    name: "Assigned tasks",
+    description: "A task was assigned to you",
+    importance: "high",
+  },
+  task_pending_approval: {
+    id: "task_pending_approval",
+    name: "Approvals",
+    description: "A task is waiting for your approval",
+    importance: "high",
+  },
+  task_approved: {
+    id: "task_approved",
+    name: "Approved tasks",
+    description: "Your task was approved and the XP awarded",
+    importance: "default",
+  },
+  task_rejected: {
+    id: "task_rejected",
+    name: "Rejected tasks",
+    description: "Your task was sent back with a reason",
+    importance: "default",
+  },
+  list_invite_received: {
+    id: "list_invite_received",
+    name: "List invites",
+    description: "Someone invited you to a list",
+    importance: "default",
+  },
+  user_level_up: {
+    id: "user_level_up",
+    name: "Level ups",
+    description: "You reached a new level",
+    importance: "low",
+  },
+  // Scheduled on the device itself; the server never pushes on this channel
+  task_reminder: {
+    id: "task_reminder",
+    name: "Due date reminders",
+    description: "A task assigned to you is coming due",
+    importance: "high",
+  },
+  default: {
+    id: "default",
+    name: "Other notifications",
+    description: "Everything else from TaskQuest",
+    importance: "default",
+  },
+} satisfies Record<string, PushChannel>;
+
+export function getPushChannelId(notificationType: string): string {
+  return notificationType in PUSH_CHANNELS
+    ? PUSH_CHANNELS[notificationType as keyof typeof PUSH_CHANNELS].id
+    : PUSH_CHANNELS.default.id;
+}
+
+export type PushActionId = "approve" | "reject" | "start" | "accept";
+
+export const PUSH_ACTION_IDS: readonly PushActionId[] = ["approve", "reject", "start", "accept"];
+
+/**
+ * Notification categories with action buttons. The id is sent as `categoryId` on Expo pushes
+ * and as `categoryIdentifier` on local notifications; the app registers the buttons for each one.
+ */
+export const PUSH_CATEGORIES = {
+  task_pending_approval: { id: "task_approval", actions: ["approve", "reject"] },
+  task_assigned: { id: "task_assignment", actions: ["start"] },
+  list_invite_received: { id: "list_invite", actions: ["accept"] },
+} satisfies Record<string, { id: string; actions: PushActionId[] }>;
+
+export function getPushCategoryId(notificationType: string): string | undefined {
+  return notificationType in PUSH_CATEGORIES
+    ? PUSH_CATEGORIES[notificationType as keyof typeof PUSH_CATEGORIES].id
+    : undefined;
+}